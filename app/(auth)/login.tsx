@@ -5,8 +5,7 @@ import { supabase, login, clearAuthTokens, resendVerificationEmail } from '@/lib
 import { Text, TextInput, Button, Surface, HelperText, Divider } from 'react-native-paper';
 import { Mail, Lock, Eye, EyeOff } from 'lucide-react-native';
 import * as Linking from 'expo-linking';
-import { useWatchlistStore } from '@/lib/watchlistStore';
-import { useWatchedStore } from '@/lib/watchedStore';
+import { useLibraryStore } from '@/lib/libraryStore';
 
 export default function LoginScreen() {
   const router = useRouter();
@@ -24,8 +23,7 @@ export default function LoginScreen() {
   const [showVerificationReminder, setShowVerificationReminder] = useState(false);
   const [resendingEmail, setResendingEmail] = useState(false);
   
-  const syncWatchlist = useWatchlistStore(state => state.syncWithSupabase);
-  const syncWatched = useWatchedStore(state => state.syncWithSupabase);
+  const syncLibrary = useLibraryStore(state => state.syncWithSupabase);
   
   // Check if this is a password reset flow
   useEffect(() => {
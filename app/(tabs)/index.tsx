@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -8,24 +8,42 @@ import {
   TouchableOpacity, 
   Modal,
   Pressable,
-  ActivityIndicator
+  ActivityIndicator,
+  ScrollView
 } from 'react-native';
-import { useWatchlistStore } from '../../lib/watchlistStore';
-import { useWatchedStore } from '../../lib/watchedStore';
-import { WatchlistItem } from '../../lib/watchlistStore';
+import { useLibraryStore, LibraryItem, LIBRARY_STATUS_LABELS, filterByStatus } from '../../lib/libraryStore';
+import { Media, toMedia, getReleaseYear, isSameMedia } from '../../lib/media';
 import { useRouter, useFocusEffect } from 'expo-router';
-import { Plus, MoreVertical, Star, Film, Tv } from 'lucide-react-native';
+import { Plus, MoreVertical, Star, Film, Tv, ListVideo, Share2, Users, CalendarDays } from 'lucide-react-native';
 import Toast from 'react-native-toast-message';
-import { getMovieDetails, getTVDetails } from '../../lib/tmdb';
+import { getMovieDetails, getTVDetails, TMDbSeasonSummary } from '../../lib/tmdb';
+import { formatEpisode, getNextEpisode } from '../../lib/episodeProgress';
+import { LibraryStatus } from '../../lib/supabase';
+import { useProfileStore } from '../../lib/profileStore';
+import { useListStore, isSharedList } from '../../lib/listStore';
+import { WATCHLIST_SLUG } from '../../lib/sharing';
+import DraggableRow from '../components/DraggableRow';
+import SyncStatusBanner from '../components/SyncStatusBanner';
+import RateReviewModal, { ReviewFields } from '../components/RateReviewModal';
+import AddToListModal from '../components/AddToListModal';
+import ShareModal from '../components/ShareModal';
+import SharedListView from '../components/SharedListView';
+import ListInvitationsBanner from '../components/ListInvitationsBanner';
+import StreamingFilterToggle from '../components/StreamingFilterToggle';
+import useStreamingFilter from '../../hooks/useStreamingFilter';
 
-// Create extended interfaces for enriched items
-interface EnrichedItem extends WatchlistItem {
+// Row height (130) plus its bottom margin (16), used to map drag distance to list positions
+const ROW_HEIGHT = 146;
+
+// Items enriched with details fetched from TMDb
+type EnrichedItem = LibraryItem & {
   detailsFetched?: boolean;
   genreNames?: string[];
-  runtime?: number;
-  number_of_seasons?: number;
-  number_of_episodes?: number;
-}
+  seasons?: TMDbSeasonSummary[];
+};
+
+// Statuses listed on this tab; watched titles live on the Watched tab
+const WATCHLIST_STATUSES: LibraryStatus[] = ['planned', 'watching', 'on_hold', 'dropped'];
 
 // Handler for toast notifications
 const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
@@ -39,15 +57,30 @@ const showToast = (message: string, type: 'success' | 'error' | 'info' = 'succes
 };
 
 export default function WatchlistScreen() {
-  const { items, removeItem, isLoading: storeLoading, isInitialized, syncWithSupabase, addItem } = useWatchlistStore();
-  const { addItem: addToWatched } = useWatchedStore();
+  const { items: libraryItems, removeItem, moveItem, markWatched, setStatus, isLoading: storeLoading, isInitialized, syncWithSupabase } = useLibraryStore();
   const router = useRouter();
+  const [activeStatus, setActiveStatus] = useState<LibraryStatus>('planned');
+  // A shared list shown instead of the personal watchlist
+  const [activeListId, setActiveListId] = useState<string | null>(null);
   const [activeFilter, setActiveFilter] = useState('All');
   const [menuVisible, setMenuVisible] = useState(false);
-  const [selectedItem, setSelectedItem] = useState<WatchlistItem | null>(null);
+  const [selectedItem, setSelectedItem] = useState<LibraryItem | null>(null);
+  const [reviewItem, setReviewItem] = useState<LibraryItem | null>(null);
+  const [listItem, setListItem] = useState<LibraryItem | null>(null);
+  const [shareVisible, setShareVisible] = useState(false);
+  const watchlistPublic = useProfileStore(state => !!state.profile?.watchlist_public);
+  const saveProfile = useProfileStore(state => state.saveProfile);
+  const lists = useListStore(state => state.lists);
+  const listUserId = useListStore(state => state.lastSyncUserId);
+  const syncLists = useListStore(state => state.syncLists);
   const [enrichedItems, setEnrichedItems] = useState<EnrichedItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [lastSyncTime, setLastSyncTime] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const items = useMemo(() => filterByStatus(libraryItems, activeStatus), [libraryItems, activeStatus]);
+  const sharedLists = useMemo(() => lists.filter(isSharedList), [lists]);
+  const activeList = sharedLists.find(list => list.id === activeListId);
 
   // Initial data loading
   useEffect(() => {
@@ -62,7 +95,7 @@ export default function WatchlistScreen() {
   useFocusEffect(
     useCallback(() => {
       const syncData = async () => {
-        await syncWithSupabase();
+        await Promise.all([syncWithSupabase(), syncLists()]);
         setLastSyncTime(Date.now());
       };
       
@@ -72,60 +105,60 @@ export default function WatchlistScreen() {
       return () => {
         // Cleanup if needed when unfocusing
       };
-    }, [syncWithSupabase])
+    }, [syncWithSupabase, syncLists])
   );
 
   useEffect(() => {
     if (!isInitialized) return;
     
-    // Make a copy of items to enrich with additional details
-    const itemsToEnrich = [...items].map(item => ({ ...item, detailsFetched: false }));
-    setEnrichedItems(itemsToEnrich);
+    // Make a copy of items to enrich with additional details, keeping details already
+    // fetched for items that are still in the list (e.g. after a reorder)
+    setEnrichedItems(current => items.map(item => {
+      const existing = current.find(enriched => isSameMedia(enriched, item));
+      return existing?.detailsFetched
+        ? { ...existing, position: item.position, status: item.status, progress: item.progress }
+        : { ...item, detailsFetched: false };
+    }));
     setIsLoading(false);
   }, [items, isInitialized]);
 
-  // Get filtered items based on active filter
-  const getFilteredItems = () => {
-    if (activeFilter === 'All') return enrichedItems;
+  // Items of the media type picked in the filter tabs
+  const typeFilteredItems = useMemo(() => {
     if (activeFilter === 'Movies') return enrichedItems.filter(item => item.media_type === 'movie');
     if (activeFilter === 'TV Shows') return enrichedItems.filter(item => item.media_type === 'tv');
     return enrichedItems;
-  };
+  }, [enrichedItems, activeFilter]);
+  const streamingFilter = useStreamingFilter(typeFilteredItems);
+
+  // Get filtered items based on active filter (and the streaming filter on top)
+  const getFilteredItems = () => streamingFilter.items;
 
   // Fetch additional details for an item when needed
-  const fetchItemDetails = async (item: WatchlistItem, index: number) => {
-    if (enrichedItems[index]?.detailsFetched) return;
+  const fetchItemDetails = async (item: EnrichedItem) => {
+    if (item.detailsFetched) return;
 
     try {
-      let details;
-      if (item.media_type === 'movie') {
-        details = await getMovieDetails(item.id);
-      } else {
-        details = await getTVDetails(item.id);
-      }
+      const result = item.media_type === 'movie'
+        ? await getMovieDetails(item.id)
+        : await getTVDetails(item.id);
+      const details = toMedia(result);
+      if (!details) return;
 
       // Create genre names array from the genres object
       const genreNames = details.genres?.map(genre => genre.name) || [];
 
-      setEnrichedItems(current => {
-        const updated = [...current];
-        if (updated[index]) {
-          updated[index] = {
-            ...current[index],
-            ...details,
-            detailsFetched: true,
-            genreNames
-          };
-        }
-        return updated;
-      });
+      setEnrichedItems(current => current.map(enriched =>
+        isSameMedia(enriched, item)
+          ? { ...enriched, ...details, detailsFetched: true, genreNames, seasons: result.seasons }
+          : enriched
+      ));
     } catch (error) {
       console.error('Error fetching details for item:', error);
     }
   };
 
-  const handleRemove = async (item: WatchlistItem) => {
-    const success = await removeItem(item.id);
+  const handleRemove = async (item: Media) => {
+    const success = await removeItem(item);
     if (success) {
       showToast(`"${item.title}" removed from watchlist`);
     } else {
@@ -134,20 +167,53 @@ export default function WatchlistScreen() {
     setMenuVisible(false);
   };
 
-  const handleMarkWatched = async (item: WatchlistItem) => {
-    const success = await addToWatched(item);
+  // One status change: the title can't end up in both lists (or neither) if something fails halfway
+  const handleMarkWatched = async (item: Media, fields: ReviewFields) => {
+    setReviewItem(null);
+    const success = await markWatched(item, fields);
     
     if (success) {
-      await removeItem(item.id);
       showToast(`"${item.title}" marked as watched`);
     } else {
       showToast(`Failed to mark "${item.title}" as watched`, 'error');
     }
+  };
+
+  // Ask for a rating and review before marking as watched
+  const openReview = (item: LibraryItem) => {
+    setMenuVisible(false);
+    setReviewItem(item);
+  };
+
+  const handleSetStatus = async (item: Media, status: LibraryStatus) => {
+    const success = await setStatus(item, status);
+    
+    if (success) {
+      showToast(`"${item.title}" moved to ${LIBRARY_STATUS_LABELS[status]}`);
+    } else {
+      showToast(`Failed to move "${item.title}"`, 'error');
+    }
     
     setMenuVisible(false);
   };
 
-  const openMenu = (item: WatchlistItem) => {
+  // Drop a dragged item between its new neighbours in the list currently shown
+  const handleMove = async (fromIndex: number, toIndex: number) => {
+    const visibleItems = getFilteredItems();
+    const moving = visibleItems[fromIndex];
+    const remaining = visibleItems.filter((_, index) => index !== fromIndex);
+    
+    const success = await moveItem(moving, {
+      previous: remaining[toIndex - 1],
+      next: remaining[toIndex]
+    });
+    
+    if (!success) {
+      showToast(`Failed to save the new order`, 'error');
+    }
+  };
+
+  const openMenu = (item: LibraryItem) => {
     setSelectedItem(item);
     setMenuVisible(true);
   };
@@ -170,6 +236,13 @@ export default function WatchlistScreen() {
     return '';
   };
 
+  // Where the user is in a show they're watching
+  const formatNextEpisode = (item: EnrichedItem) => {
+    if (item.media_type !== 'tv' || item.status !== 'watching' || !item.seasons) return '';
+    const nextEpisode = getNextEpisode(item.progress, item.seasons);
+    return nextEpisode ? `Next: ${formatEpisode(nextEpisode)}` : 'All caught up';
+  };
+
   // Format genres as a comma-separated string
   const formatGenres = (item: EnrichedItem) => {
     if (!item.detailsFetched) return '';
@@ -179,61 +252,73 @@ export default function WatchlistScreen() {
   const renderItem = ({ item, index }: { item: EnrichedItem, index: number }) => {
     // Fetch details when rendering if not already fetched
     if (!item.detailsFetched) {
-      fetchItemDetails(item, index);
+      fetchItemDetails(item);
     }
 
     return (
-      <TouchableOpacity
-        style={styles.itemContainer}
-        onPress={() => {
-          router.push({
-            pathname: '/details/[type]/[id]',
-            params: { 
-              type: item.media_type,
-              id: item.id.toString() 
-            }
-          });
-        }}
+      <DraggableRow
+        index={index}
+        itemCount={getFilteredItems().length}
+        rowHeight={ROW_HEIGHT}
+        onDragStateChange={setIsDragging}
+        onMove={handleMove}
       >
-        <View style={styles.mediaBadge}>
-          {item.media_type === 'movie' ? (
-            <Film size={14} color="#fff" />
-          ) : (
-            <Tv size={14} color="#fff" />
-          )}
-        </View>
-        <Image
-          source={{
-            uri: item.poster_path
-              ? `https://image.tmdb.org/t/p/w342${item.poster_path}`
-              : 'https://via.placeholder.com/342x513?text=No+Poster',
+        <TouchableOpacity
+          style={styles.itemContainer}
+          onPress={() => {
+            router.push({
+              pathname: '/details/[type]/[id]',
+              params: { 
+                type: item.media_type,
+                id: item.id.toString() 
+              }
+            });
           }}
-          style={styles.poster}
-          resizeMode="cover"
-        />
-        <View style={styles.itemContent}>
-          <View style={styles.itemHeader}>
-            <Text style={styles.itemTitle} numberOfLines={1}>
-              {item.title}
-            </Text>
-            <TouchableOpacity
-              style={styles.menuButton}
-              onPress={() => openMenu(item)}
-            >
-              <MoreVertical size={20} color="#ccc" />
-            </TouchableOpacity>
+        >
+          <View style={styles.mediaBadge}>
+            {item.media_type === 'movie' ? (
+              <Film size={14} color="#fff" />
+            ) : (
+              <Tv size={14} color="#fff" />
+            )}
           </View>
+          <Image
+            source={{
+              uri: item.poster_path
+                ? `https://image.tmdb.org/t/p/w342${item.poster_path}`
+                : 'https://via.placeholder.com/342x513?text=No+Poster',
+            }}
+            style={styles.poster}
+            resizeMode="cover"
+          />
+          <View style={styles.itemContent}>
+            <View style={styles.itemHeader}>
+              <Text style={styles.itemTitle} numberOfLines={1}>
+                {item.title}
+              </Text>
+              <TouchableOpacity
+                style={styles.menuButton}
+                onPress={() => openMenu(item)}
+              >
+                <MoreVertical size={20} color="#ccc" />
+              </TouchableOpacity>
+            </View>
           
-          <Text style={styles.itemMeta}>
-            {new Date(item.release_date).getFullYear()} • {formatGenres(item)} • {formatDuration(item)}
-          </Text>
+            <Text style={styles.itemMeta}>
+              {getReleaseYear(item)} • {formatGenres(item)} • {formatDuration(item)}
+            </Text>
+            
+            {formatNextEpisode(item) !== '' && (
+              <Text style={styles.nextEpisode}>{formatNextEpisode(item)}</Text>
+            )}
           
-          <View style={styles.ratingContainer}>
-            <Star size={16} color="#FFD700" fill="#FFD700" />
-            <Text style={styles.rating}> {item.vote_average.toFixed(1)}</Text>
+            <View style={styles.ratingContainer}>
+              <Star size={16} color="#FFD700" fill="#FFD700" />
+              <Text style={styles.rating}> {item.vote_average.toFixed(1)}</Text>
+            </View>
           </View>
-        </View>
-      </TouchableOpacity>
+        </TouchableOpacity>
+      </DraggableRow>
     );
   };
 
@@ -251,71 +336,154 @@ export default function WatchlistScreen() {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>VibeWatch</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={navigateToSearch}
-        >
-          <Plus size={24} color="#ff6b6b" />
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity 
+            style={[styles.addButton, styles.listsButton]}
+            onPress={() => setShareVisible(true)}
+          >
+            <Share2 size={20} color="#ff6b6b" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={[styles.addButton, styles.listsButton]}
+            onPress={() => router.push('/calendar')}
+          >
+            <CalendarDays size={20} color="#ff6b6b" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={[styles.addButton, styles.listsButton]}
+            onPress={() => router.push('/lists')}
+          >
+            <ListVideo size={22} color="#ff6b6b" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={navigateToSearch}
+          >
+            <Plus size={24} color="#ff6b6b" />
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {/* Filter tabs */}
-      <View style={styles.filterContainer}>
-        <TouchableOpacity 
-          style={[styles.filterButton, activeFilter === 'All' && styles.activeFilter]}
-          onPress={() => setActiveFilter('All')}
-        >
-          <Text style={[styles.filterText, activeFilter === 'All' && styles.activeFilterText]}>All</Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity 
-          style={[styles.filterButton, activeFilter === 'Movies' && styles.activeFilter]}
-          onPress={() => setActiveFilter('Movies')}
-        >
-          <Text style={[styles.filterText, activeFilter === 'Movies' && styles.activeFilterText]}>Movies</Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity 
-          style={[styles.filterButton, activeFilter === 'TV Shows' && styles.activeFilter]}
-          onPress={() => setActiveFilter('TV Shows')}
-        >
-          <Text style={[styles.filterText, activeFilter === 'TV Shows' && styles.activeFilterText]}>TV Shows</Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity 
-          style={[styles.filterButton, activeFilter === 'Genres' && styles.activeFilter]}
-          onPress={() => setActiveFilter('Genres')}
-        >
-          <Text style={[styles.filterText, activeFilter === 'Genres' && styles.activeFilterText]}>Genres</Text>
-        </TouchableOpacity>
-      </View>
+      <SyncStatusBanner />
 
-      {/* Empty state or filtered list */}
-      {items.length === 0 ? (
-        <View style={styles.emptyState}>
-          <Text style={styles.emptyStateText}>
-            Your watchlist is empty. Add some movies or TV shows!
-          </Text>
+      <ListInvitationsBanner />
+
+      {/* Status tabs, then the lists shared with other members */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.statusScroll}
+        contentContainerStyle={styles.statusContainer}
+      >
+        {WATCHLIST_STATUSES.map(status => (
           <TouchableOpacity
-            style={styles.emptyStateButton}
-            onPress={navigateToSearch}
+            key={status}
+            style={[styles.statusButton, !activeList && activeStatus === status && styles.activeStatus]}
+            onPress={() => {
+              setActiveStatus(status);
+              setActiveListId(null);
+            }}
           >
-            <Text style={styles.emptyStateButtonText}>Browse Content</Text>
+            <Text style={[styles.statusText, !activeList && activeStatus === status && styles.activeStatusText]}>
+              {LIBRARY_STATUS_LABELS[status]}
+            </Text>
           </TouchableOpacity>
-        </View>
-      ) : getFilteredItems().length === 0 ? (
-        <View style={styles.emptyState}>
-          <Text style={styles.emptyStateText}>
-            No {activeFilter !== 'All' ? activeFilter : 'items'} in your watchlist.
-          </Text>
-        </View>
+        ))}
+        {sharedLists.map(list => (
+          <TouchableOpacity
+            key={list.id}
+            style={[styles.statusButton, styles.sharedListButton, activeList?.id === list.id && styles.activeStatus]}
+            onPress={() => setActiveListId(list.id)}
+          >
+            <Users size={14} color={activeList?.id === list.id ? '#fff' : '#8c52ff'} />
+            <Text style={[styles.statusText, styles.sharedListText, activeList?.id === list.id && styles.activeStatusText]}>
+              {list.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {activeList ? (
+        <SharedListView list={activeList} userId={listUserId} />
       ) : (
-        <FlatList
-          data={getFilteredItems()}
-          renderItem={renderItem}
-          keyExtractor={(item) => `${item.media_type}-${item.id}`}
-          contentContainerStyle={styles.list}
-        />
+        <>
+          {/* Filter tabs */}
+          <View style={styles.filterContainer}>
+            <TouchableOpacity 
+              style={[styles.filterButton, activeFilter === 'All' && styles.activeFilter]}
+              onPress={() => setActiveFilter('All')}
+            >
+              <Text style={[styles.filterText, activeFilter === 'All' && styles.activeFilterText]}>All</Text>
+            </TouchableOpacity>
+        
+            <TouchableOpacity 
+              style={[styles.filterButton, activeFilter === 'Movies' && styles.activeFilter]}
+              onPress={() => setActiveFilter('Movies')}
+            >
+              <Text style={[styles.filterText, activeFilter === 'Movies' && styles.activeFilterText]}>Movies</Text>
+            </TouchableOpacity>
+        
+            <TouchableOpacity 
+              style={[styles.filterButton, activeFilter === 'TV Shows' && styles.activeFilter]}
+              onPress={() => setActiveFilter('TV Shows')}
+            >
+              <Text style={[styles.filterText, activeFilter === 'TV Shows' && styles.activeFilterText]}>TV Shows</Text>
+            </TouchableOpacity>
+        
+            <TouchableOpacity 
+              style={[styles.filterButton, activeFilter === 'Genres' && styles.activeFilter]}
+              onPress={() => setActiveFilter('Genres')}
+            >
+              <Text style={[styles.filterText, activeFilter === 'Genres' && styles.activeFilterText]}>Genres</Text>
+            </TouchableOpacity>
+          </View>
+          <StreamingFilterToggle
+            enabled={streamingFilter.enabled}
+            hasServices={streamingFilter.hasServices}
+            isLoading={streamingFilter.isLoading}
+            onChange={streamingFilter.setEnabled}
+            style={styles.streamingFilter}
+          />
+
+          {/* Empty state or filtered list */}
+          {items.length === 0 && activeStatus !== 'planned' ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>
+                Nothing in {LIBRARY_STATUS_LABELS[activeStatus]} yet.
+              </Text>
+            </View>
+          ) : items.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>
+                Your watchlist is empty. Add some movies or TV shows!
+              </Text>
+              <TouchableOpacity
+                style={styles.emptyStateButton}
+                onPress={navigateToSearch}
+              >
+                <Text style={styles.emptyStateButtonText}>Browse Content</Text>
+              </TouchableOpacity>
+            </View>
+          ) : getFilteredItems().length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>
+                {streamingFilter.enabled && streamingFilter.hasServices
+                  ? streamingFilter.isLoading
+                    ? 'Checking your streaming services...'
+                    : `No ${activeFilter !== 'All' ? activeFilter : 'items'} in your watchlist are on your services.`
+                  : `No ${activeFilter !== 'All' ? activeFilter : 'items'} in your watchlist.`}
+              </Text>
+            </View>
+          ) : (
+            <FlatList
+              data={getFilteredItems()}
+              renderItem={renderItem}
+              keyExtractor={(item) => `${item.media_type}-${item.id}`}
+              contentContainerStyle={styles.list}
+              scrollEnabled={!isDragging}
+            />
+          )}
+        </>
       )}
 
       {/* Menu Modal */}
@@ -332,11 +500,37 @@ export default function WatchlistScreen() {
           <View style={styles.menuContainer}>
             <TouchableOpacity 
               style={styles.menuItem}
-              onPress={() => selectedItem && handleMarkWatched(selectedItem)}
+              onPress={() => selectedItem && openReview(selectedItem)}
             >
               <Text style={styles.menuText}>Mark as Watched</Text>
             </TouchableOpacity>
             
+            {WATCHLIST_STATUSES
+              .filter(status => status !== selectedItem?.status)
+              .map(status => (
+                <React.Fragment key={status}>
+                  <View style={styles.menuDivider} />
+                  <TouchableOpacity 
+                    style={styles.menuItem}
+                    onPress={() => selectedItem && handleSetStatus(selectedItem, status)}
+                  >
+                    <Text style={styles.menuText}>Move to {LIBRARY_STATUS_LABELS[status]}</Text>
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))}
+            
+            <View style={styles.menuDivider} />
+            
+            <TouchableOpacity 
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuVisible(false);
+                setListItem(selectedItem);
+              }}
+            >
+              <Text style={styles.menuText}>Add to List</Text>
+            </TouchableOpacity>
+            
             <View style={styles.menuDivider} />
             
             <TouchableOpacity 
@@ -348,6 +542,25 @@ export default function WatchlistScreen() {
           </View>
         </Pressable>
       </Modal>
+
+      <RateReviewModal
+        visible={reviewItem !== null}
+        title={reviewItem?.title || ''}
+        initial={reviewItem || undefined}
+        onSubmit={(fields) => reviewItem && handleMarkWatched(reviewItem, fields)}
+        onCancel={() => setReviewItem(null)}
+      />
+
+      <AddToListModal item={listItem} onClose={() => setListItem(null)} />
+
+      <ShareModal
+        visible={shareVisible}
+        title="Watchlist"
+        isPublic={watchlistPublic}
+        slug={WATCHLIST_SLUG}
+        onTogglePublic={async (isPublic) => !(await saveProfile({ watchlist_public: isPublic }))}
+        onClose={() => setShareVisible(false)}
+      />
     </View>
   );
 }
@@ -369,6 +582,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#ff6b6b',
   },
+  headerButtons: {
+    flexDirection: 'row',
+  },
+  listsButton: {
+    marginRight: 12,
+  },
   addButton: {
     width: 40,
     height: 40,
@@ -378,8 +597,43 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  statusScroll: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  statusContainer: {
+    flexDirection: 'row',
+  },
+  statusButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeStatus: {
+    borderBottomColor: '#ff6b6b',
+  },
+  statusText: {
+    color: '#999',
+    fontSize: 15,
+  },
+  activeStatusText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  sharedListButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sharedListText: {
+    marginLeft: 6,
+  },
   filterContainer: {
     flexDirection: 'row',
+    marginBottom: 12,
+  },
+  streamingFilter: {
     marginBottom: 20,
   },
   filterButton: {
@@ -447,6 +701,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginBottom: 8,
   },
+  nextEpisode: {
+    color: '#4CAF50',
+    fontSize: 12,
+    marginBottom: 8,
+  },
   ratingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -10,14 +10,12 @@ import {
   Pressable,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { supabase, getCurrentSession, verifyAuthState, fetchUserItems, logout } from '@/lib/supabase';
+import { supabase, getCurrentSession, verifyAuthState, logout } from '@/lib/supabase';
 import { Settings, LogOut, Star, Smartphone, Monitor } from 'lucide-react-native';
 import { Text, Button, Card, Avatar, ActivityIndicator, Divider, Surface } from 'react-native-paper';
-
-interface WatchedItem {
-  rating?: number;
-  duration?: number;
-}
+import { useLibraryStore } from '@/lib/libraryStore';
+import { useRuntimeStore } from '@/lib/runtimeStore';
+import { computeWatchStats, needsRuntime, toWatchHours } from '@/lib/stats';
 
 interface Profile {
   id: string;
@@ -33,11 +31,11 @@ export default function ProfileScreen() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [stats, setStats] = useState({
-    totalWatched: 0,
-    avgRating: 0,
-    watchTime: 0,
-  });
+  const libraryItems = useLibraryStore(state => state.items);
+  const runtimes = useRuntimeStore(state => state.runtimes);
+  const loadRuntimes = useRuntimeStore(state => state.loadRuntimes);
+  // Stats come from the synced library; only runtimes that aren't cached yet are fetched
+  const stats = useMemo(() => computeWatchStats(libraryItems, runtimes), [libraryItems, runtimes]);
   const [logoutModalVisible, setLogoutModalVisible] = useState(false);
 
   useEffect(() => {
@@ -53,11 +51,7 @@ export default function ProfileScreen() {
           return;
         }
         
-        // Load profile and stats in parallel
-        await Promise.all([
-          fetchProfile(),
-          fetchStats()
-        ]);
+        await fetchProfile();
         
         setLoading(false);
       } catch (err) {
@@ -70,6 +64,10 @@ export default function ProfileScreen() {
     loadProfile();
   }, []);
 
+  useEffect(() => {
+    loadRuntimes(libraryItems.filter(needsRuntime));
+  }, [libraryItems, loadRuntimes]);
+
   async function fetchProfile() {
     const session = await getCurrentSession();
     
@@ -86,36 +84,6 @@ export default function ProfileScreen() {
     });
   }
 
-  async function fetchStats() {
-    const session = await getCurrentSession();
-    
-    if (!session?.user) {
-      return;
-    }
-    
-    try {
-      // Use fetchUserItems from supabase.ts
-      const watchedItems = await fetchUserItems(session.user.id, 'watched');
-      
-      if (watchedItems && watchedItems.length > 0) {
-        const totalWatched = watchedItems.length;
-        const avgRating = watchedItems.reduce((acc: number, curr: WatchedItem) => 
-          acc + (curr.rating || 0), 0) / (totalWatched || 1);
-        const watchTime = watchedItems.reduce((acc: number, curr: WatchedItem) => 
-          acc + (curr.duration || 0), 0);
-
-        setStats({
-          totalWatched,
-          avgRating: Math.round(avgRating * 10) / 10 || 0,
-          watchTime: Math.round(watchTime / 60) || 0, // Convert to hours
-        });
-      }
-    } catch (err) {
-      console.error('Error fetching stats:', err);
-      // Non-critical, continue without stats
-    }
-  }
-
   async function handleSignOut() {
     try {
       setLoading(true);
@@ -137,13 +105,10 @@ export default function ProfileScreen() {
     loadProfile();
   };
 
-  // Function to load profile and stats
+  // Function to load the profile (stats are derived from the library)
   async function loadProfile() {
     try {
-      await Promise.all([
-        fetchProfile(),
-        fetchStats()
-      ]);
+      await fetchProfile();
       
       setLoading(false);
       setError(null);
@@ -200,10 +165,15 @@ export default function ProfileScreen() {
           </View>
           <Divider style={styles.statDivider} />
           <View style={styles.statBox}>
-            <Text variant="headlineMedium" style={styles.statValue}>{stats.watchTime}h</Text>
+            <Text variant="headlineMedium" style={styles.statValue}>{toWatchHours(stats.watchMinutes)}h</Text>
             <Text variant="bodyMedium" style={styles.statLabel}>Watch Time</Text>
           </View>
         </Card.Content>
+        <Card.Actions>
+          <Button mode="text" textColor="#e21f70" onPress={() => router.push('/stats')}>
+            See all stats
+          </Button>
+        </Card.Actions>
       </Card>
 
       <Card style={styles.sectionCard}>
@@ -213,13 +183,34 @@ export default function ProfileScreen() {
             <Text variant="bodyLarge" style={styles.menuText}>Edit Profile</Text>
           </TouchableOpacity>
           <Divider />
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => router.push('/notifications')}>
             <Text variant="bodyLarge" style={styles.menuText}>Notifications</Text>
           </TouchableOpacity>
           <Divider />
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => router.push('/privacy')}>
             <Text variant="bodyLarge" style={styles.menuText}>Privacy</Text>
           </TouchableOpacity>
+          <Divider />
+          <TouchableOpacity style={styles.menuItem} onPress={() => router.push('/streaming')}>
+            <Text variant="bodyLarge" style={styles.menuText}>Streaming Services</Text>
+          </TouchableOpacity>
+        </Card.Content>
+      </Card>
+
+      <Card style={styles.sectionCard}>
+        <Card.Title title="Friends" />
+        <Card.Content>
+          <TouchableOpacity style={styles.menuItem} onPress={() => router.push('/feed')}>
+            <Text variant="bodyLarge" style={styles.menuText}>Activity Feed</Text>
+          </TouchableOpacity>
+          <Divider />
+          <TouchableOpacity style={styles.menuItem} onPress={() => router.push('/friends')}>
+            <Text variant="bodyLarge" style={styles.menuText}>Find Friends</Text>
+          </TouchableOpacity>
+          <Divider />
+          <TouchableOpacity style={styles.menuItem} onPress={() => router.push('/watch-together')}>
+            <Text variant="bodyLarge" style={styles.menuText}>Watch Together</Text>
+          </TouchableOpacity>
         </Card.Content>
       </Card>
 
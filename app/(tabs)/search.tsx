@@ -16,13 +16,14 @@ import {
   Pressable,
   Modal,
 } from 'react-native';
-import { useWatchlistStore, WatchlistItem } from '../../lib/watchlistStore';
-import { searchContent, formatSearchResult, TMDbSearchResult, getTrending, getMovieDetails, discoverContent, getTopRated } from '../../lib/tmdb';
+import { useLibraryStore, filterByStatus } from '../../lib/libraryStore';
+import { toMedia, Media, MediaRef, getMediaKey } from '../../lib/media';
+import { searchContent, TMDbSearchResult, getTrending, getMovieDetails, discoverContent, getTopRated } from '../../lib/tmdb';
 import { Plus, Check, Film, Tv, Repeat, Search, Star } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { debounce } from 'lodash';
 import Toast from 'react-native-toast-message';
-import { useWatchedStore, WatchedItem } from '@/lib/watchedStore';
+import AddToListModal from '../components/AddToListModal';
 import { supabase, getCurrentSession } from '@/lib/supabase';
 import { Session } from '@supabase/supabase-js';
 
@@ -62,6 +63,8 @@ export default function SearchScreen() {
   const [query, setQuery] = useState('');
   const [isSearchActive, setIsSearchActive] = useState(false);
   const [searchResults, setSearchResults] = useState<TMDbSearchResult[]>([]);
+  // Actors, directors and other people matching the search, shown above the titles
+  const [personResults, setPersonResults] = useState<TMDbSearchResult[]>([]);
   const [trendingItems, setTrendingItems] = useState<TMDbSearchResult[]>([]);
   const [newReleases, setNewReleases] = useState<TMDbSearchResult[]>([]);
   const [recommendedItems, setRecommendedItems] = useState<TMDbSearchResult[]>([]);
@@ -70,6 +73,8 @@ export default function SearchScreen() {
   const [loading, setLoading] = useState(false);
   const [searchLoading, setSearchLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Title being added to a custom list
+  const [listItem, setListItem] = useState<Media | null>(null);
   
   // Track the current user ID to prevent issues when switching accounts
   const currentUserIdRef = useRef<string | null>(null);
@@ -87,8 +92,10 @@ export default function SearchScreen() {
   const spotlightButtonColor = useRef(new Animated.Value(0)).current;
   const spotlightButtonRotation = useRef(new Animated.Value(0)).current;
   
-  const { addItem: addToWatchlist, hasItem: isInWatchlist } = useWatchlistStore();
-  const { hasItem: isInWatched, removeItem: removeFromWatched } = useWatchedStore();
+  const { addItem: addToWatchlist, hasItem, rewatch } = useLibraryStore();
+  const isInWatched = (media: MediaRef) => hasItem(media, 'watched');
+  // Anything in the library that hasn't been watched yet (planned, watching, on hold...)
+  const isInWatchlist = (media: MediaRef) => hasItem(media) && !isInWatched(media);
   const router = useRouter();
 
   // Add a dedicated ref for storing the highest rated content
@@ -210,7 +217,7 @@ export default function SearchScreen() {
         // For movies, must be movie type AND not animation genre (16) AND preferably English
         const isMovie = mediaType === 'movie';
         const isAnimation = item.genre_ids?.includes(16);
-        const isEnglish = (item as any).original_language === 'en';
+        const isEnglish = item.original_language === 'en';
         
         // Only return non-animated English movies 
         return isMovie && !isAnimation && isEnglish;
@@ -218,7 +225,7 @@ export default function SearchScreen() {
         // For TV, must be TV type AND not animation genre (16) AND preferably English
         const isTVShow = mediaType === 'tv';
         const isAnimation = item.genre_ids?.includes(16);
-        const isEnglish = (item as any).original_language === 'en';
+        const isEnglish = item.original_language === 'en';
         
         // Only return non-animated English TV shows
         return isTVShow && !isAnimation && isEnglish;
@@ -226,8 +233,8 @@ export default function SearchScreen() {
         // For anime, be less restrictive to include more content
         // Look for animation in any language, but prioritize Japanese
         const isAnimation = item.genre_ids?.includes(16);
-        const isJapanese = (item as any).original_language === 'ja';
-        const isAsian = ['ja', 'ko', 'zh'].includes((item as any).original_language);
+        const isJapanese = item.original_language === 'ja';
+        const isAsian = ['ja', 'ko', 'zh'].includes(item.original_language || '');
         
         // Include any animation OR any Japanese/Korean/Chinese content
         return isAnimation || isJapanese || isAsian;
@@ -300,14 +307,14 @@ export default function SearchScreen() {
         if (selectedCategory === 'movies') {
           // English movies only, no animation
           filteredHighestRated = filteredHighestRated.filter(item => {
-            const isEnglish = (item as any).original_language === 'en';
+            const isEnglish = item.original_language === 'en';
             const isAnimation = item.genre_ids?.includes(16);
             return item.media_type === 'movie' && isEnglish && !isAnimation;
           });
         } else if (selectedCategory === 'tv') {
           // English TV shows only, no animation
           filteredHighestRated = filteredHighestRated.filter(item => {
-            const isEnglish = (item as any).original_language === 'en';
+            const isEnglish = item.original_language === 'en';
             const isAnimation = item.genre_ids?.includes(16);
             return item.media_type === 'tv' && isEnglish && !isAnimation;
           });
@@ -315,7 +322,7 @@ export default function SearchScreen() {
           // Anime filtering
           filteredHighestRated = filteredHighestRated.filter(item => {
             const isAnimation = item.genre_ids?.includes(16);
-            const isJapanese = (item as any).original_language === 'ja';
+            const isJapanese = item.original_language === 'ja';
             return isAnimation || (isJapanese && item.genre_ids?.includes(16));
           });
         } else if (selectedCategory === 'documentaries') {
@@ -366,18 +373,21 @@ export default function SearchScreen() {
       thresholdDate.setMonth(today.getMonth() - 18);
       const dateThreshold = `${thresholdDate.getFullYear()}-${String(thresholdDate.getMonth() + 1).padStart(2, '0')}-01`;
       
-      // Get trending items - Using only weekly trending as specified
+      // Start the independent requests together - the TMDb scheduler caps how many run at once
+      // and the repeated weekly trending calls further down are served from the same request
       // Using the specific endpoint: https://api.themoviedb.org/3/trending/all/week?language=en-US
-      const trendingResponse = await getTrending('week', 'all', 1, 'en-US');
+      const [trendingResponse, topRatedMovies, topRatedTVShows] = await Promise.all([
+        getTrending('week', 'all', 1, 'en-US'),
+        getTopRated('movie', 1),
+        getTopRated('tv', 1)
+      ]);
       
-      // Create a set of user item IDs for filtering
-      const watchlistItems = useWatchlistStore.getState().items || [];
-      const watchedItems = useWatchedStore.getState().items || [];
+      // Create a set of user item keys (media type + id) for filtering
+      const libraryItems = useLibraryStore.getState().items || [];
+      const watchedItems = filterByStatus(libraryItems, 'watched');
+      const watchlistItems = libraryItems.filter(item => item.status !== 'watched');
       
-      const userItemIds = new Set<number>([
-        ...watchlistItems.map((item: WatchlistItem) => item.id),
-        ...watchedItems.map((item: WatchedItem) => item.id)
-      ]);
+      const userItemKeys = new Set<string>(libraryItems.map((item: Media) => getMediaKey(item)));
       
       // Store trending items for filtering operations
       originalTrendingItems.current = [...trendingResponse.results];
@@ -465,16 +475,14 @@ export default function SearchScreen() {
       // QUALITY SECTION - IMPLEMENTATION OF HIGHEST RATED CONTENT
       // *****************************************************
       
-      // Fetch highest rated movies directly from the top_rated endpoint
-      const topRatedMovies = await getTopRated('movie', 1);
+      // Highest rated movies come directly from the top_rated endpoint
       // Make sure each item has media_type set
       topRatedMovies.results.forEach(item => {
         item.media_type = 'movie';
       });
       console.log('Top Rated Movies from endpoint:', topRatedMovies.results[0]); // Debug
       
-      // Fetch top rated TV shows directly from the top_rated endpoint
-      const topRatedTVShows = await getTopRated('tv', 1);
+      // Top rated TV shows also come directly from the top_rated endpoint
       // Make sure each item has media_type set
       topRatedTVShows.results.forEach(item => {
         item.media_type = 'tv';
@@ -493,24 +501,22 @@ export default function SearchScreen() {
         
         // Filter out items that are already in the user's watchlist or watched list
         let allRecommendedItems = recommendedResponse.results
-          .filter(item => item.id !== movieSpotlight?.id && !userItemIds.has(item.id));
+          .filter(item => item.id !== movieSpotlight?.id && !userItemKeys.has(`${item.media_type}_${item.id}`));
         
         // Extract genres, directors, franchises from user's watched/watchlist items
         // This helps us prioritize content similar to what they enjoy
         const userGenrePreferences = new Map<number, number>();
         
         // Give more weight to watched items (they finished these)
-        watchedItems.forEach((item: WatchedItem) => {
-          const itemWithGenres = item as unknown as { genre_ids?: number[] };
-          (itemWithGenres.genre_ids || []).forEach((genreId: number) => {
+        watchedItems.forEach((item: Media) => {
+          (item.genre_ids || []).forEach((genreId: number) => {
             userGenrePreferences.set(genreId, (userGenrePreferences.get(genreId) || 0) + 2);
           });
         });
         
         // Less weight for watchlist items (they're interested but haven't watched)
-        watchlistItems.forEach((item: WatchlistItem) => {
-          const itemWithGenres = item as unknown as { genre_ids?: number[] };
-          (itemWithGenres.genre_ids || []).forEach((genreId: number) => {
+        watchlistItems.forEach((item: Media) => {
+          (item.genre_ids || []).forEach((genreId: number) => {
             userGenrePreferences.set(genreId, (userGenrePreferences.get(genreId) || 0) + 1);
           });
         });
@@ -546,7 +552,7 @@ export default function SearchScreen() {
           const aTitleLower = (a.title || a.name || '').toLowerCase();
           const bTitleLower = (b.title || b.name || '').toLowerCase();
           
-          watchedItems.forEach((item: WatchedItem) => {
+          watchedItems.forEach((item: Media) => {
             const itemTitle = (item.title || '').toLowerCase();
             if (itemTitle && aTitleLower.startsWith(itemTitle) || itemTitle.startsWith(aTitleLower)) {
               aPreferenceScore += 3; // Big boost for franchise matches
@@ -582,7 +588,7 @@ export default function SearchScreen() {
           
           // Filter for English language only and no animation
           const englishNonAnimatedMovies = topRatedMovies.results.filter(item => {
-            const isEnglish = (item as any).original_language === 'en';
+            const isEnglish = item.original_language === 'en';
             const isAnimation = item.genre_ids?.includes(16);
             return isEnglish && !isAnimation;
           });
@@ -598,14 +604,15 @@ export default function SearchScreen() {
             (item as any)._source = 'top_rated_tv_endpoint'; 
           });
           
-          // Get more TV show pages to have more options
-          const moreTVShows = await getTopRated('tv', 2);
+          // Get more TV show pages (2 and 3) to have more options
+          const [moreTVShows, evenMoreTVShows] = await Promise.all([
+            getTopRated('tv', 2),
+            getTopRated('tv', 3)
+          ]);
           moreTVShows.results.forEach(item => {
             item.media_type = 'tv';
           });
           
-          // Get even more TV shows from a third page
-          const evenMoreTVShows = await getTopRated('tv', 3);
           evenMoreTVShows.results.forEach(item => {
             item.media_type = 'tv';
           });
@@ -628,7 +635,7 @@ export default function SearchScreen() {
             }
             
             // For regular shows, prefer English but don't require it
-            const isEnglish = (item as any).original_language === 'en';
+            const isEnglish = item.original_language === 'en';
             return !isAnimation && (isEnglish || item.vote_average >= 8.0);
           });
           
@@ -652,7 +659,7 @@ export default function SearchScreen() {
             .filter(item => {
               // Identify anime as Japanese animation
               const isAnimation = item.genre_ids?.includes(16);
-              const isJapanese = (item as any).original_language === 'ja';
+              const isJapanese = item.original_language === 'ja';
               return isAnimation || (isJapanese && item.genre_ids?.includes(16));
             })
             .sort((a, b) => b.vote_average - a.vote_average);
@@ -758,28 +765,33 @@ export default function SearchScreen() {
 
       // Use weekly trending for new releases instead of original implementation
       // Using the specific endpoint: https://api.themoviedb.org/3/trending/all/week?language=en-US 
-      const newReleasesResponse = await getTrending('week', 'all', 1, 'en-US');
+      // Movies: https://api.themoviedb.org/3/trending/movie/week?language=en-US
+      // TV shows: https://api.themoviedb.org/3/trending/tv/day?language=en-US
+      const [newReleasesResponse, movieNewReleases, tvNewReleases] = await Promise.all([
+        getTrending('week', 'all', 1, 'en-US'),
+        getTrending('week', 'movie', 1, 'en-US'),
+        getTrending('day', 'tv', 1, 'en-US')
+      ]);
       
-      // Create a unique set of items to avoid duplicates
-      const uniqueNewReleases = new Set();
+      // Create a unique set of items to avoid duplicates (keyed by media type + id,
+      // a movie and a TV show can share the same TMDb id)
+      const uniqueNewReleases = new Set<string>();
       const finalNewReleases: TMDbSearchResult[] = [];
       
-      // Add movies first - Using the specific endpoint: https://api.themoviedb.org/3/trending/movie/week?language=en-US
-      const movieNewReleases = await getTrending('week', 'movie', 1, 'en-US');
+      // Add movies first
       for (const item of movieNewReleases.results) {
-        if (!uniqueNewReleases.has(item.id)) {
-          uniqueNewReleases.add(item.id);
-          item.media_type = 'movie'; // Ensure media type is set
+        item.media_type = 'movie'; // Ensure media type is set
+        if (!uniqueNewReleases.has(`movie_${item.id}`)) {
+          uniqueNewReleases.add(`movie_${item.id}`);
           finalNewReleases.push(item);
         }
       }
       
-      // Add TV shows - Using the specific endpoint: https://api.themoviedb.org/3/trending/tv/day?language=en-US
-      const tvNewReleases = await getTrending('day', 'tv', 1, 'en-US'); 
+      // Add TV shows
       for (const item of tvNewReleases.results) {
-        if (!uniqueNewReleases.has(item.id)) {
-          uniqueNewReleases.add(item.id);
-          item.media_type = 'tv'; // Ensure media type is set
+        item.media_type = 'tv'; // Ensure media type is set
+        if (!uniqueNewReleases.has(`tv_${item.id}`)) {
+          uniqueNewReleases.add(`tv_${item.id}`);
           finalNewReleases.push(item);
         }
       }
@@ -807,8 +819,8 @@ export default function SearchScreen() {
         
         // Add to new releases if they have the documentary genre
         for (const item of tvDocumentaries.results) {
-          if (!uniqueNewReleases.has(item.id) && item.genre_ids?.includes(99)) {
-            uniqueNewReleases.add(item.id);
+          if (!uniqueNewReleases.has(`tv_${item.id}`) && item.genre_ids?.includes(99)) {
+            uniqueNewReleases.add(`tv_${item.id}`);
             finalNewReleases.push(item);
           }
         }
@@ -829,8 +841,8 @@ export default function SearchScreen() {
         
         // Add to new releases
         for (const item of movieDocumentaries.results) {
-          if (!uniqueNewReleases.has(item.id)) {
-            uniqueNewReleases.add(item.id);
+          if (!uniqueNewReleases.has(`movie_${item.id}`)) {
+            uniqueNewReleases.add(`movie_${item.id}`);
             finalNewReleases.push(item);
           }
         }
@@ -838,8 +850,8 @@ export default function SearchScreen() {
       
       // Add any remaining general trending items not already included
       for (const item of newReleasesResponse.results) {
-        if (!uniqueNewReleases.has(item.id)) {
-          uniqueNewReleases.add(item.id);
+        if (!uniqueNewReleases.has(`${item.media_type}_${item.id}`)) {
+          uniqueNewReleases.add(`${item.media_type}_${item.id}`);
           finalNewReleases.push(item);
         }
       }
@@ -916,8 +928,12 @@ export default function SearchScreen() {
       try {
         const response = await searchContent(searchQuery);
         
+        // People are kept whatever the category, titles are filtered by it
+        const people = response.results.filter(result => result.media_type === 'person');
+        const titles = response.results.filter(result => result.media_type !== 'person');
+        
         // Filter results based on selected category
-        const filteredResults = filterContentByCategory(response.results, selectedCategory);
+        const filteredResults = filterContentByCategory(titles, selectedCategory);
         
         // Sort results by popularity if available
         const sortedResults = [...filteredResults].sort((a, b) => {
@@ -925,6 +941,7 @@ export default function SearchScreen() {
         });
         
         setSearchResults(sortedResults);
+        setPersonResults(people);
       } catch (error) {
         console.error('Search failed:', error);
         setError('Failed to fetch search results. Please try again.');
@@ -937,7 +954,7 @@ export default function SearchScreen() {
 
   const handleButtonAnimation = async (item: TMDbSearchResult, inWatchlist: boolean) => {
     // Perform add to watchlist operation
-    const formattedResult = formatSearchResult(item);
+    const formattedResult = toMedia(item);
     if (formattedResult) {
       const title = formattedResult.title;
       try {
@@ -990,7 +1007,8 @@ export default function SearchScreen() {
   };
 
   const handleAddToWatchlist = (result: TMDbSearchResult) => {
-    const inWatchlist = isInWatchlist(result.id);
+    const media = toMedia(result);
+    const inWatchlist = !!media && isInWatchlist(media);
     if (!inWatchlist) {
       // Call the async function, but don't need to await the result here
       handleButtonAnimation(result, false);
@@ -998,22 +1016,19 @@ export default function SearchScreen() {
   };
 
   const handleRewatchItem = async (result: TMDbSearchResult) => {
-    const formattedResult = formatSearchResult(result);
+    const formattedResult = toMedia(result);
     if (formattedResult) {
       const title = formattedResult.title;
       
-      // Remove from watched list first
-      removeFromWatched(result.id);
-      
       try {
-        // Then add to watchlist, properly awaiting the Promise
-        const wasAdded = await addToWatchlist(formattedResult);
+        // A single status change, so the title is never in both lists or neither
+        const moved = await rewatch(formattedResult);
         
-        if (wasAdded) {
+        if (moved) {
           console.log(`Moved "${title}" from watched to watchlist for rewatching`);
           showToast(`"${title}" moved to watchlist for rewatching`, 'success');
         } else {
-          showToast(`"${title}" is already in your watchlist`, 'info');
+          showToast(`Failed to move "${title}" to watchlist`, 'error');
         }
       } catch (error) {
         console.error('Error moving to watchlist:', error);
@@ -1032,8 +1047,9 @@ export default function SearchScreen() {
       item.media_type = mediaType;
     }
 
-    const inWatchlist = isInWatchlist(item.id);
-    const inWatched = isInWatched(item.id);
+    const mediaRef = { id: item.id, media_type: mediaType };
+    const inWatchlist = isInWatchlist(mediaRef);
+    const inWatched = isInWatched(mediaRef);
     const title = item.title || item.name || '';
     const year = new Date(item.release_date || item.first_air_date || '').getFullYear();
     const yearText = !isNaN(year) ? year.toString() : '';
@@ -1082,6 +1098,8 @@ export default function SearchScreen() {
             }
           });
         }}
+        // Long press adds the title to one of the user's lists
+        onLongPress={() => setListItem(toMedia(item))}
         activeOpacity={0.7}
       >
         <Image
@@ -1198,7 +1216,7 @@ export default function SearchScreen() {
       );
     }
     
-    if (searchResults.length === 0) {
+    if (searchResults.length === 0 && personResults.length === 0) {
       return (
         <View style={styles.emptyState}>
           <Text style={styles.emptyStateText}>No results found</Text>
@@ -1214,10 +1232,46 @@ export default function SearchScreen() {
         numColumns={COLUMN_COUNT}
         contentContainerStyle={styles.grid}
         columnWrapperStyle={styles.row}
+        ListHeaderComponent={personResults.length > 0 ? renderPersonResults() : null}
       />
     );
   };
 
+  // Matching people in a horizontal strip, each opening their filmography
+  const renderPersonResults = () => (
+    <View style={styles.peopleSection}>
+      <Text style={styles.peopleHeading}>People</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {personResults.map(person => (
+          <TouchableOpacity
+            key={`person-${person.id}`}
+            style={styles.personItem}
+            onPress={() => {
+              router.push({
+                pathname: '/person/[id]',
+                params: { id: person.id.toString() }
+              });
+            }}
+            activeOpacity={0.7}
+          >
+            <Image
+              source={{
+                uri: person.profile_path
+                  ? `https://image.tmdb.org/t/p/w185${person.profile_path}`
+                  : 'https://via.placeholder.com/185x185?text=%3F',
+              }}
+              style={styles.personPhoto}
+            />
+            <Text style={styles.personName} numberOfLines={2}>{person.name}</Text>
+            {person.known_for_department ? (
+              <Text style={styles.personDepartment} numberOfLines={1}>{person.known_for_department}</Text>
+            ) : null}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
   const renderCategories = () => {
     const categories: { id: CategoryType; label: string }[] = [
       { id: 'all', label: 'All' },
@@ -1277,7 +1331,8 @@ export default function SearchScreen() {
   const renderSpotlight = () => {
     if (!spotlightItem) return null;
     
-    const inWatchlist = isInWatchlist(spotlightItem.id);
+    const spotlightMedia = toMedia(spotlightItem);
+    const inWatchlist = !!spotlightMedia && isInWatchlist(spotlightMedia);
     
     // Interpolate colors for spotlight button
     const buttonBackgroundColor = spotlightButtonColor.interpolate({
@@ -1598,6 +1653,8 @@ export default function SearchScreen() {
           <ActivityIndicator size="large" color="#3498db" />
         </View>
       )}
+      
+      <AddToListModal item={listItem} onClose={() => setListItem(null)} />
     </View>
   );
 }
@@ -1672,6 +1729,38 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  peopleSection: {
+    paddingHorizontal: 6,
+    marginBottom: 16,
+  },
+  peopleHeading: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  personItem: {
+    width: 88,
+    marginRight: 12,
+    alignItems: 'center',
+  },
+  personPhoto: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#1E1E1E',
+    marginBottom: 6,
+  },
+  personName: {
+    color: '#fff',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  personDepartment: {
+    color: '#999',
+    fontSize: 11,
+    marginTop: 2,
+  },
   spotlightContainer: {
     height: 220,
     marginHorizontal: 16,
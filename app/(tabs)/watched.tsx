@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -11,24 +11,23 @@ import {
   Pressable,
   ActivityIndicator 
 } from 'react-native';
-import { useWatchedStore } from '../../lib/watchedStore';
-import { useWatchlistStore } from '../../lib/watchlistStore';
-import { WatchedItem } from '../../lib/watchedStore';
+import { useLibraryStore, LibraryItem } from '../../lib/libraryStore';
+import { getLastWatchedAt, getRewatchCount, hasBeenWatched } from '../../lib/watchHistory';
+import { toMedia, getReleaseYear } from '../../lib/media';
 import { useRouter } from 'expo-router';
-import { Star, MoreVertical, Film, Tv } from 'lucide-react-native';
+import { Star, StarHalf, MoreVertical, Film, Tv } from 'lucide-react-native';
 import Toast from 'react-native-toast-message';
+import RateReviewModal, { ReviewFields } from '../components/RateReviewModal';
 import { getMovieDetails, getTVDetails } from '../../lib/tmdb';
+import SyncStatusBanner from '../components/SyncStatusBanner';
 
 const { width } = Dimensions.get('window');
 
-// Create extended interfaces for enriched items
-interface EnrichedWatchedItem extends WatchedItem {
+// Items enriched with details fetched from TMDb
+type EnrichedWatchedItem = LibraryItem & {
   detailsFetched?: boolean;
   genreNames?: string[];
-  runtime?: number;
-  number_of_seasons?: number;
-  number_of_episodes?: number;
-}
+};
 
 // Handler for toast notifications
 const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
@@ -42,12 +41,22 @@ const showToast = (message: string, type: 'success' | 'error' | 'info' = 'succes
 };
 
 export default function WatchedScreen() {
-  const { items, removeItem, isLoading: storeLoading, isInitialized } = useWatchedStore();
-  const { addItem: addToWatchlist } = useWatchlistStore();
+  const {
+    items: libraryItems,
+    removeItem,
+    rewatch,
+    updateReview,
+    clearWatchHistory,
+    isLoading: storeLoading,
+    isInitialized
+  } = useLibraryStore();
+  // Everything watched at least once, including titles being rewatched right now
+  const items = useMemo(() => libraryItems.filter(hasBeenWatched), [libraryItems]);
   const router = useRouter();
   const [activeFilter, setActiveFilter] = useState('All');
   const [menuVisible, setMenuVisible] = useState(false);
-  const [selectedItem, setSelectedItem] = useState<WatchedItem | null>(null);
+  const [selectedItem, setSelectedItem] = useState<LibraryItem | null>(null);
+  const [reviewItem, setReviewItem] = useState<LibraryItem | null>(null);
   const [enrichedItems, setEnrichedItems] = useState<EnrichedWatchedItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -69,27 +78,25 @@ export default function WatchedScreen() {
       return [...enrichedItems].sort((a, b) => (b.rating || 0) - (a.rating || 0));
     }
     if (activeFilter === 'Recent') {
-      // Sort by watched date if available
+      // Sort by the latest viewing
       return [...enrichedItems].sort((a, b) => {
-        const dateA = a.watched_date ? new Date(a.watched_date).getTime() : 0;
-        const dateB = b.watched_date ? new Date(b.watched_date).getTime() : 0;
-        return dateB - dateA;
+        const dateA = getLastWatchedAt(a);
+        const dateB = getLastWatchedAt(b);
+        return (dateB ? new Date(dateB).getTime() : 0) - (dateA ? new Date(dateA).getTime() : 0);
       });
     }
     return enrichedItems;
   };
 
   // Fetch additional details for an item when needed
-  const fetchItemDetails = async (item: WatchedItem, index: number) => {
+  const fetchItemDetails = async (item: LibraryItem, index: number) => {
     if (enrichedItems[index]?.detailsFetched) return;
 
     try {
-      let details;
-      if (item.media_type === 'movie') {
-        details = await getMovieDetails(item.id);
-      } else {
-        details = await getTVDetails(item.id);
-      }
+      const details = toMedia(item.media_type === 'movie'
+        ? await getMovieDetails(item.id)
+        : await getTVDetails(item.id));
+      if (!details) return;
 
       // Create genre names array from the genres object
       const genreNames = details.genres?.map(genre => genre.name) || [];
@@ -111,20 +118,66 @@ export default function WatchedScreen() {
     }
   };
 
-  const handleRewatch = (item: WatchedItem) => {
-    addToWatchlist(item);
-    removeItem(item.id);
-    showToast(`"${item.title}" moved back to watchlist`);
+  const handleRewatch = async (item: LibraryItem) => {
+    const moved = await rewatch(item);
+    if (moved) {
+      showToast(`"${item.title}" moved back to watchlist`);
+    } else {
+      showToast(`Failed to move "${item.title}" to watchlist`, 'error');
+    }
     setMenuVisible(false);
   };
 
-  const handleRemove = (item: WatchedItem) => {
-    removeItem(item.id);
-    showToast(`"${item.title}" removed from watched list`);
+  // A title that is back on the watchlist stays there and only loses its viewings
+  const handleRemove = async (item: LibraryItem) => {
     setMenuVisible(false);
+    const removed = item.status === 'watched'
+      ? await removeItem(item)
+      : await clearWatchHistory(item);
+    if (removed) {
+      showToast(`"${item.title}" removed from watched list`);
+    } else {
+      showToast(`Failed to remove "${item.title}"`, 'error');
+    }
+  };
+
+  const openReview = (item: LibraryItem) => {
+    setMenuVisible(false);
+    setReviewItem(item);
+  };
+
+  const handleSaveReview = async (item: LibraryItem, fields: ReviewFields) => {
+    setReviewItem(null);
+    const saved = await updateReview(item, fields);
+    if (saved) {
+      showToast(`Review of "${item.title}" saved`);
+    } else {
+      showToast(`Failed to save review of "${item.title}"`, 'error');
+    }
   };
 
-  const openMenu = (item: WatchedItem) => {
+  // Five stars for the 0.5-10 rating
+  const renderRatingStars = (rating: number) => {
+    const stars = rating / 2;
+    return Array.from({ length: 5 }, (_, index) => {
+      if (stars >= index + 1) {
+        return <Star key={index} fill="#8c52ff" color="#8c52ff" size={16} />;
+      }
+      if (stars >= index + 0.5) {
+        return (
+          <View key={index}>
+            <Star color="#8c52ff" size={16} />
+            <View style={styles.halfStar}>
+              <StarHalf fill="#8c52ff" color="#8c52ff" size={16} />
+            </View>
+          </View>
+        );
+      }
+      return <Star key={index} color="#8c52ff" size={16} />;
+    });
+  };
+
+  const openMenu = (item: LibraryItem) => {
     setSelectedItem(item);
     setMenuVisible(true);
   };
@@ -143,6 +196,16 @@ export default function WatchedScreen() {
     return '';
   };
 
+  // "Watched 3 times · Oct 19, 2026"
+  const formatWatchHistory = (item: LibraryItem) => {
+    const rewatches = getRewatchCount(item);
+    const lastWatched = getLastWatchedAt(item);
+    const count = rewatches > 0 ? `Watched ${rewatches + 1} times` : 'Watched';
+    return lastWatched && new Date(lastWatched).getTime() > 0
+      ? `${count} · ${new Date(lastWatched).toLocaleDateString()}`
+      : count;
+  };
+
   // Format genres as a comma-separated string
   const formatGenres = (item: EnrichedWatchedItem) => {
     if (!item.detailsFetched) return '';
@@ -192,16 +255,30 @@ export default function WatchedScreen() {
             </TouchableOpacity>
           </View>
           <Text style={styles.itemMeta}>
-            {new Date(item.release_date).getFullYear()} • {formatGenres(item)} • {formatDuration(item)}
+            {getReleaseYear(item)} • {formatGenres(item)} • {formatDuration(item)}
           </Text>
-          <View style={styles.ratingContainer}>
-            <Text style={styles.ratedText}>Rating: </Text>
-            <Star fill="#8c52ff" color="#8c52ff" size={16} />
-            <Star fill="#8c52ff" color="#8c52ff" size={16} />
-            <Star fill="#8c52ff" color="#8c52ff" size={16} />
-            <Star fill="#8c52ff" color="#8c52ff" size={16} />
-            <Star stroke="#8c52ff" color="#8c52ff" size={16} />
+          <View style={styles.historyRow}>
+            <Text style={styles.historyText}>{formatWatchHistory(item)}</Text>
+            {item.status !== 'watched' && (
+              <View style={styles.rewatchingBadge}>
+                <Text style={styles.rewatchingText}>Rewatching</Text>
+              </View>
+            )}
           </View>
+          {item.rating !== undefined ? (
+            <View style={styles.ratingContainer}>
+              <Text style={styles.ratedText}>Rating: </Text>
+              {renderRatingStars(item.rating)}
+              <Text style={styles.ratingValue}>{item.rating.toFixed(1)}</Text>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.ratingContainer} onPress={() => openReview(item)}>
+              <Text style={styles.rateLink}>Rate it</Text>
+            </TouchableOpacity>
+          )}
+          {item.review ? (
+            <Text style={styles.reviewText} numberOfLines={1}>{item.review}</Text>
+          ) : null}
         </View>
       </TouchableOpacity>
     );
@@ -221,6 +298,8 @@ export default function WatchedScreen() {
     <View style={styles.container}>
       <Text style={styles.title}>Watched</Text>
       
+      <SyncStatusBanner />
+      
       {/* Filter buttons */}
       <View style={styles.filterContainer}>
         <TouchableOpacity 
@@ -292,11 +371,24 @@ export default function WatchedScreen() {
           onPress={() => setMenuVisible(false)}
         >
           <View style={styles.menuContainer}>
+            {selectedItem?.status === 'watched' && (
+              <>
+                <TouchableOpacity 
+                  style={styles.menuItem}
+                  onPress={() => selectedItem && handleRewatch(selectedItem)}
+                >
+                  <Text style={styles.menuText}>Rewatch "{selectedItem?.title}"</Text>
+                </TouchableOpacity>
+                
+                <View style={styles.menuDivider} />
+              </>
+            )}
+            
             <TouchableOpacity 
               style={styles.menuItem}
-              onPress={() => selectedItem && handleRewatch(selectedItem)}
+              onPress={() => selectedItem && openReview(selectedItem)}
             >
-              <Text style={styles.menuText}>Rewatch "{selectedItem?.title}"</Text>
+              <Text style={styles.menuText}>Edit Rating & Review</Text>
             </TouchableOpacity>
             
             <View style={styles.menuDivider} />
@@ -310,6 +402,15 @@ export default function WatchedScreen() {
           </View>
         </Pressable>
       </Modal>
+
+      <RateReviewModal
+        visible={reviewItem !== null}
+        title={reviewItem?.title || ''}
+        initial={reviewItem || undefined}
+        mode="edit"
+        onSubmit={(fields) => reviewItem && handleSaveReview(reviewItem, fields)}
+        onCancel={() => setReviewItem(null)}
+      />
     </View>
   );
 }
@@ -364,7 +465,7 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     marginBottom: 16,
     flexDirection: 'row',
-    height: 130,
+    height: 150,
     position: 'relative',
   },
   mediaBadge: {
@@ -377,8 +478,8 @@ const styles = StyleSheet.create({
     zIndex: 1,
   },
   poster: {
-    width: 87,
-    height: 130,
+    width: 100,
+    height: 150,
   },
   itemDetails: {
     flex: 1,
@@ -405,6 +506,27 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginBottom: 8,
   },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  historyText: {
+    color: '#ccc',
+    fontSize: 12,
+  },
+  rewatchingBadge: {
+    backgroundColor: 'rgba(140, 82, 255, 0.25)',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  rewatchingText: {
+    color: '#8c52ff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
   ratingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -414,6 +536,27 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginRight: 4,
   },
+  ratingValue: {
+    color: '#ccc',
+    fontSize: 13,
+    marginLeft: 6,
+  },
+  halfStar: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+  rateLink: {
+    color: '#8c52ff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  reviewText: {
+    color: '#aaa',
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
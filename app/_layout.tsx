@@ -1,14 +1,15 @@
 import React, { useEffect, useState } from 'react';
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import useAuth from '@/hooks/useAuth';
 import { View, Text, ActivityIndicator } from 'react-native';
 import { PaperProvider, MD3DarkTheme } from 'react-native-paper';
 import Toast from 'react-native-toast-message';
-import { useWatchlistStore } from '@/lib/watchlistStore';
-import { useWatchedStore } from '@/lib/watchedStore';
+import { useLibraryStore } from '@/lib/libraryStore';
 import { useDataLoadingStore } from '@/lib/dataLoadingStore';
+import { startOutboxReplay } from '@/lib/outboxStore';
+import { configureReminders, startReminderResponses } from '@/lib/reminders';
 
 // Create custom theme based on dark theme
 const theme = {
@@ -39,16 +40,26 @@ export default function RootLayout() {
   }, []);
   
   // Get store actions
-  const syncWatchlist = useWatchlistStore(state => state.syncWithSupabase);
-  const syncWatched = useWatchedStore(state => state.syncWithSupabase);
-  const watchlistLoading = useWatchlistStore(state => state.isLoading);
-  const watchedLoading = useWatchedStore(state => state.isLoading);
-  const watchlistInitialized = useWatchlistStore(state => state.isInitialized);
-  const watchedInitialized = useWatchedStore(state => state.isInitialized);
+  const syncLibrary = useLibraryStore(state => state.syncWithSupabase);
+  const libraryLoading = useLibraryStore(state => state.isLoading);
+  const libraryInitialized = useLibraryStore(state => state.isInitialized);
   
   // Get data loading coordinator
   const { syncAllData, markDataSynced, resetSyncState } = useDataLoadingStore();
   
+  // Send queued library changes when connectivity comes back
+  useEffect(() => startOutboxReplay(), []);
+  
+  // Open the title of a release reminder when it's tapped
+  const router = useRouter();
+  useEffect(() => {
+    configureReminders();
+    return startReminderResponses(media => router.push({
+      pathname: '/details/[type]/[id]',
+      params: { type: media.media_type, id: media.id.toString() }
+    }));
+  }, [router]);
+  
   // Reset data sync state on logout
   useEffect(() => {
     if (isLoggedIn === false) {
@@ -63,8 +74,8 @@ export default function RootLayout() {
     // Prevent flickering by delaying the loading state update 
     const shouldBeLoading = !initialLoadComplete && (
       (!authInitialized && !forceLoaded) || 
-      (watchlistLoading && watchedLoading) ||
-      (!watchlistInitialized && !watchedInitialized && !dataInitialized) ||
+      libraryLoading ||
+      (!libraryInitialized && !dataInitialized) ||
       !startupComplete
     );
     
@@ -79,8 +90,8 @@ export default function RootLayout() {
     }
     
     return () => clearTimeout(timer);
-  }, [authInitialized, forceLoaded, watchlistLoading, watchedLoading, 
-      watchlistInitialized, watchedInitialized, dataInitialized, initialLoadComplete, startupComplete]);
+  }, [authInitialized, forceLoaded, libraryLoading, libraryInitialized, dataInitialized,
+      initialLoadComplete, startupComplete]);
   
   // Safety timeout to prevent getting stuck on the loading screen
   useEffect(() => {
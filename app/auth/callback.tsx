@@ -4,8 +4,7 @@ import { Text } from 'react-native-paper';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { supabase } from '@/lib/supabase';
 import { useNavigation } from '@react-navigation/native';
-import { useWatchlistStore } from '@/lib/watchlistStore';
-import { useWatchedStore } from '@/lib/watchedStore';
+import { useLibraryStore } from '@/lib/libraryStore';
 
 interface HashParams {
   [key: string]: string;
@@ -21,8 +20,7 @@ export default function AuthCallbackPage() {
   const [errorState, setErrorState] = useState<string | null>(null);
 
   // Get sync functions from stores
-  const syncWatchlist = useWatchlistStore(state => state.syncWithSupabase);
-  const syncWatched = useWatchedStore(state => state.syncWithSupabase);
+  const syncLibrary = useLibraryStore(state => state.syncWithSupabase);
 
   useEffect(() => {
     // Set up auth state change listener
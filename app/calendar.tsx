@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Linking,
+  Platform,
+  Share
+} from 'react-native';
+import { useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, CalendarPlus, Download, Share2, Film, Tv } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useLibraryStore } from '../lib/libraryStore';
+import { useCalendarStore } from '../lib/calendarStore';
+import {
+  CalendarEntry,
+  buildICalendar,
+  formatCalendarDate,
+  formatEpisodeNumber,
+  getCalendarEntries,
+  groupByWeek,
+  isTracked
+} from '../lib/calendar';
+import { getCalendarFeedUrl, publishCalendarFeed, removeCalendarFeed } from '../lib/supabase';
+import { APP_URL } from '../constants';
+
+// Function to show toast
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 2000,
+    autoHide: true,
+  });
+};
+
+// Calendar apps subscribe to webcal:// addresses
+const toWebcalUrl = (url: string) => url.replace(/^https?:/, 'webcal:');
+
+// Upcoming releases of the watchlist and new episodes of shows being watched, by week,
+// with a calendar feed the user can subscribe to
+export default function CalendarScreen() {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const libraryItems = useLibraryStore(state => state.items);
+  const userId = useLibraryStore(state => state.lastSyncUserId);
+  const upcoming = useCalendarStore(state => state.upcoming);
+  const isLoading = useCalendarStore(state => state.isLoading);
+  const loadUpcoming = useCalendarStore(state => state.loadUpcoming);
+  const feedTokens = useCalendarStore(state => state.feedTokens);
+  const loadFeedToken = useCalendarStore(state => state.loadFeedToken);
+  const createFeedToken = useCalendarStore(state => state.createFeedToken);
+  const [publishing, setPublishing] = useState(false);
+
+  const feedToken = userId ? feedTokens[userId] ?? undefined : undefined;
+  // Kept up to date after syncs and library changes (see queueCalendarFeedPublish)
+  const feedUrl = userId && feedToken ? getCalendarFeedUrl(userId, feedToken) : null;
+  const trackedItems = useMemo(() => libraryItems.filter(isTracked), [libraryItems]);
+  const entries = useMemo(() => getCalendarEntries(libraryItems, upcoming), [libraryItems, upcoming]);
+  const weeks = useMemo(
+    () => groupByWeek(entries).map(week => ({ ...week, data: week.entries })),
+    [entries]
+  );
+
+  useEffect(() => {
+    loadUpcoming(trackedItems);
+  }, [trackedItems, loadUpcoming]);
+
+  // The feed may have been set up on another device
+  useEffect(() => {
+    if (userId) loadFeedToken(userId);
+  }, [userId, loadFeedToken]);
+
+  // Publish to the feed's address, creating one first if the user has none
+  const publishFeed = async (token: string | null): Promise<string | null> => {
+    if (!userId) return null;
+
+    setPublishing(true);
+    const feed = token || await createFeedToken(userId);
+    const url = feed ? await publishCalendarFeed(userId, feed, buildICalendar(entries, APP_URL)) : null;
+    setPublishing(false);
+
+    if (!url) {
+      showToast('Failed to publish your calendar', 'error');
+    }
+    return url;
+  };
+
+  // Copy the link on web, hand it to the calendar app on devices
+  const handleSubscribe = async () => {
+    if (!userId) {
+      showToast('Sign in to subscribe to your calendar', 'error');
+      return;
+    }
+
+    const url = await publishFeed(feedToken ?? null);
+    if (!url) return;
+
+    try {
+      if (Platform.OS === 'web' && typeof navigator !== 'undefined' && navigator.clipboard) {
+        await navigator.clipboard.writeText(url);
+        showToast('Link copied, add it to your calendar app as a subscription');
+      } else {
+        await Linking.openURL(toWebcalUrl(url));
+      }
+    } catch (error) {
+      console.error('Failed to open calendar subscription:', error);
+      showToast('Failed to open your calendar app', 'error');
+    }
+  };
+
+  // A one-off .ics file on web, the feed's link elsewhere
+  const handleExport = async () => {
+    if (Platform.OS === 'web') {
+      const blob = new Blob([buildICalendar(entries, APP_URL)], { type: 'text/calendar' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'vibewatch-upcoming.ics';
+      link.click();
+      URL.revokeObjectURL(link.href);
+      return;
+    }
+
+    if (!userId) {
+      showToast('Sign in to share your calendar', 'error');
+      return;
+    }
+
+    const url = feedUrl || await publishFeed(feedToken ?? null);
+    if (!url) return;
+
+    try {
+      await Share.share({ message: `My upcoming releases on VibeWatch: ${url}`, url });
+    } catch (error) {
+      console.error('Failed to share calendar:', error);
+    }
+  };
+
+  // Move the feed to a new address so old links stop working
+  const handleResetLink = async () => {
+    if (!userId || !feedToken) return;
+
+    // The old file only goes once the new address is saved and published
+    const url = await publishFeed(null);
+    if (!url) return;
+
+    await removeCalendarFeed(userId, feedToken);
+    showToast('Calendar link changed, subscribe again with the new one');
+  };
+
+  const openDetails = (entry: CalendarEntry) => {
+    router.push({
+      pathname: '/details/[type]/[id]',
+      params: { type: entry.item.media_type, id: entry.item.id.toString() }
+    });
+  };
+
+  const getEntryLabel = (entry: CalendarEntry) => {
+    if (entry.kind === 'episode') {
+      return entry.episode_name ? `${formatEpisodeNumber(entry)} · ${entry.episode_name}` : formatEpisodeNumber(entry);
+    }
+    return entry.item.media_type === 'movie' ? 'Release' : 'Series premiere';
+  };
+
+  const renderEntry = ({ item: entry }: { item: CalendarEntry }) => (
+    <TouchableOpacity style={styles.entry} onPress={() => openDetails(entry)}>
+      {entry.item.poster_path ? (
+        <Image
+          source={{ uri: `https://image.tmdb.org/t/p/w92${entry.item.poster_path}` }}
+          style={styles.poster}
+        />
+      ) : (
+        <View style={[styles.poster, styles.posterPlaceholder]}>
+          {entry.item.media_type === 'movie' ? <Film size={20} color="#666" /> : <Tv size={20} color="#666" />}
+        </View>
+      )}
+      <View style={styles.entryInfo}>
+        <Text style={styles.entryTitle} numberOfLines={1}>{entry.item.title}</Text>
+        <Text style={styles.entryLabel} numberOfLines={1}>{getEntryLabel(entry)}</Text>
+      </View>
+      <Text style={styles.entryDate}>{formatCalendarDate(entry.date)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Upcoming</Text>
+      </View>
+
+      <SectionList
+        sections={weeks}
+        renderItem={renderEntry}
+        keyExtractor={entry => entry.key}
+        renderSectionHeader={({ section }) => <Text style={styles.weekLabel}>{section.label}</Text>}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={
+          <View style={styles.feedCard}>
+            <Text style={styles.feedTitle}>Add to your calendar</Text>
+            <Text style={styles.feedHint}>
+              Subscribe to keep these dates in your calendar app. It updates whenever you open this page.
+            </Text>
+            <View style={styles.feedButtons}>
+              <TouchableOpacity
+                style={[styles.feedButton, styles.subscribeButton]}
+                onPress={handleSubscribe}
+                disabled={publishing}
+              >
+                {publishing ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <>
+                    <CalendarPlus size={18} color="#fff" />
+                    <Text style={styles.feedButtonText}>Subscribe</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.feedButton} onPress={handleExport} disabled={publishing}>
+                {Platform.OS === 'web' ? <Download size={18} color="#fff" /> : <Share2 size={18} color="#fff" />}
+                <Text style={styles.feedButtonText}>{Platform.OS === 'web' ? 'Download .ics' : 'Share link'}</Text>
+              </TouchableOpacity>
+            </View>
+            {feedToken && (
+              <TouchableOpacity onPress={handleResetLink} disabled={publishing}>
+                <Text style={styles.resetLink}>Anyone with the link can see these dates. Change link</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator size="large" color="#8c52ff" style={styles.loading} />
+          ) : (
+            <Text style={styles.emptyText}>
+              Nothing coming up. Add upcoming movies and shows to your watchlist to see them here.
+            </Text>
+          )
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  feedCard: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  feedTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  feedHint: {
+    color: '#999',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  feedButtons: {
+    flexDirection: 'row',
+  },
+  feedButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginRight: 8,
+  },
+  subscribeButton: {
+    backgroundColor: '#ff6b6b',
+  },
+  feedButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  resetLink: {
+    color: '#8c52ff',
+    fontSize: 12,
+    marginTop: 12,
+  },
+  weekLabel: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  poster: {
+    width: 40,
+    height: 60,
+    borderRadius: 4,
+  },
+  posterPlaceholder: {
+    backgroundColor: '#2a2a2a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  entryInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  entryTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  entryLabel: {
+    color: '#999',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  entryDate: {
+    color: '#8c52ff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 32,
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
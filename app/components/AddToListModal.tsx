@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Pressable, Modal, ScrollView, StyleSheet } from 'react-native';
+import { Check, Plus } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useListStore } from '../../lib/listStore';
+import { Media, isSameMedia } from '../../lib/media';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+type AddToListModalProps = {
+  // Title being added; the modal is shown while it is set
+  item: Media | null;
+  onClose: () => void;
+};
+
+// Pick the custom lists a title belongs to, or start a new one with it
+export default function AddToListModal({ item, onClose }: AddToListModalProps) {
+  const lists = useListStore(state => state.lists);
+  const { addToList, removeFromList, createList } = useListStore();
+  const [newListName, setNewListName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (item) setNewListName('');
+  }, [item]);
+
+  if (!item) return null;
+
+  const toggleList = async (listId: string, listName: string, inList: boolean) => {
+    const saved = inList
+      ? await removeFromList(listId, item)
+      : await addToList(listId, item);
+
+    if (!saved) {
+      showToast(`Failed to update "${listName}"`, 'error');
+    } else {
+      showToast(inList ? `Removed from "${listName}"` : `Added to "${listName}"`);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newListName.trim();
+    if (!name || creating) return;
+
+    setCreating(true);
+    const list = await createList({ name });
+    if (list && await addToList(list.id, item)) {
+      showToast(`Added to "${name}"`);
+      setNewListName('');
+    } else {
+      showToast(`Failed to create "${name}"`, 'error');
+    }
+    setCreating(false);
+  };
+
+  return (
+    <Modal animationType="fade" transparent={true} visible={true} onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        {/* Swallow presses inside the dialog so they don't close it */}
+        <Pressable style={styles.dialog} onPress={() => {}}>
+          <Text style={styles.heading}>Add to list</Text>
+          <Text style={styles.title} numberOfLines={2}>{item.title}</Text>
+
+          <ScrollView style={styles.lists}>
+            {lists.length === 0 ? (
+              <Text style={styles.emptyText}>You don't have any lists yet.</Text>
+            ) : (
+              lists.map(list => {
+                const inList = list.items.some(listItem => isSameMedia(listItem, item));
+
+                return (
+                  <TouchableOpacity
+                    key={list.id}
+                    style={styles.listRow}
+                    onPress={() => toggleList(list.id, list.name, inList)}
+                  >
+                    <View style={[styles.checkbox, inList && styles.checkboxChecked]}>
+                      {inList && <Check size={14} color="#fff" />}
+                    </View>
+                    <Text style={styles.listName} numberOfLines={1}>{list.name}</Text>
+                    <Text style={styles.listCount}>{list.items.length}</Text>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </ScrollView>
+
+          <View style={styles.newList}>
+            <TextInput
+              style={styles.input}
+              value={newListName}
+              onChangeText={setNewListName}
+              placeholder="New list"
+              placeholderTextColor="#666"
+              maxLength={100}
+              onSubmitEditing={handleCreate}
+            />
+            <TouchableOpacity
+              style={[styles.createButton, (!newListName.trim() || creating) && styles.createButtonDisabled]}
+              onPress={handleCreate}
+              disabled={!newListName.trim() || creating}
+            >
+              <Plus size={18} color="#fff" />
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  dialog: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 360,
+  },
+  heading: {
+    color: '#999',
+    fontSize: 13,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  lists: {
+    maxHeight: 260,
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#666',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#8c52ff',
+    borderColor: '#8c52ff',
+  },
+  listName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+  },
+  listCount: {
+    color: '#999',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  newList: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    color: '#fff',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  createButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#8c52ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  createButtonDisabled: {
+    opacity: 0.5,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    marginTop: 20,
+  },
+  doneButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
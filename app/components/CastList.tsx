@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ChevronDown, ChevronUp } from 'lucide-react-native';
+import type { TMDbCastMember } from '../../lib/tmdb';
+
+// How many cast members show before the list is expanded
+const COLLAPSED_COUNT = 6;
+
+type CastListProps = {
+  cast: TMDbCastMember[];
+};
+
+// Cast of a title in billing order, collapsed to the top billed until expanded.
+// Each member opens their person page.
+export default function CastList({ cast }: CastListProps) {
+  const router = useRouter();
+  const [expanded, setExpanded] = useState(false);
+
+  if (cast.length === 0) return null;
+
+  const shown = expanded ? cast : cast.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.heading}>Cast</Text>
+      {shown.map(member => (
+        <TouchableOpacity
+          key={`${member.id}_${member.character}`}
+          style={styles.row}
+          onPress={() => router.push({ pathname: '/person/[id]', params: { id: member.id.toString() } })}
+        >
+          <Image
+            source={{
+              uri: member.profile_path
+                ? `https://image.tmdb.org/t/p/w185${member.profile_path}`
+                : 'https://via.placeholder.com/185x185?text=%3F',
+            }}
+            style={styles.photo}
+          />
+          <View style={styles.text}>
+            <Text style={styles.name} numberOfLines={1}>{member.name}</Text>
+            {member.character ? (
+              <Text style={styles.character} numberOfLines={1}>{member.character}</Text>
+            ) : null}
+          </View>
+        </TouchableOpacity>
+      ))}
+      {cast.length > COLLAPSED_COUNT && (
+        <TouchableOpacity style={styles.toggle} onPress={() => setExpanded(!expanded)}>
+          <Text style={styles.toggleText}>{expanded ? 'Show less' : `Show all ${cast.length}`}</Text>
+          {expanded ? <ChevronUp size={16} color="#8c52ff" /> : <ChevronDown size={16} color="#8c52ff" />}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 24,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  photo: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#1E1E1E',
+  },
+  text: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  name: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  character: {
+    color: '#999',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  toggleText: {
+    color: '#8c52ff',
+    fontSize: 14,
+    marginRight: 4,
+  },
+});
@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { Animated, PanResponder, StyleSheet, View } from 'react-native';
+import { GripVertical } from 'lucide-react-native';
+
+type DraggableRowProps = {
+  index: number;
+  itemCount: number;
+  // Height of a row including its margin, used to turn the drag distance into a new index
+  rowHeight: number;
+  onDragStateChange?: (dragging: boolean) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  children: React.ReactNode;
+};
+
+// A list row that can be dragged to a new index with the grip handle on its right edge
+export default function DraggableRow({
+  index,
+  itemCount,
+  rowHeight,
+  onDragStateChange,
+  onMove,
+  children
+}: DraggableRowProps) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [isDragging, setIsDragging] = useState(false);
+
+  // The responder is created once, so it reads the latest props through a ref
+  const latestProps = useRef({ index, itemCount, rowHeight, onDragStateChange, onMove });
+  latestProps.current = { index, itemCount, rowHeight, onDragStateChange, onMove };
+
+  const finishDrag = (dy: number) => {
+    const { index, itemCount, rowHeight, onDragStateChange, onMove } = latestProps.current;
+    const toIndex = Math.max(0, Math.min(itemCount - 1, index + Math.round(dy / rowHeight)));
+
+    translateY.setValue(0);
+    setIsDragging(false);
+    onDragStateChange?.(false);
+
+    if (toIndex !== index) {
+      onMove(index, toIndex);
+    }
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the gesture while dragging instead of letting the list scroll
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        setIsDragging(true);
+        latestProps.current.onDragStateChange?.(true);
+      },
+      onPanResponderMove: Animated.event([null, { dy: translateY }], { useNativeDriver: false }),
+      onPanResponderRelease: (_, gesture) => finishDrag(gesture.dy),
+      onPanResponderTerminate: () => finishDrag(0),
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      style={[
+        styles.row,
+        { transform: [{ translateY }] },
+        isDragging && styles.dragging
+      ]}
+    >
+      {children}
+      <View style={styles.handle} {...panResponder.panHandlers}>
+        <GripVertical size={20} color="#777" />
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    position: 'relative',
+  },
+  dragging: {
+    zIndex: 10,
+    opacity: 0.9,
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOpacity: 0.5,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 4 },
+  },
+  handle: {
+    position: 'absolute',
+    right: 6,
+    bottom: 22, // rows have a 16px bottom margin
+    padding: 6,
+  },
+});
@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Check, ChevronDown, ChevronRight, CircleCheck, Circle } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import RateReviewModal, { ReviewFields } from './RateReviewModal';
+import { useLibraryStore } from '../../lib/libraryStore';
+import { TVMedia, isSameMedia } from '../../lib/media';
+import { getTVDetails, getTVSeason, TMDbEpisode, TMDbSeasonSummary } from '../../lib/tmdb';
+import {
+  EpisodeProgress,
+  EpisodeRef,
+  formatEpisode,
+  getNextEpisode,
+  getRegularSeasons,
+  getSeasonCompletion,
+  isEpisodeWatched,
+  setEpisodeWatched,
+  setSeasonWatched
+} from '../../lib/episodeProgress';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+type EpisodeTrackerProps = {
+  show: TVMedia;
+};
+
+// Season and episode checklist for a TV show, with the next episode to watch
+export default function EpisodeTracker({ show }: EpisodeTrackerProps) {
+  const libraryItem = useLibraryStore(state => state.items.find(item => isSameMedia(item, show)));
+  const setEpisodeProgress = useLibraryStore(state => state.setEpisodeProgress);
+  const updateReview = useLibraryStore(state => state.updateReview);
+  const [seasons, setSeasons] = useState<TMDbSeasonSummary[]>([]);
+  const [episodesBySeason, setEpisodesBySeason] = useState<Record<number, TMDbEpisode[]>>({});
+  const [expandedSeason, setExpandedSeason] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingSeason, setLoadingSeason] = useState<number | null>(null);
+  const [reviewVisible, setReviewVisible] = useState(false);
+
+  const progress = libraryItem?.progress;
+  const nextEpisode = getNextEpisode(progress, seasons);
+
+  // The season list comes with the show details
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSeasons = async () => {
+      setLoading(true);
+      try {
+        const details = await getTVDetails(show.id);
+        if (!cancelled) {
+          setSeasons(getRegularSeasons(details.seasons));
+        }
+      } catch (error) {
+        console.error('Failed to load seasons:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSeasons();
+    return () => {
+      cancelled = true;
+    };
+  }, [show.id]);
+
+  const loadEpisodes = async (seasonNumber: number) => {
+    if (episodesBySeason[seasonNumber]) return;
+
+    setLoadingSeason(seasonNumber);
+    try {
+      const season = await getTVSeason(show.id, seasonNumber);
+      setEpisodesBySeason(current => ({ ...current, [seasonNumber]: season.episodes }));
+    } catch (error) {
+      console.error(`Failed to load season ${seasonNumber}:`, error);
+      showToast('Failed to load episodes', 'error');
+    } finally {
+      setLoadingSeason(null);
+    }
+  };
+
+  const toggleSeasonExpanded = (seasonNumber: number) => {
+    if (expandedSeason === seasonNumber) {
+      setExpandedSeason(null);
+      return;
+    }
+
+    setExpandedSeason(seasonNumber);
+    loadEpisodes(seasonNumber);
+  };
+
+  const saveProgress = async (updated: EpisodeProgress) => {
+    const previousStatus = libraryItem?.status;
+    const status = await setEpisodeProgress(show, updated, seasons);
+
+    if (!status) {
+      showToast('Failed to save progress', 'error');
+    } else if (status === 'watched' && previousStatus !== 'watched') {
+      showToast(`Finished "${show.title}" - moved to Watched`);
+      // Finishing the last episode marks the show as watched, so ask for a rating like the other paths do
+      setReviewVisible(true);
+    }
+  };
+
+  const handleSaveReview = async (fields: ReviewFields) => {
+    setReviewVisible(false);
+    const saved = await updateReview(show, fields);
+    if (!saved) {
+      showToast('Failed to save review', 'error');
+    }
+  };
+
+  const toggleEpisode = (episode: EpisodeRef) => {
+    saveProgress(setEpisodeWatched(progress, episode, !isEpisodeWatched(progress, episode)));
+  };
+
+  const toggleSeason = (season: TMDbSeasonSummary) => {
+    saveProgress(setSeasonWatched(progress, season, !getSeasonCompletion(progress, season).complete));
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="small" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  if (seasons.length === 0) {
+    return null;
+  }
+
+  const nextEpisodeName = nextEpisode
+    ? episodesBySeason[nextEpisode.season_number]
+      ?.find(episode => episode.episode_number === nextEpisode.episode_number)?.name
+    : undefined;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Episodes</Text>
+
+      {nextEpisode ? (
+        <View style={styles.nextEpisode}>
+          <View style={styles.nextEpisodeInfo}>
+            <Text style={styles.nextEpisodeLabel}>Next episode</Text>
+            <Text style={styles.nextEpisodeText} numberOfLines={1}>
+              {formatEpisode(nextEpisode)}{nextEpisodeName ? ` · ${nextEpisodeName}` : ''}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.nextEpisodeButton} onPress={() => toggleEpisode(nextEpisode)}>
+            <Check size={18} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <Text style={styles.caughtUpText}>All caught up</Text>
+      )}
+
+      {seasons.map(season => {
+        const completion = getSeasonCompletion(progress, season);
+        const expanded = expandedSeason === season.season_number;
+
+        return (
+          <View key={season.season_number} style={styles.season}>
+            <TouchableOpacity style={styles.seasonHeader} onPress={() => toggleSeasonExpanded(season.season_number)}>
+              {expanded ? <ChevronDown size={18} color="#ccc" /> : <ChevronRight size={18} color="#ccc" />}
+              <View style={styles.seasonInfo}>
+                <Text style={styles.seasonName}>{season.name}</Text>
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${(completion.watched / completion.total) * 100}%` }]} />
+                </View>
+              </View>
+              <Text style={styles.seasonCount}>{completion.watched}/{completion.total}</Text>
+              <TouchableOpacity style={styles.seasonToggle} onPress={() => toggleSeason(season)}>
+                {completion.complete
+                  ? <CircleCheck size={22} color="#4CAF50" />
+                  : <Circle size={22} color="#666" />}
+              </TouchableOpacity>
+            </TouchableOpacity>
+
+            {expanded && (
+              loadingSeason === season.season_number ? (
+                <ActivityIndicator size="small" color="#4CAF50" style={styles.episodesLoading} />
+              ) : (
+                (episodesBySeason[season.season_number] || []).map(episode => {
+                  const watched = isEpisodeWatched(progress, episode);
+
+                  return (
+                    <TouchableOpacity
+                      key={episode.id}
+                      style={styles.episode}
+                      onPress={() => toggleEpisode(episode)}
+                    >
+                      <View style={[styles.checkbox, watched && styles.checkboxChecked]}>
+                        {watched && <Check size={14} color="#fff" />}
+                      </View>
+                      <Text style={[styles.episodeName, watched && styles.episodeNameWatched]} numberOfLines={1}>
+                        {episode.episode_number}. {episode.name}
+                      </Text>
+                      {episode.air_date && (
+                        <Text style={styles.episodeDate}>{episode.air_date}</Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })
+              )
+            )}
+          </View>
+        );
+      })}
+
+      <RateReviewModal
+        visible={reviewVisible}
+        title={show.title}
+        initial={libraryItem}
+        mode="edit"
+        onSubmit={handleSaveReview}
+        onCancel={() => setReviewVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 24,
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  nextEpisode: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  nextEpisodeInfo: {
+    flex: 1,
+  },
+  nextEpisodeLabel: {
+    color: '#999',
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  nextEpisodeText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  nextEpisodeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  caughtUpText: {
+    color: '#4CAF50',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  season: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  seasonHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  seasonInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  seasonName: {
+    color: '#fff',
+    fontSize: 15,
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  seasonCount: {
+    color: '#999',
+    fontSize: 13,
+    marginLeft: 12,
+  },
+  seasonToggle: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  episodesLoading: {
+    marginVertical: 12,
+  },
+  episode: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingLeft: 26,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#666',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  episodeName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  episodeNameWatched: {
+    color: '#999',
+  },
+  episodeDate: {
+    color: '#666',
+    fontSize: 12,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Pressable, Modal, ScrollView, Image, StyleSheet } from 'react-native';
+import { UserListFields, ListItem } from '../../lib/listStore';
+import { getMediaKey } from '../../lib/media';
+
+type ListFormModalProps = {
+  visible: boolean;
+  // Editing an existing list when set, creating a new one otherwise
+  initial?: UserListFields;
+  // Titles of the list, whose posters can be picked as its cover
+  items?: ListItem[];
+  onSubmit: (fields: UserListFields) => void;
+  onCancel: () => void;
+};
+
+// Name, description and cover of a custom list
+export default function ListFormModal({ visible, initial, items = [], onSubmit, onCancel }: ListFormModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [coverPath, setCoverPath] = useState<string | undefined>(undefined);
+
+  // Start from the saved values every time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setName(initial?.name || '');
+    setDescription(initial?.description || '');
+    setCoverPath(initial?.cover_path);
+  }, [visible, initial?.name, initial?.description, initial?.cover_path]);
+
+  const posters = items.filter(item => item.poster_path);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      cover_path: coverPath
+    });
+  };
+
+  return (
+    <Modal animationType="fade" transparent={true} visible={visible} onRequestClose={onCancel}>
+      <Pressable style={styles.overlay} onPress={onCancel}>
+        {/* Swallow presses inside the dialog so they don't close it */}
+        <Pressable style={styles.dialog} onPress={() => {}}>
+          <Text style={styles.heading}>{initial ? 'Edit list' : 'New list'}</Text>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Halloween marathon"
+            placeholderTextColor="#666"
+            maxLength={100}
+          />
+
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.descriptionInput]}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="What is this list for? (optional)"
+            placeholderTextColor="#666"
+            multiline
+            maxLength={1000}
+          />
+
+          {posters.length > 0 && (
+            <>
+              <Text style={styles.label}>Cover</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <TouchableOpacity
+                  style={[styles.coverOption, styles.coverAuto, !coverPath && styles.coverSelected]}
+                  onPress={() => setCoverPath(undefined)}
+                >
+                  <Text style={styles.coverAutoText}>First title</Text>
+                </TouchableOpacity>
+                {posters.map(item => (
+                  <TouchableOpacity
+                    key={getMediaKey(item)}
+                    style={[styles.coverOption, coverPath === item.poster_path && styles.coverSelected]}
+                    onPress={() => setCoverPath(item.poster_path || undefined)}
+                  >
+                    <Image
+                      source={{ uri: `https://image.tmdb.org/t/p/w154${item.poster_path}` }}
+                      style={styles.coverImage}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onCancel}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, !name.trim() && styles.primaryButtonDisabled]}
+              onPress={handleSave}
+              disabled={!name.trim()}
+            >
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  dialog: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 360,
+  },
+  heading: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  label: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    color: '#fff',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  descriptionInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  coverOption: {
+    width: 54,
+    height: 80,
+    borderRadius: 6,
+    overflow: 'hidden',
+    marginRight: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  coverSelected: {
+    borderColor: '#8c52ff',
+  },
+  coverAuto: {
+    backgroundColor: '#2a2a2a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  coverAutoText: {
+    color: '#999',
+    fontSize: 11,
+    textAlign: 'center',
+  },
+  coverImage: {
+    width: '100%',
+    height: '100%',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    color: '#ccc',
+    fontSize: 15,
+  },
+  primaryButton: {
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Toast from 'react-native-toast-message';
+import { useListStore, ListInvitation } from '../../lib/listStore';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+// Invitations to other users' lists, answered right from the Watchlist tab
+export default function ListInvitationsBanner() {
+  const invitations = useListStore(state => state.invitations);
+  const { acceptInvitation, declineInvitation } = useListStore();
+
+  if (invitations.length === 0) return null;
+
+  const handleAccept = async (invitation: ListInvitation) => {
+    const accepted = await acceptInvitation(invitation.id);
+    showToast(
+      accepted ? `You joined "${invitation.list_name}"` : `Failed to join "${invitation.list_name}"`,
+      accepted ? 'success' : 'error'
+    );
+  };
+
+  const handleDecline = async (invitation: ListInvitation) => {
+    const declined = await declineInvitation(invitation.id);
+    if (!declined) {
+      showToast('Failed to decline the invitation', 'error');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {invitations.map(invitation => (
+        <View key={invitation.id} style={styles.invitation}>
+          <Text style={styles.text} numberOfLines={2}>
+            <Text style={styles.bold}>{invitation.invited_by_email?.split('@')[0] || 'Someone'}</Text>
+            {' invited you to '}
+            <Text style={styles.bold}>{invitation.list_name}</Text>
+          </Text>
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.declineButton} onPress={() => handleDecline(invitation)}>
+              <Text style={styles.declineText}>Decline</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.acceptButton} onPress={() => handleAccept(invitation)}>
+              <Text style={styles.acceptText}>Join</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  invitation: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: '#8c52ff',
+    padding: 12,
+    marginBottom: 8,
+  },
+  text: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+  bold: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  declineButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  declineText: {
+    color: '#999',
+  },
+  acceptButton: {
+    backgroundColor: '#8c52ff',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+  },
+  acceptText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { View, Text, Image, ScrollView, TouchableOpacity, Modal, StyleSheet, Linking } from 'react-native';
+import { Play, X } from 'lucide-react-native';
+import type { TMDbImage, TMDbVideo } from '../../lib/tmdb';
+import { getVideoThumbnail, getVideoUrl } from '../../lib/mediaDetails';
+
+// Keep the strip light, the full sets can run into the hundreds
+const MAX_VIDEOS = 10;
+const MAX_IMAGES = 20;
+
+type MediaGalleryProps = {
+  videos: TMDbVideo[];
+  images: TMDbImage[];
+};
+
+// Trailers and stills of a title; videos open on YouTube, stills in a full screen viewer
+export default function MediaGallery({ videos, images }: MediaGalleryProps) {
+  const [viewing, setViewing] = useState<TMDbImage | null>(null);
+
+  if (videos.length === 0 && images.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.heading}>Videos & Images</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {videos.slice(0, MAX_VIDEOS).map(video => (
+          <TouchableOpacity
+            key={video.id}
+            style={styles.tile}
+            onPress={() => Linking.openURL(getVideoUrl(video))}
+          >
+            <Image source={{ uri: getVideoThumbnail(video) }} style={styles.image} resizeMode="cover" />
+            <View style={styles.playOverlay}>
+              <Play size={28} color="#fff" fill="#fff" />
+            </View>
+            <Text style={styles.caption} numberOfLines={1}>{video.type}: {video.name}</Text>
+          </TouchableOpacity>
+        ))}
+        {images.slice(0, MAX_IMAGES).map(image => (
+          <TouchableOpacity key={image.file_path} style={styles.tile} onPress={() => setViewing(image)}>
+            <Image
+              source={{ uri: `https://image.tmdb.org/t/p/w500${image.file_path}` }}
+              style={styles.image}
+              resizeMode="cover"
+            />
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Modal visible={viewing !== null} transparent animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewer}>
+          <TouchableOpacity style={styles.closeButton} onPress={() => setViewing(null)}>
+            <X size={24} color="#fff" />
+          </TouchableOpacity>
+          {viewing && (
+            <Image
+              source={{ uri: `https://image.tmdb.org/t/p/original${viewing.file_path}` }}
+              style={[styles.fullImage, { aspectRatio: viewing.aspect_ratio }]}
+              resizeMode="contain"
+            />
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 24,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  tile: {
+    width: 240,
+    marginRight: 12,
+  },
+  image: {
+    width: 240,
+    height: 135,
+    borderRadius: 8,
+    backgroundColor: '#1E1E1E',
+  },
+  playOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: 240,
+    height: 135,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    borderRadius: 8,
+  },
+  caption: {
+    color: '#ccc',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 16,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1,
+  },
+  fullImage: {
+    width: '100%',
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Pressable, Modal, ScrollView, StyleSheet } from 'react-native';
+import { UserPlus, X } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useListStore, UserList } from '../../lib/listStore';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 2000, // 2 seconds
+    autoHide: true,
+  });
+};
+
+type MembersModalProps = {
+  visible: boolean;
+  list: UserList;
+  // Signed-in user, to tell them apart in the member list
+  userId: string | null;
+  // Called after the user left the list
+  onLeave: () => void;
+  onClose: () => void;
+};
+
+// Members of a list: the owner invites people by email and removes editors, editors can leave
+export default function MembersModal({ visible, list, userId, onLeave, onClose }: MembersModalProps) {
+  const { inviteMember, cancelInvitation, removeMember, leaveList } = useListStore();
+  const [email, setEmail] = useState('');
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setEmail('');
+    setInviteError(null);
+  }, [visible]);
+
+  const isOwner = list.role === 'owner';
+  const members = list.members || [];
+  const invitations = list.invitations || [];
+
+  const handleInvite = async () => {
+    const address = email.trim();
+    if (!address || inviting) return;
+
+    setInviting(true);
+    const error = await inviteMember(list.id, address);
+    setInviting(false);
+
+    if (error) {
+      setInviteError(error);
+    } else {
+      setEmail('');
+      showToast(`Invitation sent to ${address}`);
+    }
+  };
+
+  const handleRemove = async (memberId: string, name: string) => {
+    const removed = await removeMember(list.id, memberId);
+    if (!removed) {
+      showToast(`Failed to remove ${name}`, 'error');
+    }
+  };
+
+  const handleCancelInvitation = async (invitationId: string, address: string) => {
+    const cancelled = await cancelInvitation(list.id, invitationId);
+    if (!cancelled) {
+      showToast(`Failed to cancel the invitation to ${address}`, 'error');
+    }
+  };
+
+  const handleLeave = async () => {
+    const left = await leaveList(list.id);
+    if (left) {
+      showToast(`You left "${list.name}"`);
+      onLeave();
+    } else {
+      showToast(`Failed to leave "${list.name}"`, 'error');
+    }
+  };
+
+  return (
+    <Modal animationType="fade" transparent={true} visible={visible} onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        {/* Swallow presses inside the dialog so they don't close it */}
+        <Pressable style={styles.dialog} onPress={() => {}}>
+          <Text style={styles.heading}>Members</Text>
+          <Text style={styles.title} numberOfLines={2}>{list.name}</Text>
+
+          <ScrollView style={styles.members}>
+            {members.map(member => (
+              <View key={member.user_id} style={styles.memberRow}>
+                <Text style={styles.memberEmail} numberOfLines={1}>
+                  {member.email || 'Unknown'}{member.user_id === userId ? ' (you)' : ''}
+                </Text>
+                <Text style={styles.memberRole}>{member.role === 'owner' ? 'Owner' : 'Editor'}</Text>
+                {isOwner && member.role !== 'owner' && (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => handleRemove(member.user_id, member.email || 'member')}
+                  >
+                    <X size={16} color="#999" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+
+            {invitations.map(invitation => (
+              <View key={invitation.id} style={styles.memberRow}>
+                <Text style={[styles.memberEmail, styles.pending]} numberOfLines={1}>{invitation.email}</Text>
+                <Text style={styles.memberRole}>Invited</Text>
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => handleCancelInvitation(invitation.id, invitation.email)}
+                >
+                  <X size={16} color="#999" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+
+          {isOwner ? (
+            <>
+              <View style={styles.inviteRow}>
+                <TextInput
+                  style={styles.input}
+                  value={email}
+                  onChangeText={(value) => {
+                    setEmail(value);
+                    setInviteError(null);
+                  }}
+                  placeholder="Invite by email"
+                  placeholderTextColor="#666"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="email-address"
+                  onSubmitEditing={handleInvite}
+                />
+                <TouchableOpacity
+                  style={[styles.inviteButton, (!email.trim() || inviting) && styles.buttonDisabled]}
+                  onPress={handleInvite}
+                  disabled={!email.trim() || inviting}
+                >
+                  <UserPlus size={18} color="#fff" />
+                </TouchableOpacity>
+              </View>
+              {inviteError && <Text style={styles.errorText}>{inviteError}</Text>}
+              <Text style={styles.hint}>People you invite need a VibeWatch account with that email.</Text>
+            </>
+          ) : (
+            <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+              <Text style={styles.leaveButtonText}>Leave list</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  dialog: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 360,
+  },
+  heading: {
+    color: '#999',
+    fontSize: 13,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  members: {
+    maxHeight: 240,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  memberEmail: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+  },
+  pending: {
+    color: '#999',
+  },
+  memberRole: {
+    color: '#8c52ff',
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    color: '#fff',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  inviteButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#8c52ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  hint: {
+    color: '#777',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  leaveButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingVertical: 8,
+  },
+  leaveButtonText: {
+    color: '#ff4444',
+    fontSize: 15,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    marginTop: 20,
+  },
+  doneButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Pressable, Modal, StyleSheet } from 'react-native';
+import { Star, StarHalf } from 'lucide-react-native';
+import { UserItemFields } from '../../lib/supabase';
+
+export type ReviewFields = Pick<UserItemFields, 'rating' | 'review' | 'watched_date'>;
+
+type RateReviewModalProps = {
+  visible: boolean;
+  title: string;
+  initial?: ReviewFields;
+  // mark: the title is being marked as watched and the review can be skipped; edit: changing a saved review
+  mode?: 'mark' | 'edit';
+  onSubmit: (fields: ReviewFields) => void;
+  onCancel: () => void;
+};
+
+const STAR_COUNT = 10;
+const STAR_SIZE = 24;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// "2026-10-19" in the device's time zone
+const toDateInput = (date: Date) => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Today keeps the current time; other days are stored at local noon so they don't shift a day across time zones
+const fromDateInput = (value: string): string | null => {
+  if (!DATE_PATTERN.test(value)) return null;
+  if (value === toDateInput(new Date())) return new Date().toISOString();
+
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day, 12);
+  if (date.getMonth() !== month - 1 || date.getTime() > Date.now()) return null;
+  return date.toISOString();
+};
+
+// Rating (0.5 to 10 - tap the left half of a star for a half point), review and watched date
+export default function RateReviewModal({
+  visible,
+  title,
+  initial,
+  mode = 'mark',
+  onSubmit,
+  onCancel
+}: RateReviewModalProps) {
+  const [rating, setRating] = useState<number | undefined>(initial?.rating);
+  const [review, setReview] = useState(initial?.review || '');
+  const [dateInput, setDateInput] = useState(toDateInput(new Date()));
+  const [dateError, setDateError] = useState(false);
+
+  // Start from the saved values every time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setRating(initial?.rating);
+    setReview(initial?.review || '');
+    // Marking as watched (again) defaults to today
+    const savedDate = mode === 'edit' && initial?.watched_date ? new Date(initial.watched_date) : new Date();
+    setDateInput(toDateInput(savedDate));
+    setDateError(false);
+  }, [visible, mode, initial?.rating, initial?.review, initial?.watched_date]);
+
+  const handleSave = () => {
+    const watchedDate = fromDateInput(dateInput);
+    if (!watchedDate) {
+      setDateError(true);
+      return;
+    }
+
+    // Keep the saved time when the day didn't change
+    const unchanged = mode === 'edit' && initial?.watched_date &&
+      toDateInput(new Date(initial.watched_date)) === dateInput;
+
+    onSubmit({
+      rating,
+      review: review.trim() || undefined,
+      watched_date: unchanged ? initial?.watched_date : watchedDate
+    });
+  };
+
+  const handleSkip = () => {
+    onSubmit({ watched_date: new Date().toISOString() });
+  };
+
+  const renderStar = (index: number) => {
+    const value = index + 1;
+    const filled = rating !== undefined && rating >= value;
+    const half = !filled && rating !== undefined && rating >= value - 0.5;
+
+    return (
+      <View key={index} style={styles.star}>
+        <Star size={STAR_SIZE} color="#FFD700" fill={filled ? '#FFD700' : 'transparent'} />
+        {half && (
+          <View style={styles.halfStar}>
+            <StarHalf size={STAR_SIZE} color="#FFD700" fill="#FFD700" />
+          </View>
+        )}
+        <Pressable style={[styles.starHalfTarget, styles.starLeft]} onPress={() => setRating(value - 0.5)} />
+        <Pressable style={[styles.starHalfTarget, styles.starRight]} onPress={() => setRating(value)} />
+      </View>
+    );
+  };
+
+  return (
+    <Modal animationType="fade" transparent={true} visible={visible} onRequestClose={onCancel}>
+      <Pressable style={styles.overlay} onPress={onCancel}>
+        {/* Swallow presses inside the dialog so they don't close it */}
+        <Pressable style={styles.dialog} onPress={() => {}}>
+          <Text style={styles.heading}>{mode === 'mark' ? 'Watched' : 'Your review'}</Text>
+          <Text style={styles.title} numberOfLines={2}>{title}</Text>
+
+          <View style={styles.ratingHeader}>
+            <Text style={styles.label}>Rating</Text>
+            <Text style={styles.ratingValue}>
+              {rating !== undefined ? `${rating.toFixed(1)} / 10` : 'Not rated'}
+            </Text>
+          </View>
+          <View style={styles.stars}>
+            {Array.from({ length: STAR_COUNT }, (_, index) => renderStar(index))}
+          </View>
+          {rating !== undefined && (
+            <TouchableOpacity onPress={() => setRating(undefined)}>
+              <Text style={styles.clearText}>Clear rating</Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.label}>Review</Text>
+          <TextInput
+            style={[styles.input, styles.reviewInput]}
+            value={review}
+            onChangeText={setReview}
+            placeholder="What did you think? (optional)"
+            placeholderTextColor="#666"
+            multiline
+            maxLength={5000}
+          />
+
+          <Text style={styles.label}>Watched on</Text>
+          <TextInput
+            style={[styles.input, dateError && styles.inputError]}
+            value={dateInput}
+            onChangeText={(value) => {
+              setDateInput(value);
+              setDateError(false);
+            }}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor="#666"
+            maxLength={10}
+          />
+          {dateError && <Text style={styles.errorText}>Enter a past date as YYYY-MM-DD</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={mode === 'mark' ? handleSkip : onCancel}>
+              <Text style={styles.secondaryButtonText}>{mode === 'mark' ? 'Skip' : 'Cancel'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  dialog: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 360,
+  },
+  heading: {
+    color: '#999',
+    fontSize: 13,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  ratingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  ratingValue: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  stars: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  star: {
+    width: STAR_SIZE + 4,
+    height: STAR_SIZE + 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  halfStar: {
+    position: 'absolute',
+    top: 2,
+    left: 2,
+  },
+  starHalfTarget: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: '50%',
+  },
+  starLeft: {
+    left: 0,
+  },
+  starRight: {
+    right: 0,
+  },
+  clearText: {
+    color: '#999',
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    color: '#fff',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  reviewInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderWidth: 1,
+    borderColor: '#ff4444',
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    color: '#ccc',
+    fontSize: 15,
+  },
+  primaryButton: {
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
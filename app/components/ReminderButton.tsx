@@ -0,0 +1,67 @@
+import React from 'react';
+import { TouchableOpacity, Platform, StyleProp, ViewStyle } from 'react-native';
+import { Bell, BellRing } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { LibraryItem, useLibraryStore } from '../../lib/libraryStore';
+import { getPreferences, useNotificationStore } from '../../lib/notificationStore';
+import { requestReminderPermission, rescheduleReminders } from '../../lib/reminders';
+import { getMediaKey } from '../../lib/media';
+
+// Function to show toast
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 2000,
+    autoHide: true,
+  });
+};
+
+type ReminderButtonProps = {
+  item: LibraryItem;
+  style?: StyleProp<ViewStyle>;
+};
+
+// Bell that turns release and new episode reminders on or off for a title
+export default function ReminderButton({ item, style }: ReminderButtonProps) {
+  const userId = useLibraryStore(state => state.lastSyncUserId);
+  const preferences = useNotificationStore(state => state.preferences);
+  const toggleTitle = useNotificationStore(state => state.toggleTitle);
+
+  const isOn = getPreferences(preferences, userId).titles.includes(getMediaKey(item));
+
+  const handlePress = async () => {
+    if (!userId) {
+      showToast('Sign in to get reminders', 'error');
+      return;
+    }
+
+    // Reminders are local notifications, so the device has to allow them first
+    if (!isOn && Platform.OS !== 'web' && !(await requestReminderPermission())) {
+      showToast('Allow notifications in your settings to get reminders', 'error');
+      return;
+    }
+
+    const saved = await toggleTitle(userId, item);
+    if (!saved) {
+      showToast('Failed to update reminder', 'error');
+      return;
+    }
+
+    rescheduleReminders(userId, useLibraryStore.getState().items);
+    if (isOn) {
+      showToast(`Reminders off for "${item.title}"`, 'info');
+    } else {
+      showToast(item.media_type === 'movie'
+        ? `We'll remind you when "${item.title}" comes out`
+        : `We'll remind you of new episodes of "${item.title}"`);
+    }
+  };
+
+  return (
+    <TouchableOpacity style={style} onPress={handlePress}>
+      {isOn ? <BellRing size={24} color="#FFC107" /> : <Bell size={24} color="#fff" />}
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  Modal,
+  Switch,
+  Share,
+  Platform,
+  ActivityIndicator,
+  StyleSheet
+} from 'react-native';
+import { Share2 } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useProfileStore } from '../../lib/profileStore';
+import { getShareUrl, isValidHandle, normalizeHandle } from '../../lib/sharing';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+type ShareModalProps = {
+  visible: boolean;
+  // Name of the list being shared
+  title: string;
+  isPublic: boolean;
+  // Slug of the list; the share URL is unknown until the list has been published once
+  slug?: string;
+  onTogglePublic: (isPublic: boolean) => Promise<boolean>;
+  onClose: () => void;
+};
+
+// Publish a list at a public URL. Users pick a handle the first time they share something.
+export default function ShareModal({ visible, title, isPublic, slug, onTogglePublic, onClose }: ShareModalProps) {
+  const { profile, isLoading, loadProfile, saveProfile } = useProfileStore();
+  const [handle, setHandle] = useState('');
+  const [handleError, setHandleError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setHandle('');
+    setHandleError(null);
+    loadProfile();
+  }, [visible, loadProfile]);
+
+  const url = profile && slug ? getShareUrl(profile.handle, slug) : null;
+
+  const handleSaveHandle = async () => {
+    const normalized = normalizeHandle(handle);
+    if (!isValidHandle(normalized)) {
+      setHandleError('3 to 30 letters, digits or underscores');
+      return;
+    }
+
+    setSaving(true);
+    const error = await saveProfile({ handle: normalized });
+    setSaving(false);
+    setHandleError(error);
+  };
+
+  const handleToggle = async (value: boolean) => {
+    setSaving(true);
+    const saved = await onTogglePublic(value);
+    setSaving(false);
+    if (!saved) {
+      showToast(`Failed to ${value ? 'share' : 'unshare'} "${title}"`, 'error');
+    }
+  };
+
+  // Copy the link on web, open the share sheet on devices
+  const handleShareLink = async () => {
+    if (!url) return;
+
+    try {
+      if (Platform.OS === 'web' && typeof navigator !== 'undefined' && navigator.clipboard) {
+        await navigator.clipboard.writeText(url);
+        showToast('Link copied');
+      } else {
+        await Share.share({ message: `${title} on VibeWatch: ${url}`, url });
+      }
+    } catch (error) {
+      console.error('Failed to share link:', error);
+      showToast('Failed to share link', 'error');
+    }
+  };
+
+  return (
+    <Modal animationType="fade" transparent={true} visible={visible} onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        {/* Swallow presses inside the dialog so they don't close it */}
+        <Pressable style={styles.dialog} onPress={() => {}}>
+          <Text style={styles.heading}>Share list</Text>
+          <Text style={styles.title} numberOfLines={2}>{title}</Text>
+
+          {isLoading && !profile ? (
+            <ActivityIndicator color="#8c52ff" style={styles.loading} />
+          ) : !profile ? (
+            <>
+              <Text style={styles.text}>
+                Pick a handle first. Your shared lists will live under it.
+              </Text>
+              <View style={styles.handleRow}>
+                <Text style={styles.handlePrefix}>@</Text>
+                <TextInput
+                  style={styles.input}
+                  value={handle}
+                  onChangeText={(value) => {
+                    setHandle(value);
+                    setHandleError(null);
+                  }}
+                  placeholder="movie_night"
+                  placeholderTextColor="#666"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  maxLength={30}
+                  onSubmitEditing={handleSaveHandle}
+                />
+              </View>
+              {handleError && <Text style={styles.errorText}>{handleError}</Text>}
+              <TouchableOpacity
+                style={[styles.primaryButton, (!handle.trim() || saving) && styles.buttonDisabled]}
+                onPress={handleSaveHandle}
+                disabled={!handle.trim() || saving}
+              >
+                <Text style={styles.primaryButtonText}>Save handle</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text style={styles.switchLabel}>Public link</Text>
+                  <Text style={styles.switchHint}>Anyone with the link can see this list, no account needed.</Text>
+                </View>
+                <Switch
+                  value={isPublic}
+                  onValueChange={handleToggle}
+                  disabled={saving}
+                  trackColor={{ false: '#444', true: '#8c52ff' }}
+                  thumbColor="#fff"
+                />
+              </View>
+
+              {isPublic && url && (
+                <View style={styles.linkBox}>
+                  <Text style={styles.linkText} numberOfLines={2} selectable>{url}</Text>
+                  <TouchableOpacity style={styles.shareButton} onPress={handleShareLink}>
+                    <Share2 size={18} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </>
+          )}
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  dialog: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 360,
+  },
+  heading: {
+    color: '#999',
+    fontSize: 13,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  loading: {
+    marginVertical: 16,
+  },
+  text: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  handleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  handlePrefix: {
+    color: '#999',
+    fontSize: 16,
+    marginRight: 6,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    color: '#fff',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  primaryButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#8c52ff',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  switchHint: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  linkBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 16,
+  },
+  linkText: {
+    flex: 1,
+    color: '#8c52ff',
+    fontSize: 13,
+  },
+  shareButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#8c52ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    marginTop: 20,
+  },
+  doneButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,206 @@
+import React from 'react';
+import { View, Text, FlatList, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Film, Tv, Star, X, Users, Popcorn } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useListStore, getMemberName, ListItem, UserList } from '../../lib/listStore';
+import { getReleaseYear, getMediaKey } from '../../lib/media';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+type SharedListViewProps = {
+  list: UserList;
+  // Signed-in user, shown as "you" in "added by" labels
+  userId: string | null;
+};
+
+// A list shared with other members, shown on the Watchlist tab next to the personal watchlist
+export default function SharedListView({ list, userId }: SharedListViewProps) {
+  const router = useRouter();
+  const removeFromList = useListStore(state => state.removeFromList);
+  const members = list.members || [];
+
+  const openList = () => {
+    router.push({ pathname: '/lists/[id]', params: { id: list.id } });
+  };
+
+  const handleRemove = async (item: ListItem) => {
+    const removed = await removeFromList(list.id, item);
+    if (!removed) {
+      showToast(`Failed to remove "${item.title}"`, 'error');
+    }
+  };
+
+  const getAddedBy = (item: ListItem) => {
+    if (!item.added_by) return '';
+    if (item.added_by === userId) return 'Added by you';
+    return `Added by ${getMemberName(members.find(member => member.user_id === item.added_by))}`;
+  };
+
+  const renderItem = ({ item }: { item: ListItem }) => (
+    <TouchableOpacity
+      style={styles.itemContainer}
+      onPress={() => {
+        router.push({
+          pathname: '/details/[type]/[id]',
+          params: { type: item.media_type, id: item.id.toString() }
+        });
+      }}
+    >
+      <Image
+        source={{
+          uri: item.poster_path
+            ? `https://image.tmdb.org/t/p/w154${item.poster_path}`
+            : 'https://via.placeholder.com/154x231?text=No+Poster',
+        }}
+        style={styles.poster}
+        resizeMode="cover"
+      />
+      <View style={styles.itemContent}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemTitle} numberOfLines={2}>{item.title}</Text>
+          <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(item)}>
+            <X size={18} color="#999" />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.itemMetaRow}>
+          {item.media_type === 'movie' ? <Film size={12} color="#999" /> : <Tv size={12} color="#999" />}
+          <Text style={styles.itemMeta}>{getReleaseYear(item)}</Text>
+          <Star size={12} color="#FFD700" fill="#FFD700" />
+          <Text style={styles.itemMeta}>{item.vote_average.toFixed(1)}</Text>
+        </View>
+        <Text style={styles.addedBy} numberOfLines={1}>{getAddedBy(item)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <FlatList
+      data={list.items}
+      renderItem={renderItem}
+      keyExtractor={(item) => getMediaKey(item)}
+      contentContainerStyle={styles.list}
+      ListHeaderComponent={
+        <>
+          <TouchableOpacity style={styles.membersRow} onPress={openList}>
+            <Users size={14} color="#8c52ff" />
+            <Text style={styles.membersText} numberOfLines={1}>
+              {members.map(member => member.user_id === userId ? 'You' : getMemberName(member)).join(', ')}
+            </Text>
+            <Text style={styles.manageText}>Manage</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.watchTogetherButton}
+            onPress={() => router.push({ pathname: '/watch-together', params: { listId: list.id } })}
+          >
+            <Popcorn size={16} color="#fff" />
+            <Text style={styles.watchTogetherText}>Watch Together</Text>
+          </TouchableOpacity>
+        </>
+      }
+      ListEmptyComponent={
+        <Text style={styles.emptyStateText}>
+          Nothing here yet. Add titles with the list button in search or on a details page.
+        </Text>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    paddingBottom: 16,
+  },
+  membersRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  membersText: {
+    flex: 1,
+    color: '#ccc',
+    fontSize: 13,
+    marginLeft: 6,
+  },
+  manageText: {
+    color: '#8c52ff',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  watchTogetherButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: '#8c52ff',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  watchTogetherText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  itemContainer: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 16,
+    flexDirection: 'row',
+    height: 96,
+  },
+  poster: {
+    width: 64,
+    height: 96,
+  },
+  itemContent: {
+    flex: 1,
+    padding: 10,
+    justifyContent: 'space-between',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  itemTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  removeButton: {
+    padding: 2,
+    marginLeft: 8,
+  },
+  itemMetaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemMeta: {
+    color: '#999',
+    fontSize: 12,
+    marginLeft: 4,
+    marginRight: 12,
+  },
+  addedBy: {
+    color: '#8c52ff',
+    fontSize: 12,
+  },
+  emptyStateText: {
+    color: '#999',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
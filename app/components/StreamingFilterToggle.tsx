@@ -0,0 +1,58 @@
+import React from 'react';
+import { Text, TouchableOpacity, ActivityIndicator, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { useRouter } from 'expo-router';
+import { MonitorPlay } from 'lucide-react-native';
+
+type StreamingFilterToggleProps = {
+  enabled: boolean;
+  hasServices: boolean;
+  isLoading: boolean;
+  onChange: (enabled: boolean) => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+// "On my services" chip for lists and grids. Without any services picked yet it opens
+// the streaming settings instead.
+export default function StreamingFilterToggle({ enabled, hasServices, isLoading, onChange, style }: StreamingFilterToggleProps) {
+  const router = useRouter();
+  const active = enabled && hasServices;
+
+  return (
+    <TouchableOpacity
+      style={[styles.chip, active && styles.chipActive, style]}
+      onPress={() => hasServices ? onChange(!enabled) : router.push('/streaming')}
+    >
+      <MonitorPlay size={14} color="#fff" />
+      <Text style={[styles.text, active && styles.textActive]}>
+        {hasServices ? 'On my services' : 'Pick your services'}
+      </Text>
+      {isLoading && <ActivityIndicator size="small" color="#fff" style={styles.spinner} />}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 50,
+    backgroundColor: '#2a2a2a',
+  },
+  chipActive: {
+    backgroundColor: '#8c52ff',
+  },
+  text: {
+    color: '#fff',
+    fontSize: 13,
+    marginLeft: 6,
+  },
+  textActive: {
+    fontWeight: 'bold',
+  },
+  spinner: {
+    marginLeft: 6,
+  },
+});
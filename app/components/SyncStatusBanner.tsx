@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { CloudOff, AlertTriangle } from 'lucide-react-native';
+import { useOutboxStore, selectPendingCount, selectFailedCount } from '../../lib/outboxStore';
+
+// Shows how many library changes haven't reached the server yet
+export default function SyncStatusBanner() {
+  const pendingCount = useOutboxStore(selectPendingCount);
+  const failedCount = useOutboxStore(selectFailedCount);
+  const retryFailed = useOutboxStore(state => state.retryFailed);
+
+  if (failedCount > 0) {
+    return (
+      <View style={[styles.banner, styles.failedBanner]}>
+        <AlertTriangle size={16} color="#ff4444" />
+        <Text style={styles.text}>
+          {failedCount} change{failedCount !== 1 ? 's' : ''} couldn't be saved
+        </Text>
+        <TouchableOpacity onPress={retryFailed}>
+          <Text style={styles.retryText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <View style={styles.banner}>
+        <CloudOff size={16} color="#999" />
+        <Text style={styles.text}>
+          {pendingCount} change{pendingCount !== 1 ? 's' : ''} waiting to sync
+        </Text>
+      </View>
+    );
+  }
+
+  return null;
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginBottom: 16,
+  },
+  failedBanner: {
+    borderWidth: 1,
+    borderColor: '#ff4444',
+  },
+  text: {
+    color: '#ccc',
+    fontSize: 13,
+    marginLeft: 8,
+    flex: 1,
+  },
+  retryText: {
+    color: '#ff6b6b',
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
+});
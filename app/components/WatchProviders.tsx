@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, Linking } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Check } from 'lucide-react-native';
+import { getWatchProviders, TMDbRegionProviders, TMDbWatchProvider } from '../../lib/tmdb';
+import { useStreamingStore, getStreamingProviders } from '../../lib/streamingStore';
+import type { MediaRef } from '../../lib/media';
+
+type WatchProvidersProps = {
+  media: MediaRef;
+};
+
+// Where a title streams, rents and sells in the user's region, their own services marked
+export default function WatchProviders({ media }: WatchProvidersProps) {
+  const router = useRouter();
+  const region = useStreamingStore(state => state.region);
+  const services = useStreamingStore(state => state.services);
+  const [providers, setProviders] = useState<TMDbRegionProviders | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(false);
+
+    getWatchProviders(media.media_type, media.id)
+      .then(results => {
+        if (!cancelled) setProviders(results[region] || null);
+      })
+      .catch(error => console.error('Failed to fetch watch providers:', error))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [media.media_type, media.id, region]);
+
+  if (!loaded) return null;
+
+  const isMine = (provider: TMDbWatchProvider) =>
+    services.some(service => service.provider_id === provider.provider_id);
+
+  const rows: { label: string; providers: TMDbWatchProvider[] }[] = [
+    { label: 'Stream', providers: getStreamingProviders(providers || undefined) },
+    { label: 'Rent', providers: providers?.rent || [] },
+    { label: 'Buy', providers: providers?.buy || [] }
+  ].filter(row => row.providers.length > 0);
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.headingRow}>
+        <Text style={styles.heading}>Where to Watch</Text>
+        <TouchableOpacity onPress={() => router.push('/streaming')}>
+          <Text style={styles.region}>{region}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {rows.length === 0 ? (
+        <Text style={styles.emptyText}>Not available to stream, rent or buy in {region}.</Text>
+      ) : (
+        rows.map(row => (
+          <View key={row.label} style={styles.row}>
+            <Text style={styles.rowLabel}>{row.label}</Text>
+            <View style={styles.badges}>
+              {row.providers.map(provider => (
+                <TouchableOpacity
+                  key={provider.provider_id}
+                  style={[styles.badge, isMine(provider) && styles.badgeMine]}
+                  onPress={() => providers?.link && Linking.openURL(providers.link)}
+                >
+                  <Image
+                    source={{ uri: `https://image.tmdb.org/t/p/w92${provider.logo_path}` }}
+                    style={styles.logo}
+                  />
+                  {isMine(provider) && (
+                    <View style={styles.mineMark}>
+                      <Check size={10} color="#fff" />
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ))
+      )}
+      <Text style={styles.attribution}>Data by JustWatch</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 24,
+  },
+  headingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  region: {
+    color: '#8c52ff',
+    fontSize: 14,
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  rowLabel: {
+    width: 60,
+    color: '#999',
+    fontSize: 14,
+    marginTop: 10,
+  },
+  badges: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  badge: {
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  badgeMine: {
+    borderColor: '#8c52ff',
+  },
+  logo: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+  },
+  mineMark: {
+    position: 'absolute',
+    right: -4,
+    top: -4,
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#8c52ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  attribution: {
+    color: '#666',
+    fontSize: 11,
+    marginTop: 4,
+  },
+});
@@ -6,14 +6,32 @@ import {
   Image, 
   ScrollView, 
   TouchableOpacity, 
-  StatusBar 
+  StatusBar,
+  Linking
 } from 'react-native';
 import { useLocalSearchParams, useRouter, useNavigation } from 'expo-router';
-import { useWatchlistStore } from '../../../lib/watchlistStore';
-import { useWatchedStore } from '../../../lib/watchedStore';
-import { ArrowLeft, Plus, Check, Eye, RefreshCw } from 'lucide-react-native';
-import { searchContent, formatSearchResult } from '../../../lib/tmdb';
+import { useLibraryStore, LIBRARY_STATUS_LABELS } from '../../../lib/libraryStore';
+import { ArrowLeft, Plus, Check, Eye, RefreshCw, Play, X, ListPlus } from 'lucide-react-native';
+import { getFullDetails, TMDbFullDetails } from '../../../lib/tmdb';
+import { Media, MediaRef, toMedia, getReleaseYear, isMediaType, isSameMedia } from '../../../lib/media';
 import Toast from 'react-native-toast-message';
+import EpisodeTracker from '../../components/EpisodeTracker';
+import RateReviewModal, { ReviewFields } from '../../components/RateReviewModal';
+import AddToListModal from '../../components/AddToListModal';
+import CastList from '../../components/CastList';
+import MediaGallery from '../../components/MediaGallery';
+import WatchProviders from '../../components/WatchProviders';
+import ReminderButton from '../../components/ReminderButton';
+import { getWatchEvents } from '../../../lib/watchHistory';
+import { isTracked } from '../../../lib/calendar';
+import {
+  formatRuntime,
+  getCertification,
+  getDirectors,
+  getExternalLinks,
+  getVideos,
+  getWriters
+} from '../../../lib/mediaDetails';
 
 // Handler for toast notifications
 const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
@@ -29,55 +47,68 @@ const showToast = (message: string, type: 'success' | 'error' | 'info' = 'succes
 export default function DetailsScreen() {
   const { type, id } = useLocalSearchParams<{ type: string; id: string }>();
   const itemId = parseInt(id);
-  const [fetchedDetails, setFetchedDetails] = useState<any>(null);
+  // Titles are identified by media type + id - the same id can be both a movie and a TV show
+  const mediaRef: MediaRef | null = isMediaType(type) && !isNaN(itemId)
+    ? { media_type: type, id: itemId }
+    : null;
+  const [fetchedDetails, setFetchedDetails] = useState<Media | null>(null);
+  // Credits, videos, images, external ids and release dates for the sections below the header
+  const [fullDetails, setFullDetails] = useState<TMDbFullDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   const navigation = useNavigation();
   
-  // Get stores
-  const { items: watchlistItems, addItem: addToWatchlist, removeItem: removeFromWatchlist, hasItem: isInWatchlist } = useWatchlistStore();
-  const { items: watchedItems, addItem: addToWatched, removeItem: removeFromWatched, hasItem: isInWatched } = useWatchedStore();
+  // Get store
+  const {
+    items: libraryItems,
+    addItem,
+    removeItem,
+    markWatched,
+    rewatch,
+    setStatus,
+    updateReview,
+    removeWatchEvent
+  } = useLibraryStore();
+  const [reviewMode, setReviewMode] = useState<'mark' | 'edit' | null>(null);
+  const [listModalVisible, setListModalVisible] = useState(false);
   
-  // Find the item in watchlist or watched list
-  const watchlistItem = watchlistItems.find(i => i.id === itemId);
-  const watchedItem = watchedItems.find(i => i.id === itemId);
+  // Find the item in the library
+  const libraryItem = mediaRef ? libraryItems.find(i => isSameMedia(i, mediaRef)) : undefined;
+  const isWatched = libraryItem?.status === 'watched';
+  // Newest viewing first
+  const watchEvents = libraryItem ? getWatchEvents(libraryItem).reverse() : [];
   
-  // Get the item from any source - watchlist, watched, or fetched details
-  const item = watchlistItem || watchedItem || fetchedDetails;
+  // Get the item from any source - the library or fetched details
+  const item: Media | null = libraryItem || fetchedDetails;
 
-  // Fetch details if not in any list
+  // Fetch the full details. A title in the library shows right away from the stored copy
+  // and its extra sections fill in when the fetch returns.
   useEffect(() => {
     const fetchDetails = async () => {
-      if (!watchlistItem && !watchedItem) {
-        setLoading(true);
-        try {
-          // Fetch the details directly using the item ID and type
-          const response = await searchContent('', 1, type, itemId);
-          
-          if (response.results && response.results.length > 0) {
-            const found = response.results[0]; // Should be the specific item we requested
-            
-            if (found) {
-              const formatted = formatSearchResult(found);
-              if (formatted) {
-                setFetchedDetails(formatted);
-              } else {
-                setError('Could not format item details');
-              }
-            } else {
-              setError('Item not found');
-            }
-          } else {
-            setError('No results found');
-          }
-        } catch (error) {
-          console.error('Failed to fetch details:', error);
+      if (!mediaRef) {
+        setError('Invalid link');
+        setLoading(false);
+        return;
+      }
+
+      setLoading(!libraryItem);
+      try {
+        const details = await getFullDetails(mediaRef.media_type, mediaRef.id);
+        setFullDetails(details);
+
+        const formatted = toMedia(details);
+        if (formatted) {
+          setFetchedDetails(formatted);
+        } else if (!libraryItem) {
+          setError('Could not format item details');
+        }
+      } catch (error) {
+        console.error('Failed to fetch details:', error);
+        if (!libraryItem) {
           setError('Failed to load details');
-        } finally {
-          setLoading(false);
         }
-      } else {
+      } finally {
         setLoading(false);
       }
     };
@@ -86,41 +117,63 @@ export default function DetailsScreen() {
   }, [id, type]);
 
   // Handle adding to watchlist
-  const handleAddToWatchlist = () => {
+  const handleAddToWatchlist = async () => {
     if (!item) return;
     
-    // If in watched list, move to watchlist
-    if (isInWatched(itemId)) {
-      removeFromWatched(itemId);
-      showToast(`"${item.title}" moved from watched to watchlist`);
-    } else {
-      const added = addToWatchlist(item);
-      if (added) {
-        showToast(`"${item.title}" added to watchlist`);
-      }
+    const added = await addItem(item);
+    if (added) {
+      showToast(`"${item.title}" added to watchlist`);
     }
   };
   
-  // Handle marking as watched
-  const handleMarkAsWatched = () => {
+  // Handle starting a TV show
+  const handleStartWatching = async () => {
     if (!item) return;
     
-    // If in watchlist, remove from there
-    if (isInWatchlist(itemId)) {
-      removeFromWatchlist(itemId);
+    const started = await setStatus(item, 'watching');
+    if (started) {
+      showToast(`Watching "${item.title}"`);
     }
+  };
+  
+  // Handle marking as watched (a single status change, wherever the title was before)
+  const handleMarkAsWatched = async (fields: ReviewFields) => {
+    if (!item) return;
     
-    const added = addToWatched(item);
-    if (added) {
+    const marked = await markWatched(item, fields);
+    if (marked) {
       showToast(`"${item.title}" marked as watched`);
     }
   };
   
+  // Save the rating/review from the modal, marking the title as watched first if needed
+  const handleSubmitReview = async (fields: ReviewFields) => {
+    const mode = reviewMode;
+    setReviewMode(null);
+    if (!item) return;
+    
+    if (mode === 'mark') {
+      await handleMarkAsWatched(fields);
+    } else {
+      const saved = await updateReview(item, fields);
+      showToast(saved ? 'Review saved' : 'Failed to save review', saved ? 'success' : 'error');
+    }
+  };
+  
+  const handleRemoveWatchEvent = async (eventId: string) => {
+    if (!item) return;
+
+    const removed = await removeWatchEvent(item, eventId);
+    if (!removed) {
+      showToast('Failed to remove viewing', 'error');
+    }
+  };
+  
   // Handle removing from watchlist
-  const handleRemoveFromWatchlist = () => {
+  const handleRemoveFromWatchlist = async () => {
     if (!item) return;
     
-    removeFromWatchlist(itemId);
+    await removeItem(item);
     showToast(`"${item.title}" removed from watchlist`);
     
     // Make sure we keep the item details available after removing from watchlist
@@ -130,12 +183,13 @@ export default function DetailsScreen() {
   };
   
   // Handle moving back to watchlist (rewatch)
-  const handleRewatch = () => {
+  const handleRewatch = async () => {
     if (!item) return;
     
-    removeFromWatched(itemId);
-    addToWatchlist(item);
-    showToast(`"${item.title}" moved to watchlist for rewatching`);
+    const moved = await rewatch(item);
+    if (moved) {
+      showToast(`"${item.title}" moved to watchlist for rewatching`);
+    }
   };
 
   if (loading) {
@@ -161,6 +215,45 @@ export default function DetailsScreen() {
     );
   }
 
+  // Stored library copies can be missing fields, so the sections prefer the fetched details
+  const info: Media = fetchedDetails || item;
+
+  // Key facts: who made it, how long it runs, its age rating and release
+  const facts: { label: string; value: string }[] = [];
+  if (fullDetails) {
+    const directors = getDirectors(fullDetails);
+    if (directors.length > 0) {
+      facts.push({ label: info.media_type === 'tv' ? 'Created by' : 'Director', value: directors.join(', ') });
+    }
+    const writers = getWriters(fullDetails);
+    if (writers.length > 0) {
+      facts.push({ label: 'Writers', value: writers.slice(0, 3).join(', ') });
+    }
+  }
+  if (info.media_type === 'movie') {
+    if (info.runtime) facts.push({ label: 'Runtime', value: formatRuntime(info.runtime) });
+  } else {
+    if (info.number_of_seasons) {
+      facts.push({
+        label: 'Seasons',
+        value: `${info.number_of_seasons}${info.number_of_episodes ? ` (${info.number_of_episodes} episodes)` : ''}`
+      });
+    }
+    const episodeRuntime = info.episode_run_time?.[0];
+    if (episodeRuntime) facts.push({ label: 'Episodes', value: formatRuntime(episodeRuntime) });
+  }
+  if (fullDetails) {
+    const certification = getCertification(fullDetails);
+    if (certification) facts.push({ label: 'Rated', value: certification });
+    if (fullDetails.status) facts.push({ label: 'Status', value: fullDetails.status });
+  }
+  if (info.release_date) {
+    facts.push({
+      label: info.media_type === 'tv' ? 'First aired' : 'Released',
+      value: new Date(info.release_date).toLocaleDateString()
+    });
+  }
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="light-content" />
@@ -184,13 +277,13 @@ export default function DetailsScreen() {
           </TouchableOpacity>
           
           <View style={styles.actionButtons}>
-            {isInWatched(itemId) ? (
+            {isWatched ? (
               <TouchableOpacity style={styles.actionButton} onPress={handleRewatch}>
                 <RefreshCw size={24} color="#4CAF50" />
               </TouchableOpacity>
             ) : (
               <>
-                {isInWatchlist(itemId) ? (
+                {libraryItem ? (
                   <TouchableOpacity 
                     style={styles.actionButton} 
                     onPress={handleRemoveFromWatchlist}
@@ -203,11 +296,25 @@ export default function DetailsScreen() {
                   </TouchableOpacity>
                 )}
                 
-                <TouchableOpacity style={styles.actionButton} onPress={handleMarkAsWatched}>
+                {item.media_type === 'tv' && libraryItem?.status !== 'watching' && (
+                  <TouchableOpacity style={styles.actionButton} onPress={handleStartWatching}>
+                    <Play size={24} color="#FFC107" />
+                  </TouchableOpacity>
+                )}
+                
+                <TouchableOpacity style={styles.actionButton} onPress={() => setReviewMode('mark')}>
                   <Eye size={24} color="#2196F3" />
                 </TouchableOpacity>
               </>
             )}
+            
+            {libraryItem && isTracked(libraryItem) && (
+              <ReminderButton item={libraryItem} style={styles.actionButton} />
+            )}
+            
+            <TouchableOpacity style={styles.actionButton} onPress={() => setListModalVisible(true)}>
+              <ListPlus size={24} color="#8c52ff" />
+            </TouchableOpacity>
           </View>
         </View>
         
@@ -219,12 +326,102 @@ export default function DetailsScreen() {
       <ScrollView style={styles.content}>
         <Text style={styles.title}>{item.title}</Text>
         <Text style={styles.year}>
-          {new Date(item.release_date).getFullYear()}
+          {getReleaseYear(item)}
         </Text>
-        <Text style={styles.rating}>★ {item.vote_average.toFixed(1)}</Text>
+        <Text style={styles.rating}>
+          ★ {item.vote_average.toFixed(1)}
+          {item.vote_count ? <Text style={styles.voteCount}> ({item.vote_count.toLocaleString()} votes)</Text> : null}
+        </Text>
+        {libraryItem && (
+          <Text style={styles.status}>{LIBRARY_STATUS_LABELS[libraryItem.status]}</Text>
+        )}
+        
+        {fullDetails?.tagline ? <Text style={styles.tagline}>{fullDetails.tagline}</Text> : null}
+        {info.genres && info.genres.length > 0 && (
+          <Text style={styles.genres}>{info.genres.map(genre => genre.name).join(' · ')}</Text>
+        )}
+        {info.overview ? <Text style={styles.overview}>{info.overview}</Text> : null}
+        
+        {facts.length > 0 && (
+          <View style={styles.factsSection}>
+            {facts.map(fact => (
+              <View key={fact.label} style={styles.factRow}>
+                <Text style={styles.factLabel}>{fact.label}</Text>
+                <Text style={styles.factValue}>{fact.value}</Text>
+              </View>
+            ))}
+          </View>
+        )}
         
-        {/* Add more details here as needed */}
+        <WatchProviders media={item} />
+        
+        {watchEvents.length > 0 && libraryItem && (
+          <View style={styles.reviewSection}>
+            <View style={styles.reviewHeader}>
+              <Text style={styles.reviewHeading}>Your review</Text>
+              <TouchableOpacity onPress={() => setReviewMode('edit')}>
+                <Text style={styles.reviewEdit}>Edit</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.reviewRating}>
+              {libraryItem.rating !== undefined ? `★ ${libraryItem.rating.toFixed(1)} / 10` : 'Not rated'}
+            </Text>
+            {libraryItem.review ? <Text style={styles.reviewText}>{libraryItem.review}</Text> : null}
+            <Text style={styles.historyHeading}>
+              {watchEvents.length > 1 ? `Watched ${watchEvents.length} times` : 'Watched'}
+            </Text>
+            {watchEvents.map(event => (
+              <View key={event.id} style={styles.historyRow}>
+                <Text style={styles.reviewDate}>
+                  {new Date(event.watched_at).getTime() > 0
+                    ? new Date(event.watched_at).toLocaleDateString()
+                    : 'Date unknown'}
+                </Text>
+                {event.rating !== undefined && (
+                  <Text style={styles.historyRating}>★ {event.rating.toFixed(1)}</Text>
+                )}
+                {/* A watched title keeps at least one viewing */}
+                {(watchEvents.length > 1 || !isWatched) && (
+                  <TouchableOpacity style={styles.historyRemove} onPress={() => handleRemoveWatchEvent(event.id)}>
+                    <X size={14} color="#999" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+        
+        {item.media_type === 'tv' && <EpisodeTracker show={item} />}
+        
+        {fullDetails && (
+          <>
+            <CastList cast={fullDetails.credits?.cast || []} />
+            <MediaGallery videos={getVideos(fullDetails)} images={fullDetails.images?.backdrops || []} />
+            
+            <View style={styles.linksSection}>
+              <Text style={styles.sectionHeading}>Ratings & Links</Text>
+              <View style={styles.links}>
+                {getExternalLinks(fullDetails, item.media_type).map(link => (
+                  <TouchableOpacity key={link.label} style={styles.linkChip} onPress={() => Linking.openURL(link.url)}>
+                    <Text style={styles.linkText}>{link.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
       </ScrollView>
+      
+      <RateReviewModal
+        visible={reviewMode !== null}
+        title={item.title}
+        initial={libraryItem}
+        mode={reviewMode || 'mark'}
+        onSubmit={handleSubmitReview}
+        onCancel={() => setReviewMode(null)}
+      />
+      
+      <AddToListModal item={listModalVisible ? item : null} onClose={() => setListModalVisible(false)} />
     </View>
   );
 }
@@ -309,6 +506,134 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#FFD700',
   },
+  voteCount: {
+    fontSize: 13,
+    color: '#999',
+  },
+  status: {
+    fontSize: 14,
+    color: '#4CAF50',
+    marginTop: 8,
+  },
+  tagline: {
+    fontSize: 15,
+    fontStyle: 'italic',
+    color: '#ccc',
+    marginTop: 12,
+  },
+  genres: {
+    fontSize: 14,
+    color: '#8c52ff',
+    marginTop: 8,
+  },
+  overview: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#ddd',
+    marginTop: 12,
+  },
+  factsSection: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  factRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  factLabel: {
+    width: 100,
+    fontSize: 14,
+    color: '#999',
+  },
+  factValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  sectionHeading: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  linksSection: {
+    marginTop: 24,
+    marginBottom: 32,
+  },
+  links: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  linkChip: {
+    borderWidth: 1,
+    borderColor: '#444',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  linkText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  reviewSection: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  reviewHeading: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  reviewEdit: {
+    fontSize: 14,
+    color: '#ff6b6b',
+  },
+  reviewRating: {
+    fontSize: 15,
+    color: '#FFD700',
+  },
+  reviewText: {
+    fontSize: 14,
+    color: '#ccc',
+    marginTop: 8,
+  },
+  reviewDate: {
+    fontSize: 12,
+    color: '#999',
+  },
+  historyHeading: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#ccc',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  historyRating: {
+    fontSize: 12,
+    color: '#FFD700',
+    marginLeft: 8,
+  },
+  historyRemove: {
+    marginLeft: 'auto',
+    padding: 2,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,230 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, Users, Star } from 'lucide-react-native';
+import { useSocialStore, ActivityEvent } from '../lib/socialStore';
+
+const ACTIVITY_VERBS: Record<ActivityEvent['type'], string> = {
+  added: 'wants to watch',
+  watched: 'watched',
+  rated: 'rated'
+};
+
+// "5m", "3h", "2d", then the date
+function formatTimeAgo(date: string): string {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d`;
+  return new Date(date).toLocaleDateString();
+}
+
+// What the people the user follows added, watched and rated lately
+export default function FeedScreen() {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const { feed, following, isLoading, loadFeed } = useSocialStore();
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const renderEvent = ({ item: event }: { item: ActivityEvent }) => (
+    <TouchableOpacity
+      style={styles.event}
+      onPress={() => {
+        router.push({
+          pathname: '/details/[type]/[id]',
+          params: { type: event.media.media_type, id: event.media.id.toString() }
+        });
+      }}
+    >
+      <Image
+        source={{
+          uri: event.media.poster_path
+            ? `https://image.tmdb.org/t/p/w154${event.media.poster_path}`
+            : 'https://via.placeholder.com/154x231?text=No+Poster',
+        }}
+        style={styles.poster}
+      />
+      <View style={styles.eventContent}>
+        <Text style={styles.eventText} numberOfLines={3}>
+          <Text style={styles.handle}>@{event.handle || 'someone'}</Text>
+          {` ${ACTIVITY_VERBS[event.type]} `}
+          <Text style={styles.mediaTitle}>{event.media.title}</Text>
+        </Text>
+        <View style={styles.eventMeta}>
+          {event.rating !== undefined && (
+            <View style={styles.rating}>
+              <Star size={12} color="#FFD700" fill="#FFD700" />
+              <Text style={styles.ratingText}>{event.rating}</Text>
+            </View>
+          )}
+          <Text style={styles.time}>{formatTimeAgo(event.created_at)}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Activity</Text>
+        <TouchableOpacity style={styles.friendsButton} onPress={() => router.push('/friends')}>
+          <Users size={20} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading && feed.length === 0 ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#8c52ff" />
+        </View>
+      ) : (
+        <FlatList
+          data={feed}
+          renderItem={renderEvent}
+          keyExtractor={(event) => event.id.toString()}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={isLoading} onRefresh={loadFeed} tintColor="#8c52ff" />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>
+                {following.length === 0
+                  ? 'Follow friends to see what they add, watch and rate.'
+                  : 'Nothing new from the people you follow yet.'}
+              </Text>
+              {following.length === 0 && (
+                <TouchableOpacity style={styles.emptyStateButton} onPress={() => router.push('/friends')}>
+                  <Text style={styles.emptyStateButtonText}>Find Friends</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  friendsButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1E1E1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    flexGrow: 1,
+  },
+  event: {
+    flexDirection: 'row',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  poster: {
+    width: 54,
+    height: 81,
+  },
+  eventContent: {
+    flex: 1,
+    padding: 10,
+    justifyContent: 'space-between',
+  },
+  eventText: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+  handle: {
+    color: '#8c52ff',
+    fontWeight: 'bold',
+  },
+  mediaTitle: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  eventMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  ratingText: {
+    color: '#FFD700',
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  time: {
+    color: '#777',
+    fontSize: 12,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyStateText: {
+    color: '#999',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  emptyStateButton: {
+    marginTop: 16,
+    backgroundColor: '#8c52ff',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  emptyStateButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation } from 'expo-router';
+import { ArrowLeft, Search } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useSocialStore, Follow } from '../lib/socialStore';
+import { useProfileStore } from '../lib/profileStore';
+import { searchProfiles, UserProfile } from '../lib/supabase';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+// Wait for a pause in typing before searching handles
+const SEARCH_DELAY = 400;
+
+const formatName = (person: { handle?: string; display_name?: string }) =>
+  person.handle ? `@${person.handle}` : person.display_name || 'Unknown user';
+
+// Find people by handle, follow them and answer follow requests
+export default function FriendsScreen() {
+  const navigation = useNavigation();
+  const { following, followers, loadFollows, follow, unfollow, acceptFollower, removeFollower } = useSocialStore();
+  const profile = useProfileStore(state => state.profile);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserProfile[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    loadFollows();
+  }, [loadFollows]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await searchProfiles(query);
+        if (!cancelled) setResults(found.filter(other => other.user_id !== profile?.user_id));
+      } catch (error) {
+        console.error('Failed to search profiles:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, profile?.user_id]);
+
+  const requests = followers.filter(other => other.status === 'pending');
+  const acceptedFollowers = followers.filter(other => other.status === 'accepted');
+
+  const handleFollow = async (other: UserProfile) => {
+    const followed = await follow(other);
+    if (!followed) {
+      showToast(`Failed to follow @${other.handle}`, 'error');
+    } else if (other.requires_follow_approval) {
+      showToast(`Follow request sent to @${other.handle}`);
+    }
+  };
+
+  const runAction = async (action: () => Promise<boolean>, failure: string) => {
+    if (!(await action())) {
+      showToast(failure, 'error');
+    }
+  };
+
+  const renderFollowButton = (other: UserProfile) => {
+    const existing = following.find(item => item.user_id === other.user_id);
+    if (existing) {
+      return (
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => runAction(() => unfollow(other.user_id), `Failed to unfollow @${other.handle}`)}
+        >
+          <Text style={styles.secondaryButtonText}>{existing.status === 'pending' ? 'Requested' : 'Following'}</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TouchableOpacity style={styles.primaryButton} onPress={() => handleFollow(other)}>
+        <Text style={styles.primaryButtonText}>Follow</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderPerson = (person: Follow, actions: React.ReactNode) => (
+    <View key={person.user_id} style={styles.personRow}>
+      <Text style={styles.personName} numberOfLines={1}>{formatName(person)}</Text>
+      {actions}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Friends</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.searchBox}>
+          <Search size={18} color="#999" />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Find people by handle"
+            placeholderTextColor="#666"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {searching && <ActivityIndicator size="small" color="#8c52ff" />}
+        </View>
+
+        {!profile && (
+          <Text style={styles.hint}>Pick a handle in Privacy so friends can find you too.</Text>
+        )}
+
+        {query.trim() !== '' && (
+          <View style={styles.section}>
+            {results.length === 0 && !searching ? (
+              <Text style={styles.emptyText}>No one with a handle starting with "{query.trim()}"</Text>
+            ) : (
+              results.map(other => (
+                <View key={other.user_id} style={styles.personRow}>
+                  <Text style={styles.personName} numberOfLines={1}>{formatName(other)}</Text>
+                  {renderFollowButton(other)}
+                </View>
+              ))
+            )}
+          </View>
+        )}
+
+        {requests.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Follow requests</Text>
+            {requests.map(person => renderPerson(person, (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={() => runAction(() => removeFollower(person.user_id), 'Failed to decline the request')}
+                >
+                  <Text style={styles.secondaryButtonText}>Decline</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.primaryButton}
+                  onPress={() => runAction(() => acceptFollower(person.user_id), 'Failed to accept the request')}
+                >
+                  <Text style={styles.primaryButtonText}>Accept</Text>
+                </TouchableOpacity>
+              </View>
+            )))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Following ({following.length})</Text>
+          {following.length === 0 ? (
+            <Text style={styles.emptyText}>Follow friends to see what they watch in your feed.</Text>
+          ) : (
+            following.map(person => renderPerson(person, (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => runAction(() => unfollow(person.user_id), `Failed to unfollow ${formatName(person)}`)}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {person.status === 'pending' ? 'Cancel request' : 'Unfollow'}
+                </Text>
+              </TouchableOpacity>
+            )))
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Followers ({acceptedFollowers.length})</Text>
+          {acceptedFollowers.length === 0 ? (
+            <Text style={styles.emptyText}>No followers yet.</Text>
+          ) : (
+            acceptedFollowers.map(person => renderPerson(person, (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => runAction(() => removeFollower(person.user_id), `Failed to remove ${formatName(person)}`)}
+              >
+                <Text style={styles.secondaryButtonText}>Remove</Text>
+              </TouchableOpacity>
+            )))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    paddingVertical: 10,
+    marginLeft: 8,
+  },
+  hint: {
+    color: '#999',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  personName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  primaryButton: {
+    backgroundColor: '#8c52ff',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginLeft: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#444',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  secondaryButtonText: {
+    color: '#ccc',
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,444 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  Modal,
+  Pressable
+} from 'react-native';
+import { useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, Pencil, Trash2, X, Film, Tv, Star, Share2, Globe, Users } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useListStore, getListCover, getMemberName, isSharedList, ListItem, UserListFields } from '../../lib/listStore';
+import { getReleaseYear } from '../../lib/media';
+import DraggableRow from '../components/DraggableRow';
+import ListFormModal from '../components/ListFormModal';
+import ShareModal from '../components/ShareModal';
+import MembersModal from '../components/MembersModal';
+
+// Row height plus its bottom margin, for drag and drop
+const ROW_HEIGHT = 112;
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+// One custom list: its titles in manual order, with editing and removal
+export default function ListScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const navigation = useNavigation();
+  const router = useRouter();
+  const list = useListStore(state => state.lists.find(other => other.id === id));
+  const userId = useListStore(state => state.lastSyncUserId);
+  const { updateList, deleteList, removeFromList, moveListItem, shareList } = useListStore();
+  const [formVisible, setFormVisible] = useState(false);
+  const [shareVisible, setShareVisible] = useState(false);
+  const [membersVisible, setMembersVisible] = useState(false);
+  const [confirmDeleteVisible, setConfirmDeleteVisible] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  if (!list) {
+    return (
+      <View style={styles.container}>
+        <TouchableOpacity style={[styles.backButton, styles.backButtonError]} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateText}>List not found</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const cover = getListCover(list);
+  // Editors manage titles; renaming, sharing and deleting are up to the owner
+  const isOwner = list.role !== 'editor';
+  const shared = isSharedList(list);
+
+  // Who added a title, in lists with several members
+  const getAddedBy = (item: ListItem) => {
+    if (!shared || !item.added_by) return '';
+    if (item.added_by === userId) return 'Added by you';
+    return `Added by ${getMemberName(list.members?.find(member => member.user_id === item.added_by))}`;
+  };
+
+  const handleSave = async (fields: UserListFields) => {
+    setFormVisible(false);
+    const saved = await updateList(list.id, fields);
+    if (!saved) {
+      showToast('Failed to save list', 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    setConfirmDeleteVisible(false);
+    const name = list.name;
+    navigation.goBack();
+    const deleted = await deleteList(list.id);
+    showToast(deleted ? `"${name}" deleted` : `Failed to delete "${name}"`, deleted ? 'success' : 'error');
+  };
+
+  const handleRemove = async (item: ListItem) => {
+    const removed = await removeFromList(list.id, item);
+    if (!removed) {
+      showToast(`Failed to remove "${item.title}"`, 'error');
+    }
+  };
+
+  // Drop a dragged title between its new neighbours
+  const handleMove = async (fromIndex: number, toIndex: number) => {
+    const moving = list.items[fromIndex];
+    const remaining = list.items.filter((_, index) => index !== fromIndex);
+
+    const success = await moveListItem(list.id, moving, {
+      previous: remaining[toIndex - 1],
+      next: remaining[toIndex]
+    });
+
+    if (!success) {
+      showToast('Failed to save the new order', 'error');
+    }
+  };
+
+  const renderItem = ({ item, index }: { item: ListItem, index: number }) => (
+    <DraggableRow
+      index={index}
+      itemCount={list.items.length}
+      rowHeight={ROW_HEIGHT}
+      onDragStateChange={setIsDragging}
+      onMove={handleMove}
+    >
+      <TouchableOpacity
+        style={styles.itemContainer}
+        onPress={() => {
+          router.push({
+            pathname: '/details/[type]/[id]',
+            params: { type: item.media_type, id: item.id.toString() }
+          });
+        }}
+      >
+        <Image
+          source={{
+            uri: item.poster_path
+              ? `https://image.tmdb.org/t/p/w154${item.poster_path}`
+              : 'https://via.placeholder.com/154x231?text=No+Poster',
+          }}
+          style={styles.poster}
+          resizeMode="cover"
+        />
+        <View style={styles.itemContent}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemTitle} numberOfLines={2}>{item.title}</Text>
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(item)}>
+              <X size={18} color="#999" />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.itemMetaRow}>
+            {item.media_type === 'movie' ? <Film size={12} color="#999" /> : <Tv size={12} color="#999" />}
+            <Text style={styles.itemMeta}>{getReleaseYear(item)}</Text>
+            <Star size={12} color="#FFD700" fill="#FFD700" />
+            <Text style={styles.itemMeta}>{item.vote_average.toFixed(1)}</Text>
+          </View>
+          {getAddedBy(item) !== '' && (
+            <Text style={styles.addedBy} numberOfLines={1}>{getAddedBy(item)}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    </DraggableRow>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={list.items}
+        renderItem={renderItem}
+        keyExtractor={(item) => `${item.media_type}-${item.id}`}
+        contentContainerStyle={styles.list}
+        scrollEnabled={!isDragging}
+        ListHeaderComponent={
+          <View>
+            <View style={styles.header}>
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                <ArrowLeft size={24} color="#fff" />
+              </TouchableOpacity>
+              <View style={styles.headerActions}>
+                <TouchableOpacity style={styles.headerButton} onPress={() => setMembersVisible(true)}>
+                  <Users size={20} color="#fff" />
+                </TouchableOpacity>
+                {isOwner && (
+                  <>
+                    <TouchableOpacity style={styles.headerButton} onPress={() => setShareVisible(true)}>
+                      <Share2 size={20} color="#fff" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.headerButton} onPress={() => setFormVisible(true)}>
+                      <Pencil size={20} color="#fff" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.headerButton} onPress={() => setConfirmDeleteVisible(true)}>
+                      <Trash2 size={20} color="#ff4444" />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            </View>
+
+            <View style={styles.listInfo}>
+              {cover && (
+                <Image source={{ uri: `https://image.tmdb.org/t/p/w342${cover}` }} style={styles.cover} />
+              )}
+              <View style={styles.listText}>
+                <Text style={styles.title}>{list.name}</Text>
+                {list.description ? <Text style={styles.description}>{list.description}</Text> : null}
+                <Text style={styles.count}>
+                  {list.items.length} title{list.items.length !== 1 ? 's' : ''}
+                  {shared ? ` · ${list.members?.length} members` : ''}
+                </Text>
+                {list.is_public && (
+                  <View style={styles.publicBadge}>
+                    <Globe size={12} color="#8c52ff" />
+                    <Text style={styles.publicBadgeText}>Public</Text>
+                  </View>
+                )}
+              </View>
+            </View>
+
+            {list.items.length === 0 && (
+              <Text style={styles.emptyStateText}>
+                Add titles from search, the details page or the grids with the list button.
+              </Text>
+            )}
+          </View>
+        }
+      />
+
+      <ListFormModal
+        visible={formVisible}
+        initial={list}
+        items={list.items}
+        onSubmit={handleSave}
+        onCancel={() => setFormVisible(false)}
+      />
+
+      <ShareModal
+        visible={shareVisible}
+        title={list.name}
+        isPublic={!!list.is_public}
+        slug={list.slug}
+        onTogglePublic={(isPublic) => shareList(list.id, isPublic)}
+        onClose={() => setShareVisible(false)}
+      />
+
+      <MembersModal
+        visible={membersVisible}
+        list={list}
+        userId={userId}
+        onLeave={() => {
+          setMembersVisible(false);
+          navigation.goBack();
+        }}
+        onClose={() => setMembersVisible(false)}
+      />
+
+      {/* Delete confirmation */}
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={confirmDeleteVisible}
+        onRequestClose={() => setConfirmDeleteVisible(false)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setConfirmDeleteVisible(false)}>
+          <View style={styles.menuContainer}>
+            <Text style={styles.confirmText}>Delete "{list.name}"?</Text>
+            <View style={styles.menuDivider} />
+            <TouchableOpacity style={styles.menuItem} onPress={handleDelete}>
+              <Text style={styles.menuTextDanger}>Delete List</Text>
+            </TouchableOpacity>
+            <View style={styles.menuDivider} />
+            <TouchableOpacity style={styles.menuItem} onPress={() => setConfirmDeleteVisible(false)}>
+              <Text style={styles.menuText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  list: {
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backButtonError: {
+    margin: 16,
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1E1E1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  listInfo: {
+    flexDirection: 'row',
+    marginBottom: 20,
+  },
+  cover: {
+    width: 90,
+    height: 135,
+    borderRadius: 8,
+    marginRight: 16,
+  },
+  listText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+    marginBottom: 8,
+  },
+  description: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  count: {
+    color: '#999',
+    fontSize: 13,
+  },
+  publicBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  publicBadgeText: {
+    color: '#8c52ff',
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  itemContainer: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 16,
+    flexDirection: 'row',
+    height: 96,
+  },
+  poster: {
+    width: 64,
+    height: 96,
+  },
+  itemContent: {
+    flex: 1,
+    padding: 10,
+    justifyContent: 'space-between',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  itemTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  removeButton: {
+    padding: 2,
+    marginLeft: 8,
+  },
+  itemMetaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemMeta: {
+    color: '#999',
+    fontSize: 12,
+    marginLeft: 4,
+    marginRight: 12,
+  },
+  addedBy: {
+    color: '#8c52ff',
+    fontSize: 12,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyStateText: {
+    color: '#999',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  menuContainer: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    width: 250,
+    overflow: 'hidden',
+  },
+  confirmText: {
+    color: '#fff',
+    fontSize: 16,
+    textAlign: 'center',
+    padding: 16,
+  },
+  menuItem: {
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+  },
+  menuText: {
+    color: '#fff',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  menuTextDanger: {
+    color: '#ff4444',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  menuDivider: {
+    height: 1,
+    backgroundColor: '#333',
+  },
+});
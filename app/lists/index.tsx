@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, Image, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, Plus, ListVideo } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useListStore, getListCover, isSharedList, UserList, UserListFields } from '../../lib/listStore';
+import ListFormModal from '../components/ListFormModal';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+// Every custom list of the user
+export default function ListsScreen() {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const { lists, isLoading, isInitialized, createList, syncLists } = useListStore();
+  const [formVisible, setFormVisible] = useState(false);
+
+  useEffect(() => {
+    syncLists();
+  }, [syncLists]);
+
+  const openList = (list: UserList) => {
+    router.push({ pathname: '/lists/[id]', params: { id: list.id } });
+  };
+
+  const handleCreate = async (fields: UserListFields) => {
+    setFormVisible(false);
+    const list = await createList(fields);
+    if (list) {
+      openList(list);
+    } else {
+      showToast(`Failed to create "${fields.name}"`, 'error');
+    }
+  };
+
+  const renderList = ({ item: list }: { item: UserList }) => {
+    const cover = getListCover(list);
+
+    return (
+      <TouchableOpacity style={styles.listRow} onPress={() => openList(list)}>
+        {cover ? (
+          <Image source={{ uri: `https://image.tmdb.org/t/p/w154${cover}` }} style={styles.cover} />
+        ) : (
+          <View style={[styles.cover, styles.coverPlaceholder]}>
+            <ListVideo size={28} color="#666" />
+          </View>
+        )}
+        <View style={styles.listInfo}>
+          <Text style={styles.listName} numberOfLines={1}>{list.name}</Text>
+          {list.description ? (
+            <Text style={styles.listDescription} numberOfLines={2}>{list.description}</Text>
+          ) : null}
+          <Text style={styles.listCount}>
+            {list.items.length} title{list.items.length !== 1 ? 's' : ''}
+            {isSharedList(list) ? ` · Shared with ${(list.members?.length ?? 1) - 1}` : ''}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>My Lists</Text>
+        <TouchableOpacity style={styles.addButton} onPress={() => setFormVisible(true)}>
+          <Plus size={22} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading && !isInitialized ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#8c52ff" />
+        </View>
+      ) : lists.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateText}>
+            Group titles into lists like "Halloween marathon" or "Date night".
+          </Text>
+          <TouchableOpacity style={styles.emptyStateButton} onPress={() => setFormVisible(true)}>
+            <Text style={styles.emptyStateButtonText}>Create a List</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={lists}
+          renderItem={renderList}
+          keyExtractor={(list) => list.id}
+          contentContainerStyle={styles.list}
+        />
+      )}
+
+      <ListFormModal
+        visible={formVisible}
+        onSubmit={handleCreate}
+        onCancel={() => setFormVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#8c52ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  listRow: {
+    flexDirection: 'row',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+    height: 100,
+  },
+  cover: {
+    width: 67,
+    height: 100,
+  },
+  coverPlaceholder: {
+    backgroundColor: '#2a2a2a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listInfo: {
+    flex: 1,
+    padding: 10,
+  },
+  listName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  listDescription: {
+    color: '#aaa',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  listCount: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 'auto',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyStateText: {
+    color: '#999',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  emptyStateButton: {
+    marginTop: 16,
+    backgroundColor: '#8c52ff',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  emptyStateButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
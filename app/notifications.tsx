@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Image, Platform } from 'react-native';
+import { useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, BellOff, Film, Tv } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useLibraryStore } from '../lib/libraryStore';
+import { getPreferences, useNotificationStore, NotificationPreferences } from '../lib/notificationStore';
+import { hasReminderPermission, requestReminderPermission, rescheduleReminders } from '../lib/reminders';
+import { isTracked } from '../lib/calendar';
+import { MediaRef, getMediaKey } from '../lib/media';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+const KIND_OPTIONS: { field: 'theatrical_releases' | 'digital_releases' | 'new_episodes'; label: string; description: string }[] = [
+  { field: 'theatrical_releases', label: 'Cinema releases', description: 'When a movie opens in cinemas' },
+  { field: 'digital_releases', label: 'Digital releases', description: 'When a movie comes out to stream, rent or buy' },
+  { field: 'new_episodes', label: 'New episodes', description: 'When a show premieres or a new episode airs' }
+];
+
+const HOUR_OPTIONS = [8, 9, 12, 18, 20];
+
+// "9 AM", "6 PM"
+const formatHour = (hour: number) => `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+
+// Which reminders go off and when, and the titles they are on for
+export default function NotificationsScreen() {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const userId = useLibraryStore(state => state.lastSyncUserId);
+  const libraryItems = useLibraryStore(state => state.items);
+  const allPreferences = useNotificationStore(state => state.preferences);
+  const loadPreferences = useNotificationStore(state => state.loadPreferences);
+  const updatePreferences = useNotificationStore(state => state.updatePreferences);
+  const [permissionGranted, setPermissionGranted] = useState<boolean | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const preferences = getPreferences(allPreferences, userId);
+  const reminderItems = useMemo(
+    () => libraryItems.filter(item => isTracked(item) && preferences.titles.includes(getMediaKey(item))),
+    [libraryItems, preferences.titles]
+  );
+
+  useEffect(() => {
+    if (userId) loadPreferences(userId);
+  }, [userId, loadPreferences]);
+
+  const handleAllow = async () => {
+    const granted = await requestReminderPermission();
+    setPermissionGranted(granted);
+    if (granted && userId) {
+      rescheduleReminders(userId, libraryItems);
+    } else if (!granted) {
+      showToast('Allow notifications for VibeWatch in your device settings', 'error');
+    }
+  };
+
+  // Check without prompting; the prompt only comes up when the user asks for it
+  useEffect(() => {
+    if (Platform.OS !== 'web') {
+      hasReminderPermission().then(setPermissionGranted);
+    }
+  }, []);
+
+  const save = async (fields: Partial<NotificationPreferences>) => {
+    if (!userId) return;
+
+    setSaving(true);
+    const saved = await updatePreferences(userId, fields);
+    setSaving(false);
+
+    if (saved) {
+      rescheduleReminders(userId, libraryItems);
+    } else {
+      showToast('Failed to save notification settings', 'error');
+    }
+  };
+
+  const openDetails = (item: MediaRef) => {
+    router.push({
+      pathname: '/details/[type]/[id]',
+      params: { type: item.media_type, id: item.id.toString() }
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Notifications</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {Platform.OS === 'web' ? (
+          <View style={styles.notice}>
+            <Text style={styles.noticeText}>
+              Reminders go off in the VibeWatch app on your phone. Settings you change here apply there too.
+            </Text>
+          </View>
+        ) : permissionGranted === false && (
+          <View style={styles.notice}>
+            <Text style={styles.noticeText}>Notifications are off for VibeWatch, so no reminders will go off.</Text>
+            <TouchableOpacity style={styles.allowButton} onPress={handleAllow}>
+              <Text style={styles.allowButtonText}>Allow notifications</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Preferences are saved per user */}
+        <View style={!userId && styles.disabledSection} pointerEvents={userId ? 'auto' : 'none'}>
+          <Text style={styles.sectionTitle}>Remind me about</Text>
+          <Text style={styles.sectionHint}>
+            Turn reminders on with the bell on a title in your watchlist or a show you're watching.
+          </Text>
+          {KIND_OPTIONS.map(option => (
+            <View key={option.field} style={styles.option}>
+              <View style={styles.optionText}>
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </View>
+              <Switch
+                value={preferences[option.field]}
+                onValueChange={(value) => { save({ [option.field]: value }); }}
+                disabled={saving}
+                trackColor={{ false: '#444', true: '#8c52ff' }}
+                thumbColor="#fff"
+              />
+            </View>
+          ))}
+
+          <Text style={styles.sectionTitle}>Time of day</Text>
+          <Text style={styles.sectionHint}>Reminders go off on the day of the release.</Text>
+          <View style={styles.hours}>
+            {HOUR_OPTIONS.map(hour => (
+              <TouchableOpacity
+                key={hour}
+                style={[styles.hour, preferences.reminder_hour === hour && styles.hourSelected]}
+                onPress={() => preferences.reminder_hour !== hour && save({ reminder_hour: hour })}
+                disabled={saving}
+              >
+                <Text style={[styles.hourText, preferences.reminder_hour === hour && styles.hourTextSelected]}>
+                  {formatHour(hour)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Reminders on ({reminderItems.length})</Text>
+          {reminderItems.length === 0 ? (
+            <Text style={styles.sectionHint}>No reminders yet.</Text>
+          ) : (
+            reminderItems.map(item => (
+              <TouchableOpacity key={getMediaKey(item)} style={styles.option} onPress={() => openDetails(item)}>
+                {item.poster_path ? (
+                  <Image source={{ uri: `https://image.tmdb.org/t/p/w92${item.poster_path}` }} style={styles.poster} />
+                ) : (
+                  <View style={[styles.poster, styles.posterPlaceholder]}>
+                    {item.media_type === 'movie' ? <Film size={16} color="#666" /> : <Tv size={16} color="#666" />}
+                  </View>
+                )}
+                <Text style={[styles.optionLabel, styles.optionText]} numberOfLines={1}>{item.title}</Text>
+                <TouchableOpacity
+                  onPress={() => save({ titles: preferences.titles.filter(key => key !== getMediaKey(item)) })}
+                  disabled={saving}
+                >
+                  <BellOff size={20} color="#999" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  notice: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: '#8c52ff',
+    padding: 14,
+    marginBottom: 8,
+  },
+  noticeText: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+  allowButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    marginTop: 10,
+  },
+  allowButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  sectionHint: {
+    color: '#999',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  disabledSection: {
+    opacity: 0.4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 8,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionLabel: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  optionDescription: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  hours: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  hour: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 50,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  hourSelected: {
+    backgroundColor: '#8c52ff',
+  },
+  hourText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  hourTextSelected: {
+    fontWeight: 'bold',
+  },
+  poster: {
+    width: 32,
+    height: 48,
+    borderRadius: 4,
+    marginRight: 12,
+  },
+  posterPlaceholder: {
+    backgroundColor: '#2a2a2a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native';
+import { useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, Film, Tv, Star, Check, Eye } from 'lucide-react-native';
+import { getPersonDetails, TMDbPerson } from '../../lib/tmdb';
+import { getReleaseYear, getMediaKey } from '../../lib/media';
+import { getFilmography, FilmographyEntry } from '../../lib/filmography';
+import { useLibraryStore } from '../../lib/libraryStore';
+
+type CreditFilter = 'all' | 'acting' | 'crew';
+
+const CREDIT_FILTERS: { id: CreditFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'acting', label: 'Acting' },
+  { id: 'crew', label: 'Crew' }
+];
+
+// Lines of biography shown until it is expanded
+const BIOGRAPHY_LINES = 6;
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+// An actor's or filmmaker's biography and combined movie and TV filmography
+export default function PersonScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const personId = parseInt(id);
+  const navigation = useNavigation();
+  const router = useRouter();
+  const libraryItems = useLibraryStore(state => state.items);
+  const [person, setPerson] = useState<TMDbPerson | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<CreditFilter>('all');
+  const [biographyExpanded, setBiographyExpanded] = useState(false);
+
+  useEffect(() => {
+    const fetchPerson = async () => {
+      if (isNaN(personId)) {
+        setError('Invalid link');
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        setPerson(await getPersonDetails(personId));
+      } catch (error) {
+        console.error('Failed to fetch person:', error);
+        setError('Failed to load person');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPerson();
+  }, [personId]);
+
+  const filmography = useMemo(() => person ? getFilmography(person) : [], [person]);
+  const shownEntries = filmography.filter(entry => filter === 'all' || entry[filter]);
+  // Only offer the filter to people with both kinds of credits
+  const showFilters = filmography.some(entry => entry.acting) && filmography.some(entry => entry.crew);
+
+  // Library status of each title, by media key
+  const libraryStatus = useMemo(
+    () => new Map(libraryItems.map(item => [getMediaKey(item), item.status])),
+    [libraryItems]
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#8c52ff" />
+      </View>
+    );
+  }
+
+  if (error || !person) {
+    return (
+      <View style={styles.container}>
+        <TouchableOpacity style={[styles.backButton, styles.backButtonError]} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error || 'Person not found'}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const renderEntry = ({ item: entry }: { item: FilmographyEntry }) => {
+    const status = libraryStatus.get(getMediaKey(entry.media));
+    return (
+      <TouchableOpacity
+        style={styles.entry}
+        onPress={() => {
+          router.push({
+            pathname: '/details/[type]/[id]',
+            params: { type: entry.media.media_type, id: entry.media.id.toString() }
+          });
+        }}
+      >
+        <Image
+          source={{
+            uri: entry.media.poster_path
+              ? `https://image.tmdb.org/t/p/w154${entry.media.poster_path}`
+              : 'https://via.placeholder.com/154x231?text=No+Poster',
+          }}
+          style={styles.poster}
+        />
+        <View style={styles.entryContent}>
+          <Text style={styles.entryTitle} numberOfLines={2}>{entry.media.title}</Text>
+          {entry.roles.length > 0 && (
+            <Text style={styles.entryRole} numberOfLines={1}>{entry.roles.join(', ')}</Text>
+          )}
+          <View style={styles.entryMeta}>
+            {entry.media.media_type === 'movie' ? <Film size={12} color="#999" /> : <Tv size={12} color="#999" />}
+            <Text style={styles.entryMetaText}>{getReleaseYear(entry.media) || 'TBA'}</Text>
+            {entry.media.vote_average > 0 && (
+              <>
+                <Star size={12} color="#FFD700" fill="#FFD700" />
+                <Text style={styles.entryMetaText}>{entry.media.vote_average.toFixed(1)}</Text>
+              </>
+            )}
+          </View>
+        </View>
+        {status === 'watched' ? (
+          <View style={[styles.badge, styles.watchedBadge]}>
+            <Eye size={12} color="#fff" />
+            <Text style={styles.badgeText}>Watched</Text>
+          </View>
+        ) : status ? (
+          <View style={styles.badge}>
+            <Check size={12} color="#fff" />
+            <Text style={styles.badgeText}>Watchlist</Text>
+          </View>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.profile}>
+        <Image
+          source={{
+            uri: person.profile_path
+              ? `https://image.tmdb.org/t/p/w342${person.profile_path}`
+              : 'https://via.placeholder.com/342x513?text=No+Photo',
+          }}
+          style={styles.photo}
+        />
+        <View style={styles.profileText}>
+          <Text style={styles.name}>{person.name}</Text>
+          {person.known_for_department ? (
+            <Text style={styles.department}>{person.known_for_department}</Text>
+          ) : null}
+          {person.birthday && (
+            <Text style={styles.fact}>
+              Born {formatDate(person.birthday)}{person.place_of_birth ? ` in ${person.place_of_birth}` : ''}
+            </Text>
+          )}
+          {person.deathday && <Text style={styles.fact}>Died {formatDate(person.deathday)}</Text>}
+        </View>
+      </View>
+
+      {person.biography ? (
+        <TouchableOpacity onPress={() => setBiographyExpanded(!biographyExpanded)} activeOpacity={0.8}>
+          <Text style={styles.biography} numberOfLines={biographyExpanded ? undefined : BIOGRAPHY_LINES}>
+            {person.biography}
+          </Text>
+          <Text style={styles.readMore}>{biographyExpanded ? 'Show less' : 'Read more'}</Text>
+        </TouchableOpacity>
+      ) : null}
+
+      <Text style={styles.sectionHeading}>Filmography ({filmography.length})</Text>
+      {showFilters && (
+        <View style={styles.filters}>
+          {CREDIT_FILTERS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.filterButton, filter === option.id && styles.filterButtonActive]}
+              onPress={() => setFilter(option.id)}
+            >
+              <Text style={[styles.filterText, filter === option.id && styles.filterTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+      <FlatList
+        data={shownEntries}
+        renderItem={renderEntry}
+        keyExtractor={(entry) => getMediaKey(entry.media)}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={styles.list}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backButtonError: {
+    margin: 16,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  profile: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  photo: {
+    width: 110,
+    height: 165,
+    borderRadius: 8,
+    backgroundColor: '#1E1E1E',
+  },
+  profileText: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  department: {
+    fontSize: 15,
+    color: '#8c52ff',
+    marginBottom: 8,
+  },
+  fact: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 4,
+  },
+  biography: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#ddd',
+  },
+  readMore: {
+    color: '#8c52ff',
+    fontSize: 14,
+    marginTop: 6,
+  },
+  sectionHeading: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  filters: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  filterButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#1E1E1E',
+    marginRight: 8,
+  },
+  filterButtonActive: {
+    backgroundColor: '#8c52ff',
+  },
+  filterText: {
+    color: '#ccc',
+    fontSize: 13,
+  },
+  filterTextActive: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  poster: {
+    width: 54,
+    height: 81,
+  },
+  entryContent: {
+    flex: 1,
+    padding: 10,
+  },
+  entryTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  entryRole: {
+    color: '#999',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  entryMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  entryMetaText: {
+    color: '#999',
+    fontSize: 12,
+    marginLeft: 4,
+    marginRight: 12,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#8c52ff',
+    borderRadius: 10,
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+    marginRight: 10,
+  },
+  watchedBadge: {
+    backgroundColor: '#4CAF50',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+});
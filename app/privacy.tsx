@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, StyleSheet, ScrollView, TouchableOpacity, Switch } from 'react-native';
+import { useNavigation } from 'expo-router';
+import { ArrowLeft, Check } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useProfileStore, UserProfileFields } from '../lib/profileStore';
+import { isValidHandle, normalizeHandle } from '../lib/sharing';
+import type { ActivityVisibility } from '../lib/supabase';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+const VISIBILITY_OPTIONS: { value: ActivityVisibility; label: string; description: string }[] = [
+  { value: 'everyone', label: 'Everyone', description: 'Any VibeWatch user can see your activity' },
+  { value: 'followers', label: 'Followers', description: 'Only people you let follow you' },
+  { value: 'nobody', label: 'Only me', description: 'Nothing you do is shared' }
+];
+
+// Handle, activity visibility and follow approval
+export default function PrivacyScreen() {
+  const navigation = useNavigation();
+  const { profile, loadProfile, saveProfile } = useProfileStore();
+  const [handle, setHandle] = useState('');
+  const [handleError, setHandleError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  useEffect(() => {
+    setHandle(profile?.handle || '');
+  }, [profile?.handle]);
+
+  const save = async (fields: UserProfileFields) => {
+    setSaving(true);
+    const error = await saveProfile(fields);
+    setSaving(false);
+    if (error) {
+      showToast(error, 'error');
+    }
+    return error;
+  };
+
+  const handleSaveHandle = async () => {
+    const normalized = normalizeHandle(handle);
+    if (!isValidHandle(normalized)) {
+      setHandleError('3 to 30 letters, digits or underscores');
+      return;
+    }
+
+    const error = await save({ handle: normalized });
+    setHandleError(error);
+    if (!error) {
+      showToast('Handle saved');
+    }
+  };
+
+  const handleChanged = normalizeHandle(handle) !== (profile?.handle || '');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Privacy</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Handle</Text>
+        <Text style={styles.sectionHint}>
+          Friends find you by your handle. It is also part of the links to lists you share.
+        </Text>
+        <View style={styles.handleRow}>
+          <Text style={styles.handlePrefix}>@</Text>
+          <TextInput
+            style={styles.input}
+            value={handle}
+            onChangeText={(value) => {
+              setHandle(value);
+              setHandleError(null);
+            }}
+            placeholder="movie_night"
+            placeholderTextColor="#666"
+            autoCapitalize="none"
+            autoCorrect={false}
+            maxLength={30}
+            onSubmitEditing={handleSaveHandle}
+          />
+          <TouchableOpacity
+            style={[styles.saveButton, (!handleChanged || !handle.trim() || saving) && styles.buttonDisabled]}
+            onPress={handleSaveHandle}
+            disabled={!handleChanged || !handle.trim() || saving}
+          >
+            <Text style={styles.saveButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+        {handleError && <Text style={styles.errorText}>{handleError}</Text>}
+
+        {/* The remaining settings live on the profile, which needs a handle first */}
+        <View style={!profile && styles.disabledSection} pointerEvents={profile ? 'auto' : 'none'}>
+          <Text style={styles.sectionTitle}>Who can see your activity</Text>
+          <Text style={styles.sectionHint}>
+            What you add to your watchlist, watch and rate shows up in the feed of the people who can see it.
+          </Text>
+          {VISIBILITY_OPTIONS.map(option => {
+            const selected = (profile?.activity_visibility || 'followers') === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={styles.option}
+                onPress={() => !selected && save({ activity_visibility: option.value })}
+                disabled={saving}
+              >
+                <View style={styles.optionText}>
+                  <Text style={styles.optionLabel}>{option.label}</Text>
+                  <Text style={styles.optionDescription}>{option.description}</Text>
+                </View>
+                {selected && <Check size={20} color="#8c52ff" />}
+              </TouchableOpacity>
+            );
+          })}
+
+          <Text style={styles.sectionTitle}>Followers</Text>
+          <View style={styles.option}>
+            <View style={styles.optionText}>
+              <Text style={styles.optionLabel}>Approve new followers</Text>
+              <Text style={styles.optionDescription}>
+                People who follow you wait until you accept them in Friends.
+              </Text>
+            </View>
+            <Switch
+              value={!!profile?.requires_follow_approval}
+              onValueChange={(value) => { save({ requires_follow_approval: value }); }}
+              disabled={saving}
+              trackColor={{ false: '#444', true: '#8c52ff' }}
+              thumbColor="#fff"
+            />
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  sectionHint: {
+    color: '#999',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  handleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  handlePrefix: {
+    color: '#999',
+    fontSize: 16,
+    marginRight: 6,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    color: '#fff',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  saveButton: {
+    backgroundColor: '#8c52ff',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginLeft: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  disabledSection: {
+    opacity: 0.4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 8,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionLabel: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  optionDescription: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
@@ -1,12 +1,16 @@
-import React from 'react';
+import React, { useState, useMemo } from 'react';
 import { StyleSheet, FlatList, View, Dimensions } from 'react-native';
 import { useRouter } from 'expo-router';
 import { TouchableOpacity, Image, Text } from 'react-native';
-import { Star, Film, Tv, Plus, Check, Repeat } from 'lucide-react-native';
-import { useWatchlistStore } from '../../../lib/watchlistStore';
-import { useWatchedStore } from '../../../lib/watchedStore';
-import { formatSearchResult, TMDbSearchResult } from '../../../lib/tmdb';
+import { Star, Film, Tv, Plus, Check, Repeat, ListPlus } from 'lucide-react-native';
+import { useLibraryStore } from '../../../lib/libraryStore';
+import RateReviewModal, { ReviewFields } from '../../components/RateReviewModal';
+import AddToListModal from '../../components/AddToListModal';
+import StreamingFilterToggle from '../../components/StreamingFilterToggle';
+import { TMDbSearchResult } from '../../../lib/tmdb';
+import { Media, toMedia } from '../../../lib/media';
 import Toast from 'react-native-toast-message';
+import useStreamingFilter from '../../../hooks/useStreamingFilter';
 
 const { width } = Dimensions.get('window');
 const GRID_COLUMNS = 2;
@@ -31,62 +35,71 @@ type MediaGridProps = {
 
 export default function MediaGrid({ data, isHighestRatedSection = true }: MediaGridProps) {
   const router = useRouter();
-  const { hasItem: isInWatchlist, addItem: addToWatchlist } = useWatchlistStore();
-  const { hasItem: isInWatched, removeItem: removeFromWatched } = useWatchedStore();
+  const { hasItem, getItem, addItem: addToWatchlist, rewatch, markWatched, updateReview } = useLibraryStore();
+  // Title being rated: long press marks it as watched, or edits the review once it is
+  const [reviewItem, setReviewItem] = useState<Media | null>(null);
+  // Title being added to a custom list
+  const [listItem, setListItem] = useState<Media | null>(null);
+  const reviewedItem = reviewItem ? getItem(reviewItem) : undefined;
+  const reviewMode = reviewedItem?.status === 'watched' ? 'edit' : 'mark';
 
-  const handleAddToWatchlist = (result: TMDbSearchResult) => {
-    const formattedResult = formatSearchResult(result);
-    if (formattedResult) {
-      const inWatchlist = isInWatchlist(result.id);
-      if (!inWatchlist) {
-        addToWatchlist(formattedResult)
-          .then(() => {
-            showToast(`"${formattedResult.title}" added to watchlist`, 'success');
-          })
-          .catch((error: any) => {
-            console.error('Error adding to watchlist:', error);
-            showToast(`Failed to add "${formattedResult.title}" to watchlist`, 'error');
-          });
-      }
+  // Map the TMDb payloads to the Media model once; people and unknown results are dropped
+  const mediaItems = useMemo(
+    () => data.map(toMedia).filter((item): item is Media => item !== null),
+    [data]
+  );
+  const streamingFilter = useStreamingFilter(mediaItems);
+
+  const handleAddToWatchlist = (item: Media) => {
+    if (!hasItem(item)) {
+      addToWatchlist(item)
+        .then(() => {
+          showToast(`"${item.title}" added to watchlist`, 'success');
+        })
+        .catch((error: any) => {
+          console.error('Error adding to watchlist:', error);
+          showToast(`Failed to add "${item.title}" to watchlist`, 'error');
+        });
     }
   };
 
-  const handleRewatchItem = async (result: TMDbSearchResult) => {
-    const formattedResult = formatSearchResult(result);
-    if (formattedResult) {
-      const title = formattedResult.title;
-      
-      // Remove from watched list first
-      removeFromWatched(result.id);
+  const handleRewatchItem = async (item: Media) => {
+    const title = item.title;
+    
+    try {
+      // A single status change, so the title is never in both lists or neither
+      const moved = await rewatch(item);
       
-      try {
-        // Then add to watchlist
-        const wasAdded = await addToWatchlist(formattedResult);
-        
-        if (wasAdded) {
-          showToast(`"${title}" moved to watchlist for rewatching`, 'success');
-        } else {
-          showToast(`"${title}" is already in your watchlist`, 'info');
-        }
-      } catch (error) {
-        console.error('Error moving to watchlist:', error);
+      if (moved) {
+        showToast(`"${title}" moved to watchlist for rewatching`, 'success');
+      } else {
         showToast(`Failed to move "${title}" to watchlist`, 'error');
       }
+    } catch (error) {
+      console.error('Error moving to watchlist:', error);
+      showToast(`Failed to move "${title}" to watchlist`, 'error');
     }
   };
 
-  const renderMediaItem = ({ item }: { item: TMDbSearchResult }) => {
-    if (item.media_type === 'person') return null;
-
-    // Ensure media_type is always set - default to 'movie' if missing
-    const mediaType = item.media_type || (item.title ? 'movie' : 'tv');
-    // If item didn't have a media_type, set it now for consistency
-    if (!item.media_type) {
-      item.media_type = mediaType;
+  const handleSubmitReview = async (item: Media, fields: ReviewFields) => {
+    setReviewItem(null);
+    
+    const saved = reviewMode === 'edit'
+      ? await updateReview(item, fields)
+      : await markWatched(item, fields);
+    
+    if (saved) {
+      showToast(reviewMode === 'edit' ? `Review of "${item.title}" saved` : `"${item.title}" marked as watched`, 'success');
+    } else {
+      showToast(`Failed to save "${item.title}"`, 'error');
     }
+  };
 
-    const inWatchlist = isInWatchlist(item.id);
-    const inWatched = isInWatched(item.id);
+  const renderMediaItem = ({ item }: { item: Media }) => {
+    const mediaType = item.media_type;
+
+    const inWatched = hasItem(item, 'watched');
+    const inWatchlist = hasItem(item) && !inWatched;
     const rating = item.vote_average ? item.vote_average.toFixed(1) : '';
     const isHighRated = item.vote_average >= 8.0;
     
@@ -106,6 +119,7 @@ export default function MediaGrid({ data, isHighestRatedSection = true }: MediaG
             }
           });
         }}
+        onLongPress={() => setReviewItem(item)}
         activeOpacity={0.7}
       >
         <Image
@@ -161,19 +175,55 @@ export default function MediaGrid({ data, isHighestRatedSection = true }: MediaG
             <Plus size={13} color="#fff" />
           </TouchableOpacity>
         )}
+        
+        {/* Add to a custom list - at bottom right */}
+        <TouchableOpacity
+          style={styles.listButton}
+          onPress={() => setListItem(item)}
+          activeOpacity={0.7}
+        >
+          <ListPlus size={15} color="#fff" />
+        </TouchableOpacity>
       </TouchableOpacity>
     );
   };
 
   return (
-    <FlatList
-      data={data}
-      renderItem={renderMediaItem}
-      keyExtractor={(item) => `grid-${item.id}`}
-      numColumns={GRID_COLUMNS}
-      contentContainerStyle={styles.grid}
-      showsVerticalScrollIndicator={false}
-    />
+    <>
+      <FlatList
+        data={streamingFilter.items}
+        renderItem={renderMediaItem}
+        keyExtractor={(item) => `grid-${item.media_type}-${item.id}`}
+        numColumns={GRID_COLUMNS}
+        contentContainerStyle={styles.grid}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <StreamingFilterToggle
+            enabled={streamingFilter.enabled}
+            hasServices={streamingFilter.hasServices}
+            isLoading={streamingFilter.isLoading}
+            onChange={streamingFilter.setEnabled}
+            style={styles.streamingFilter}
+          />
+        }
+        ListEmptyComponent={
+          streamingFilter.enabled && !streamingFilter.isLoading ? (
+            <Text style={styles.emptyText}>None of these are streaming on your services.</Text>
+          ) : null
+        }
+      />
+      
+      <RateReviewModal
+        visible={reviewItem !== null}
+        title={reviewItem?.title || ''}
+        initial={reviewedItem}
+        mode={reviewMode}
+        onSubmit={(fields) => reviewItem && handleSubmitReview(reviewItem, fields)}
+        onCancel={() => setReviewItem(null)}
+      />
+      
+      <AddToListModal item={listItem} onClose={() => setListItem(null)} />
+    </>
   );
 }
 
@@ -182,6 +232,15 @@ const styles = StyleSheet.create({
     padding: SPACING,
     paddingBottom: 69, // Reduced to match the new tab bar height
   },
+  streamingFilter: {
+    margin: SPACING / 2,
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 24,
+  },
   mediaItem: {
     margin: SPACING / 2,
     width: itemWidth,
@@ -268,4 +327,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  listButton: {
+    position: 'absolute',
+    bottom: 10,
+    right: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 15,
+    width: 30,
+    height: 30,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
 }); 
\ No newline at end of file
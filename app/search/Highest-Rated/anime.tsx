@@ -30,7 +30,7 @@ export default function HighestRatedAnime() {
         const animeFiltered = allTVShows.filter(show => {
           // Identify anime as Japanese animation
           const isAnimation = show.genre_ids?.includes(16);
-          const isJapanese = (show as any).original_language === 'ja';
+          const isJapanese = show.original_language === 'ja';
           return isAnimation || (isJapanese && show.genre_ids?.includes(16));
         });
         
@@ -30,7 +30,7 @@ export default function HighestRatedMovies() {
         const filteredMovies = allMovies.filter(movie => {
           const isAnimation = movie.genre_ids?.includes(16);
           // Check if original language property exists and is English
-          const isEnglish = (movie as any).original_language === 'en';
+          const isEnglish = movie.original_language === 'en';
           return !isAnimation && isEnglish;
         });
         
@@ -38,7 +38,7 @@ export default function HighestRatedTV() {
           }
           
           // For regular shows, prefer English but don't require it
-          const isEnglish = (show as any).original_language === 'en';
+          const isEnglish = show.original_language === 'en';
           return !isAnimation && (isEnglish || show.vote_average >= 8.0);
         });
         
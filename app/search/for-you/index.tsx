@@ -2,24 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ActivityIndicator, Text, TouchableOpacity, ScrollView } from 'react-native';
 import { TMDbSearchResult, discoverContent } from '../../../lib/tmdb';
 import MediaGrid from './MediaGrid';
-import { useWatchlistStore, WatchlistItem } from '../../../lib/watchlistStore';
-import { useWatchedStore } from '../../../lib/watchedStore';
+import { useLibraryStore } from '../../../lib/libraryStore';
+import { Media, getMediaKey } from '../../../lib/media';
 import { useRouter } from 'expo-router';
 import { ChevronRight, Film, Tv, ListFilter } from 'lucide-react-native';
 
-// Extended item type that might have genre_ids
-interface ExtendedItem extends WatchlistItem {
-  genre_ids?: number[];
-}
-
 export default function ForYouScreen() {
   const [recommendations, setRecommendations] = useState<TMDbSearchResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   
-  const { items: watchlistItems } = useWatchlistStore();
-  const { items: watchedItems } = useWatchedStore();
+  const libraryItems = useLibraryStore(state => state.items);
 
   useEffect(() => {
     const generateRecommendations = async () => {
@@ -27,7 +21,7 @@ export default function ForYouScreen() {
         setLoading(true);
         
         // Get genres from user's watchlist and watched items
-        const userItems = [...watchlistItems, ...watchedItems] as ExtendedItem[];
+        const userItems: Media[] = libraryItems;
         
         if (userItems.length === 0) {
           // If no watched/watchlist items, fetch popular content
@@ -115,12 +109,12 @@ export default function ForYouScreen() {
         
         // Combine results, remove duplicates, and filter out items already in watchlist/watched
         const combinedResults: TMDbSearchResult[] = [];
-        const userItemIds = new Set(userItems.map(item => item.id));
+        const userItemKeys = new Set(userItems.map(item => getMediaKey(item)));
         
         results.forEach(response => {
           response.results.forEach(item => {
             // Skip if already in user's list or already added to recommendations
-            if (userItemIds.has(item.id) || combinedResults.some(r => r.id === item.id)) {
+            if (userItemKeys.has(`${item.media_type}_${item.id}`) || combinedResults.some(r => r.id === item.id && r.media_type === item.media_type)) {
               return;
             }
             combinedResults.push(item);
@@ -149,7 +143,7 @@ export default function ForYouScreen() {
     };
 
     generateRecommendations();
-  }, [watchlistItems, watchedItems]);
+  }, [libraryItems]);
 
   if (loading) {
     return (
@@ -2,21 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ActivityIndicator, Text } from 'react-native';
 import { TMDbSearchResult, discoverContent } from '../../../lib/tmdb';
 import MediaGrid from './MediaGrid';
-import { useWatchlistStore, WatchlistItem } from '../../../lib/watchlistStore';
-import { useWatchedStore } from '../../../lib/watchedStore';
-
-// Extended item type that might have genre_ids
-interface ExtendedItem extends WatchlistItem {
-  genre_ids?: number[];
-}
+import { useLibraryStore } from '../../../lib/libraryStore';
+import { Media, getMediaKey } from '../../../lib/media';
 
 export default function ForYouTVScreen() {
   const [recommendations, setRecommendations] = useState<TMDbSearchResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  const { items: watchlistItems } = useWatchlistStore();
-  const { items: watchedItems } = useWatchedStore();
+  const libraryItems = useLibraryStore(state => state.items);
 
   useEffect(() => {
     const generateTVRecommendations = async () => {
@@ -24,7 +18,7 @@ export default function ForYouTVScreen() {
         setLoading(true);
         
         // Get genres from user's watchlist and watched items
-        const userItems = [...watchlistItems, ...watchedItems] as ExtendedItem[];
+        const userItems: Media[] = libraryItems;
         
         // Filter to only TV shows
         const userTVItems = userItems.filter(item => item.media_type === 'tv');
@@ -75,12 +69,12 @@ export default function ForYouTVScreen() {
         
         // Combine results, remove duplicates, and filter out items already in watchlist/watched
         const combinedResults: TMDbSearchResult[] = [];
-        const userItemIds = new Set(userItems.map(item => item.id));
+        const userItemKeys = new Set(userItems.map(item => getMediaKey(item)));
         
         results.forEach(response => {
           response.results.forEach(item => {
             // Skip if already in user's list or already added to recommendations
-            if (userItemIds.has(item.id) || combinedResults.some(r => r.id === item.id)) {
+            if (userItemKeys.has(`${item.media_type}_${item.id}`) || combinedResults.some(r => r.id === item.id && r.media_type === item.media_type)) {
               return;
             }
             // Set the media_type to ensure it's correct
@@ -111,7 +105,7 @@ export default function ForYouTVScreen() {
     };
 
     generateTVRecommendations();
-  }, [watchlistItems, watchedItems]);
+  }, [libraryItems]);
 
   if (loading) {
     return (
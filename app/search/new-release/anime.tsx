@@ -45,7 +45,7 @@ export default function NewReleaseAnimeScreen() {
         // Filter for anime content - using language to help identify anime
         const animeContent = [...animeTV.results, ...animeMovies.results].filter(item => {
           const isAnimation = item.genre_ids?.includes(16);
-          const isAsian = ['ja', 'ko', 'zh'].includes((item as any).original_language);
+          const isAsian = ['ja', 'ko', 'zh'].includes(item.original_language || '');
           
           // Include any animation that's from Japan/Korea/China
           return isAnimation && isAsian;
@@ -34,7 +34,7 @@ export default function NewReleaseMoviesScreen() {
         // Filter out animated content to match app's movies category
         const nonAnimatedMovies = response.results.filter(movie => {
           const isAnimation = movie.genre_ids?.includes(16);
-          const isEnglish = (movie as any).original_language === 'en';
+          const isEnglish = movie.original_language === 'en';
           return !isAnimation && isEnglish;
         });
         
@@ -34,7 +34,7 @@ export default function NewReleaseTVScreen() {
         // Filter out animated content to match app's TV category
         const nonAnimatedTV = response.results.filter(show => {
           const isAnimation = show.genre_ids?.includes(16);
-          const isEnglish = (show as any).original_language === 'en';
+          const isEnglish = show.original_language === 'en';
           return !isAnimation && isEnglish;
         });
         
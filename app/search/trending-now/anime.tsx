@@ -19,7 +19,7 @@ export default function TrendingAnimeScreen() {
         // Anime is considered: animation genre OR Japanese/Korean/Chinese origin
         const animeContent = response.results.filter(item => {
           const isAnimation = item.genre_ids?.includes(16);
-          const isAsian = ['ja', 'ko', 'zh'].includes((item as any).original_language);
+          const isAsian = ['ja', 'ko', 'zh'].includes(item.original_language || '');
           
           // Include any animation OR any Japanese/Korean/Chinese content
           return isAnimation || isAsian;
@@ -0,0 +1,481 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image } from 'react-native';
+import { useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, Film, Tv, Flame, Star } from 'lucide-react-native';
+import { useLibraryStore } from '../lib/libraryStore';
+import { useRuntimeStore } from '../lib/runtimeStore';
+import { getGenres } from '../lib/tmdb';
+import {
+  Viewing,
+  countByMonth,
+  getGenreBreakdown,
+  getStreaks,
+  getTopRated,
+  getViewings,
+  getViewingsInYear,
+  getWatchedYears,
+  getYearInReview,
+  needsRuntime,
+  toWatchHours
+} from '../lib/stats';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const CHART_HEIGHT = 120;
+const GENRE_LIMIT = 8;
+
+// Statistics and the yearly "wrapped" summary, all derived from the watch history in the library
+export default function StatsScreen() {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const libraryItems = useLibraryStore(state => state.items);
+  const runtimes = useRuntimeStore(state => state.runtimes);
+  const loadRuntimes = useRuntimeStore(state => state.loadRuntimes);
+  const [genreNames, setGenreNames] = useState<Record<number, string>>({});
+  const [year, setYear] = useState(new Date().getFullYear());
+
+  const viewings = useMemo(() => getViewings(libraryItems), [libraryItems]);
+  const years = useMemo(() => {
+    const watchedYears = getWatchedYears(viewings);
+    const currentYear = new Date().getFullYear();
+    return watchedYears.includes(currentYear) ? watchedYears : [currentYear, ...watchedYears];
+  }, [viewings]);
+
+  const yearViewings = useMemo(() => getViewingsInYear(viewings, year), [viewings, year]);
+  const monthCounts = useMemo(() => countByMonth(yearViewings, year), [yearViewings, year]);
+  const genres = useMemo(() => getGenreBreakdown(yearViewings, genreNames), [yearViewings, genreNames]);
+  const topRated = useMemo(() => getTopRated(yearViewings), [yearViewings]);
+  const streaks = useMemo(() => getStreaks(viewings), [viewings]);
+  const wrapped = useMemo(
+    () => getYearInReview(viewings, year, runtimes, genreNames),
+    [viewings, year, runtimes, genreNames]
+  );
+
+  useEffect(() => {
+    loadRuntimes(libraryItems.filter(needsRuntime));
+  }, [libraryItems, loadRuntimes]);
+
+  // Genre ids of library items are mapped to names with the (cached) TMDb genre lists
+  useEffect(() => {
+    const loadGenreNames = async () => {
+      try {
+        const [movieGenres, tvGenres] = await Promise.all([getGenres('movie'), getGenres('tv')]);
+        const names: Record<number, string> = {};
+        [...movieGenres, ...tvGenres].forEach(genre => {
+          names[genre.id] = genre.name;
+        });
+        setGenreNames(names);
+      } catch (error) {
+        console.error('Failed to load genres:', error);
+      }
+    };
+
+    loadGenreNames();
+  }, []);
+
+  const openDetails = (viewing: Viewing) => {
+    router.push({
+      pathname: '/details/[type]/[id]',
+      params: { type: viewing.item.media_type, id: viewing.item.id.toString() }
+    });
+  };
+
+  const maxMonthCount = Math.max(1, ...monthCounts);
+  const maxGenreCount = Math.max(1, ...genres.map(genre => genre.count));
+  const movieShare = wrapped.totalWatched > 0 ? wrapped.moviesWatched / wrapped.totalWatched : 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Your Stats</Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.yearTabs}>
+        {years.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.yearTab, option === year && styles.activeYearTab]}
+            onPress={() => setYear(option)}
+          >
+            <Text style={[styles.yearTabText, option === year && styles.activeYearTabText]}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Wrapped */}
+        <View style={styles.wrappedCard}>
+          <Text style={styles.wrappedHeading}>{year} Wrapped</Text>
+          {wrapped.totalWatched === 0 ? (
+            <Text style={styles.emptyText}>Nothing watched in {year} yet.</Text>
+          ) : (
+            <>
+              <View style={styles.summaryRow}>
+                <View style={styles.summaryBox}>
+                  <Text style={styles.summaryValue}>{wrapped.totalWatched}</Text>
+                  <Text style={styles.summaryLabel}>Watched</Text>
+                </View>
+                <View style={styles.summaryBox}>
+                  <Text style={styles.summaryValue}>{toWatchHours(wrapped.watchMinutes)}h</Text>
+                  <Text style={styles.summaryLabel}>Watch Time</Text>
+                </View>
+                <View style={styles.summaryBox}>
+                  <Text style={styles.summaryValue}>
+                    {wrapped.avgRating !== null ? wrapped.avgRating.toFixed(1) : '-'}
+                  </Text>
+                  <Text style={styles.summaryLabel}>Avg Rating</Text>
+                </View>
+              </View>
+              {wrapped.topGenre && (
+                <Text style={styles.wrappedLine}>
+                  Your top genre was <Text style={styles.wrappedHighlight}>{wrapped.topGenre}</Text>
+                </Text>
+              )}
+              {wrapped.busiestMonth !== null && (
+                <Text style={styles.wrappedLine}>
+                  You watched the most in <Text style={styles.wrappedHighlight}>{MONTHS[wrapped.busiestMonth]}</Text>
+                </Text>
+              )}
+              {wrapped.topRated && (
+                <Text style={styles.wrappedLine}>
+                  Your favorite was{' '}
+                  <Text style={styles.wrappedHighlight}>{wrapped.topRated.item.title}</Text>
+                  {' '}(★ {wrapped.topRated.event.rating?.toFixed(1)})
+                </Text>
+              )}
+              {wrapped.firstWatch && (
+                <Text style={styles.wrappedLine}>
+                  You started the year with{' '}
+                  <Text style={styles.wrappedHighlight}>{wrapped.firstWatch.item.title}</Text>
+                </Text>
+              )}
+              {wrapped.longestStreak > 1 && (
+                <Text style={styles.wrappedLine}>
+                  Longest streak: <Text style={styles.wrappedHighlight}>{wrapped.longestStreak} days</Text> in a row
+                </Text>
+              )}
+            </>
+          )}
+        </View>
+
+        {/* Watched per month */}
+        <Text style={styles.sectionTitle}>Watched per Month</Text>
+        <View style={styles.card}>
+          <View style={styles.chart}>
+            {monthCounts.map((count, month) => (
+              <View key={month} style={styles.chartColumn}>
+                <Text style={styles.chartValue}>{count > 0 ? count : ''}</Text>
+                <View style={[styles.chartBar, { height: (count / maxMonthCount) * CHART_HEIGHT }]} />
+                <Text style={styles.chartLabel}>{MONTHS[month].charAt(0)}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Movies vs TV */}
+        <Text style={styles.sectionTitle}>Movies vs TV</Text>
+        <View style={styles.card}>
+          <View style={styles.splitBar}>
+            <View style={[styles.splitMovies, { flex: movieShare }]} />
+            <View style={[styles.splitShows, { flex: wrapped.totalWatched > 0 ? 1 - movieShare : 1 }]} />
+          </View>
+          <View style={styles.splitLegend}>
+            <View style={styles.legendItem}>
+              <Film size={16} color="#8c52ff" />
+              <Text style={styles.legendText}>{wrapped.moviesWatched} movies</Text>
+            </View>
+            <View style={styles.legendItem}>
+              <Tv size={16} color="#4CAF50" />
+              <Text style={styles.legendText}>{wrapped.showsWatched} shows</Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Genres */}
+        <Text style={styles.sectionTitle}>Genres</Text>
+        <View style={styles.card}>
+          {genres.length === 0 ? (
+            <Text style={styles.emptyText}>No genres yet.</Text>
+          ) : (
+            genres.slice(0, GENRE_LIMIT).map(genre => (
+              <View key={genre.genre} style={styles.genreRow}>
+                <Text style={styles.genreName} numberOfLines={1}>{genre.genre}</Text>
+                <View style={styles.genreTrack}>
+                  <View style={[styles.genreFill, { width: `${(genre.count / maxGenreCount) * 100}%` }]} />
+                </View>
+                <Text style={styles.genreCount}>{genre.count}</Text>
+                <Text style={styles.genreRating}>
+                  {genre.avgRating !== null ? `★ ${genre.avgRating.toFixed(1)}` : ''}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Top rated */}
+        <Text style={styles.sectionTitle}>Top Rated</Text>
+        <View style={styles.card}>
+          {topRated.length === 0 ? (
+            <Text style={styles.emptyText}>Rate what you watch to see your favorites here.</Text>
+          ) : (
+            topRated.map((viewing, index) => (
+              <TouchableOpacity
+                key={`${viewing.item.media_type}-${viewing.item.id}`}
+                style={styles.topRatedRow}
+                onPress={() => openDetails(viewing)}
+              >
+                <Text style={styles.topRatedRank}>{index + 1}</Text>
+                <Image
+                  source={{
+                    uri: viewing.item.poster_path
+                      ? `https://image.tmdb.org/t/p/w92${viewing.item.poster_path}`
+                      : 'https://via.placeholder.com/92x138?text=No+Poster',
+                  }}
+                  style={styles.topRatedPoster}
+                />
+                <Text style={styles.topRatedTitle} numberOfLines={1}>{viewing.item.title}</Text>
+                <Star size={14} color="#FFD700" fill="#FFD700" />
+                <Text style={styles.topRatedRating}>{viewing.event.rating?.toFixed(1)}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        {/* Streaks (all time) */}
+        <Text style={styles.sectionTitle}>Streaks</Text>
+        <View style={[styles.card, styles.summaryRow]}>
+          <View style={styles.summaryBox}>
+            <Flame size={20} color="#ff6b6b" />
+            <Text style={styles.summaryValue}>{streaks.current}</Text>
+            <Text style={styles.summaryLabel}>Current (days)</Text>
+          </View>
+          <View style={styles.summaryBox}>
+            <Flame size={20} color="#FFD700" />
+            <Text style={styles.summaryValue}>{streaks.longest}</Text>
+            <Text style={styles.summaryLabel}>Longest (days)</Text>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  yearTabs: {
+    flexGrow: 0,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  yearTab: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 50,
+    backgroundColor: '#2a2a2a',
+    marginRight: 8,
+  },
+  activeYearTab: {
+    backgroundColor: '#8c52ff',
+  },
+  yearTabText: {
+    color: '#fff',
+  },
+  activeYearTabText: {
+    fontWeight: 'bold',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  wrappedCard: {
+    backgroundColor: '#2a1a4a',
+    borderRadius: 12,
+    padding: 16,
+  },
+  wrappedHeading: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  wrappedLine: {
+    color: '#ccc',
+    fontSize: 15,
+    marginTop: 8,
+  },
+  wrappedHighlight: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 8,
+  },
+  summaryBox: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  summaryValue: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 14,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  chartValue: {
+    color: '#ccc',
+    fontSize: 10,
+    marginBottom: 2,
+  },
+  chartBar: {
+    width: '60%',
+    backgroundColor: '#8c52ff',
+    borderRadius: 2,
+  },
+  chartLabel: {
+    color: '#999',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  splitBar: {
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: '#333',
+  },
+  splitMovies: {
+    backgroundColor: '#8c52ff',
+  },
+  splitShows: {
+    backgroundColor: '#4CAF50',
+  },
+  splitLegend: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendText: {
+    color: '#ccc',
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  genreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  genreName: {
+    color: '#fff',
+    fontSize: 14,
+    width: 100,
+  },
+  genreTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+    marginHorizontal: 8,
+  },
+  genreFill: {
+    height: '100%',
+    backgroundColor: '#8c52ff',
+  },
+  genreCount: {
+    color: '#ccc',
+    fontSize: 13,
+    width: 28,
+    textAlign: 'right',
+  },
+  genreRating: {
+    color: '#FFD700',
+    fontSize: 12,
+    width: 48,
+    textAlign: 'right',
+  },
+  topRatedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  topRatedRank: {
+    color: '#999',
+    fontSize: 14,
+    width: 20,
+  },
+  topRatedPoster: {
+    width: 32,
+    height: 48,
+    borderRadius: 4,
+    marginRight: 10,
+  },
+  topRatedTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    marginRight: 8,
+  },
+  topRatedRating: {
+    color: '#FFD700',
+    fontSize: 14,
+    marginLeft: 4,
+  },
+});
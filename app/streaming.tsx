@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation } from 'expo-router';
+import { ArrowLeft, Check, ChevronDown, ChevronUp, Search } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useStreamingStore } from '../lib/streamingStore';
+import { getRegionProviders, getWatchRegions, TMDbWatchProvider, TMDbWatchRegion } from '../lib/tmdb';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 2000,
+    autoHide: true,
+  });
+};
+
+// Settings are saved to the user's account, so they need a signed-in user
+const warnIfNotSaved = (saved: boolean) => {
+  if (!saved) showToast('Failed to save your streaming settings', 'error');
+};
+
+// Region and streaming services used for provider badges and the "on my services" filter
+export default function StreamingScreen() {
+  const navigation = useNavigation();
+  const { region, services, setRegion, toggleService } = useStreamingStore();
+  const [regions, setRegions] = useState<TMDbWatchRegion[]>([]);
+  const [providers, setProviders] = useState<TMDbWatchProvider[]>([]);
+  const [loadingProviders, setLoadingProviders] = useState(false);
+  const [pickingRegion, setPickingRegion] = useState(false);
+  const [regionQuery, setRegionQuery] = useState('');
+  const [serviceQuery, setServiceQuery] = useState('');
+
+  useEffect(() => {
+    getWatchRegions()
+      .then(setRegions)
+      .catch(error => console.error('Failed to load watch regions:', error));
+  }, []);
+
+  useEffect(() => {
+    const loadProviders = async () => {
+      setLoadingProviders(true);
+      try {
+        setProviders(await getRegionProviders(region));
+      } catch (error) {
+        console.error('Failed to load streaming services:', error);
+      } finally {
+        setLoadingProviders(false);
+      }
+    };
+
+    loadProviders();
+  }, [region]);
+
+  const regionName = regions.find(other => other.iso_3166_1 === region)?.english_name || region;
+
+  const shownRegions = useMemo(() => {
+    const query = regionQuery.trim().toLowerCase();
+    return query ? regions.filter(other => other.english_name.toLowerCase().includes(query)) : regions;
+  }, [regions, regionQuery]);
+
+  // The user's services first, then the rest in TMDb's order
+  const shownProviders = useMemo(() => {
+    const query = serviceQuery.trim().toLowerCase();
+    const isSelected = (provider: TMDbWatchProvider) =>
+      services.some(service => service.provider_id === provider.provider_id);
+    return providers
+      .filter(provider => !query || provider.provider_name.toLowerCase().includes(query))
+      .sort((a, b) => Number(isSelected(b)) - Number(isSelected(a)));
+  }, [providers, services, serviceQuery]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Streaming</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionTitle}>Region</Text>
+        <Text style={styles.sectionHint}>Where to look up what's streaming.</Text>
+        <TouchableOpacity style={styles.option} onPress={() => setPickingRegion(!pickingRegion)}>
+          <Text style={styles.optionLabel}>{regionName}</Text>
+          {pickingRegion ? <ChevronUp size={20} color="#999" /> : <ChevronDown size={20} color="#999" />}
+        </TouchableOpacity>
+
+        {pickingRegion && (
+          <View style={styles.regionPicker}>
+            <View style={styles.searchBox}>
+              <Search size={18} color="#999" />
+              <TextInput
+                style={styles.searchInput}
+                value={regionQuery}
+                onChangeText={setRegionQuery}
+                placeholder="Find a country"
+                placeholderTextColor="#666"
+                autoCorrect={false}
+              />
+            </View>
+            <ScrollView style={styles.regionList} nestedScrollEnabled>
+              {shownRegions.map(other => (
+                <TouchableOpacity
+                  key={other.iso_3166_1}
+                  style={styles.regionRow}
+                  onPress={() => {
+                    setRegion(other.iso_3166_1).then(warnIfNotSaved);
+                    setPickingRegion(false);
+                    setRegionQuery('');
+                  }}
+                >
+                  <Text style={styles.optionLabel}>{other.english_name}</Text>
+                  {other.iso_3166_1 === region && <Check size={18} color="#8c52ff" />}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Your services ({services.length})</Text>
+        <Text style={styles.sectionHint}>
+          Titles on these show up under "On my services" in your watchlist and when browsing.
+        </Text>
+        <View style={styles.searchBox}>
+          <Search size={18} color="#999" />
+          <TextInput
+            style={styles.searchInput}
+            value={serviceQuery}
+            onChangeText={setServiceQuery}
+            placeholder="Find a service"
+            placeholderTextColor="#666"
+            autoCorrect={false}
+          />
+        </View>
+
+        {loadingProviders ? (
+          <ActivityIndicator size="large" color="#8c52ff" style={styles.loading} />
+        ) : (
+          shownProviders.map(provider => {
+            const selected = services.some(service => service.provider_id === provider.provider_id);
+            return (
+              <TouchableOpacity
+                key={provider.provider_id}
+                style={styles.option}
+                onPress={() => toggleService({
+                  provider_id: provider.provider_id,
+                  provider_name: provider.provider_name,
+                  logo_path: provider.logo_path
+                }).then(warnIfNotSaved)}
+              >
+                <Image
+                  source={{ uri: `https://image.tmdb.org/t/p/w92${provider.logo_path}` }}
+                  style={styles.logo}
+                />
+                <Text style={[styles.optionLabel, styles.providerName]} numberOfLines={1}>
+                  {provider.provider_name}
+                </Text>
+                <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                  {selected && <Check size={14} color="#fff" />}
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        <Text style={styles.attribution}>Streaming data by JustWatch</Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  sectionHint: {
+    color: '#999',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  optionLabel: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  regionPicker: {
+    marginBottom: 8,
+  },
+  regionList: {
+    maxHeight: 260,
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  regionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    paddingVertical: 10,
+    marginLeft: 8,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  logo: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+  },
+  providerName: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#444',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  checkboxSelected: {
+    backgroundColor: '#8c52ff',
+    borderColor: '#8c52ff',
+  },
+  attribution: {
+    color: '#666',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
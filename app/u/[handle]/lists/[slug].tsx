@@ -0,0 +1,306 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Film, Tv, Star, Copy } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { fetchPublicList, getCurrentSession, PublicList } from '../../../../lib/supabase';
+import { useLibraryStore } from '../../../../lib/libraryStore';
+import { Media, getReleaseYear, getMediaKey } from '../../../../lib/media';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 2000, // 2 seconds
+    autoHide: true,
+  });
+};
+
+// Read-only page of a shared list, open to anyone with the link
+export default function PublicListScreen() {
+  const { handle, slug } = useLocalSearchParams<{ handle: string; slug: string }>();
+  const router = useRouter();
+  const addItem = useLibraryStore(state => state.addItem);
+  const [list, setList] = useState<PublicList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copying, setCopying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadList = async () => {
+      setLoading(true);
+      try {
+        const fetched = await fetchPublicList(handle, slug);
+        if (!cancelled) setList(fetched);
+      } catch (error) {
+        console.error('Failed to load shared list:', error);
+        if (!cancelled) setList(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    if (handle && slug) {
+      loadList();
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [handle, slug]);
+
+  // Add every title not in the library yet to the viewer's watchlist
+  const handleCopy = async () => {
+    if (!list || copying) return;
+
+    const session = await getCurrentSession();
+    if (!session?.user) {
+      showToast('Sign in to copy this list', 'info');
+      router.push('/login');
+      return;
+    }
+
+    setCopying(true);
+    let added = 0;
+    for (const item of list.items) {
+      if (await addItem(item, 'planned')) {
+        added++;
+      }
+    }
+    setCopying(false);
+
+    showToast(added > 0
+      ? `Added ${added} title${added !== 1 ? 's' : ''} to your watchlist`
+      : 'Everything here is already in your library', 'success');
+  };
+
+  const renderItem = ({ item }: { item: Media }) => (
+    <TouchableOpacity
+      style={styles.itemContainer}
+      onPress={() => {
+        router.push({
+          pathname: '/details/[type]/[id]',
+          params: { type: item.media_type, id: item.id.toString() }
+        });
+      }}
+    >
+      <Image
+        source={{
+          uri: item.poster_path
+            ? `https://image.tmdb.org/t/p/w154${item.poster_path}`
+            : 'https://via.placeholder.com/154x231?text=No+Poster',
+        }}
+        style={styles.poster}
+        resizeMode="cover"
+      />
+      <View style={styles.itemContent}>
+        <Text style={styles.itemTitle} numberOfLines={2}>{item.title}</Text>
+        <View style={styles.itemMetaRow}>
+          {item.media_type === 'movie' ? <Film size={12} color="#999" /> : <Tv size={12} color="#999" />}
+          <Text style={styles.itemMeta}>{getReleaseYear(item)}</Text>
+          <Star size={12} color="#FFD700" fill="#FFD700" />
+          <Text style={styles.itemMeta}>{item.vote_average.toFixed(1)}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#8c52ff" />
+      </View>
+    );
+  }
+
+  if (!list) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyStateText}>This list doesn't exist or isn't shared anymore.</Text>
+        <TouchableOpacity style={styles.homeButton} onPress={() => router.replace('/')}>
+          <Text style={styles.homeButtonText}>Go to VibeWatch</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const cover = list.cover_path || list.items.find(item => item.poster_path)?.poster_path;
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={list.items}
+        renderItem={renderItem}
+        keyExtractor={(item) => getMediaKey(item)}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          <View>
+            <View style={styles.listInfo}>
+              {cover && (
+                <Image source={{ uri: `https://image.tmdb.org/t/p/w342${cover}` }} style={styles.cover} />
+              )}
+              <View style={styles.listText}>
+                <Text style={styles.owner}>@{list.handle}</Text>
+                <Text style={styles.title}>{list.name}</Text>
+                {list.description ? <Text style={styles.description}>{list.description}</Text> : null}
+                <Text style={styles.count}>
+                  {list.items.length} title{list.items.length !== 1 ? 's' : ''}
+                </Text>
+              </View>
+            </View>
+
+            {list.items.length > 0 && (
+              <TouchableOpacity
+                style={[styles.copyButton, copying && styles.copyButtonDisabled]}
+                onPress={handleCopy}
+                disabled={copying}
+              >
+                {copying ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <>
+                    <Copy size={18} color="#fff" />
+                    <Text style={styles.copyButtonText}>Copy to my watchlist</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+
+            {list.items.length === 0 && (
+              <Text style={styles.emptyStateText}>This list is empty.</Text>
+            )}
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  list: {
+    padding: 16,
+    width: '100%',
+    maxWidth: 720,
+    alignSelf: 'center',
+  },
+  listInfo: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  cover: {
+    width: 90,
+    height: 135,
+    borderRadius: 8,
+    marginRight: 16,
+  },
+  listText: {
+    flex: 1,
+  },
+  owner: {
+    color: '#999',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+    marginBottom: 8,
+  },
+  description: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  count: {
+    color: '#999',
+    fontSize: 13,
+  },
+  copyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#8c52ff',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginBottom: 20,
+  },
+  copyButtonDisabled: {
+    opacity: 0.6,
+  },
+  copyButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  itemContainer: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 16,
+    flexDirection: 'row',
+    height: 96,
+  },
+  poster: {
+    width: 64,
+    height: 96,
+  },
+  itemContent: {
+    flex: 1,
+    padding: 10,
+    justifyContent: 'space-between',
+  },
+  itemTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  itemMetaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemMeta: {
+    color: '#999',
+    fontSize: 12,
+    marginLeft: 4,
+    marginRight: 12,
+  },
+  emptyStateText: {
+    color: '#999',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  homeButton: {
+    marginTop: 16,
+    backgroundColor: '#8c52ff',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  homeButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,813 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Animated,
+  PanResponder
+} from 'react-native';
+import { useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
+import { ArrowLeft, Check, Clock, Heart, Popcorn, Shuffle, Star, Trophy, Users, X } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { useListStore, getMemberName, isSharedList } from '../lib/listStore';
+import { useSocialStore } from '../lib/socialStore';
+import { useRuntimeStore } from '../lib/runtimeStore';
+import { fetchGroupWatchlists } from '../lib/supabase';
+import { getReleaseYear, Media } from '../lib/media';
+import { formatRuntime } from '../lib/mediaDetails';
+import {
+  rankCandidates,
+  pickWinner,
+  countYesVotes,
+  GROUP_PICK_SIZE,
+  GroupVotes,
+  WatchCandidate
+} from '../lib/watchTogether';
+
+// Handler for toast notifications
+const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: 1000, // 1 second
+    autoHide: true,
+  });
+};
+
+const TIME_OPTIONS: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'Any length' },
+  { minutes: 90, label: '1h 30' },
+  { minutes: 120, label: '2h' },
+  { minutes: 180, label: '3h' }
+];
+
+// How far a card has to be dragged to count as a vote
+const SWIPE_THRESHOLD = 120;
+
+type Step = 'group' | 'results' | 'vote' | 'winner';
+
+interface GroupMember {
+  user_id: string;
+  name: string;
+}
+
+// Find titles everyone in a group wants to watch, then let each member vote on the best ones
+export default function WatchTogetherScreen() {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const { listId } = useLocalSearchParams<{ listId?: string }>();
+  const lists = useListStore(state => state.lists);
+  const userId = useListStore(state => state.lastSyncUserId);
+  const { following, followers, loadFollows } = useSocialStore();
+  const runtimes = useRuntimeStore(state => state.runtimes);
+  const loadRuntimes = useRuntimeStore(state => state.loadRuntimes);
+
+  const [step, setStep] = useState<Step>('group');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [availableMinutes, setAvailableMinutes] = useState<number | null>(null);
+  const [watchlists, setWatchlists] = useState<Record<string, Media[]> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [votes, setVotes] = useState<GroupVotes>({});
+  const [voterIndex, setVoterIndex] = useState(0);
+  const [cardIndex, setCardIndex] = useState(0);
+  const [handoff, setHandoff] = useState(true);
+  const [winner, setWinner] = useState<WatchCandidate | null>(null);
+
+  useEffect(() => {
+    loadFollows();
+  }, [loadFollows]);
+
+  const sharedLists = useMemo(() => lists.filter(isSharedList), [lists]);
+
+  // Everyone whose watchlist the user can read: list members and mutual follows
+  const people = useMemo(() => {
+    const byId = new Map<string, GroupMember>();
+    sharedLists.forEach(list => {
+      (list.members || []).forEach(member => {
+        if (member.user_id !== userId && !byId.has(member.user_id)) {
+          byId.set(member.user_id, { user_id: member.user_id, name: getMemberName(member) });
+        }
+      });
+    });
+    following
+      .filter(follow => follow.status === 'accepted')
+      .filter(follow => followers.some(other => other.user_id === follow.user_id && other.status === 'accepted'))
+      .forEach(follow => {
+        byId.set(follow.user_id, {
+          user_id: follow.user_id,
+          name: follow.handle ? `@${follow.handle}` : follow.display_name || 'Friend'
+        });
+      });
+    return [...byId.values()];
+  }, [sharedLists, following, followers, userId]);
+
+  // Coming from a shared list, start with its members (once, so list syncs don't undo changes)
+  const preselected = useRef(false);
+  useEffect(() => {
+    const list = lists.find(other => other.id === listId);
+    if (list && userId && !preselected.current) {
+      preselected.current = true;
+      setSelectedIds((list.members || []).map(member => member.user_id).filter(id => id !== userId));
+    }
+  }, [listId, lists, userId]);
+
+  const selectListMembers = (memberIds: string[]) => {
+    setSelectedIds(memberIds.filter(id => id !== userId));
+  };
+
+  const group = useMemo<GroupMember[]>(() => [
+    ...(userId ? [{ user_id: userId, name: 'You' }] : []),
+    ...people.filter(person => selectedIds.includes(person.user_id))
+  ], [people, selectedIds, userId]);
+
+  const candidates = useMemo(
+    () => watchlists ? rankCandidates(watchlists, runtimes, availableMinutes) : [],
+    [watchlists, runtimes, availableMinutes]
+  );
+  const pickCandidates = useMemo(() => candidates.slice(0, GROUP_PICK_SIZE), [candidates]);
+
+  // Runtime fit needs the length of every candidate
+  useEffect(() => {
+    if (candidates.length > 0) {
+      loadRuntimes(candidates.map(candidate => candidate.media));
+    }
+  }, [candidates, loadRuntimes]);
+
+  const togglePerson = (personId: string) => {
+    setSelectedIds(ids => ids.includes(personId) ? ids.filter(id => id !== personId) : [...ids, personId]);
+  };
+
+  const findMatches = async () => {
+    setLoading(true);
+    try {
+      const fetched = await fetchGroupWatchlists(group.map(member => member.user_id));
+      console.log(`Fetched watchlists of ${group.length} group members`);
+      setWatchlists(fetched);
+      setStep('results');
+    } catch (error) {
+      console.error('Failed to fetch group watchlists:', error);
+      showToast('Failed to load the watchlists', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startGroupPick = () => {
+    setVotes({});
+    setVoterIndex(0);
+    setCardIndex(0);
+    setHandoff(true);
+    setWinner(null);
+    setStep('vote');
+  };
+
+  const surpriseMe = () => {
+    setWinner(pickWinner(candidates, {}));
+    setStep('winner');
+  };
+
+  const voter = group[voterIndex];
+
+  const vote = (yes: boolean) => {
+    const candidate = pickCandidates[cardIndex];
+    if (!voter || !candidate) return;
+
+    const nextVotes = {
+      ...votes,
+      [voter.user_id]: { ...votes[voter.user_id], [candidate.key]: yes }
+    };
+    setVotes(nextVotes);
+
+    if (cardIndex + 1 < pickCandidates.length) {
+      setCardIndex(cardIndex + 1);
+    } else if (voterIndex + 1 < group.length) {
+      setVoterIndex(voterIndex + 1);
+      setCardIndex(0);
+      setHandoff(true);
+    } else {
+      setWinner(pickWinner(pickCandidates, nextVotes));
+      setStep('winner');
+    }
+  };
+
+  // Swiping the card right is a yes, left a no
+  const position = useRef(new Animated.ValueXY()).current;
+  const voteRef = useRef(vote);
+  voteRef.current = vote;
+
+  const panResponder = useRef(PanResponder.create({
+    onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) > 10,
+    onPanResponderMove: Animated.event([null, { dx: position.x }], { useNativeDriver: false }),
+    onPanResponderRelease: (_, gesture) => {
+      if (Math.abs(gesture.dx) < SWIPE_THRESHOLD) {
+        Animated.spring(position, { toValue: { x: 0, y: 0 }, useNativeDriver: false }).start();
+        return;
+      }
+
+      const yes = gesture.dx > 0;
+      Animated.timing(position, {
+        toValue: { x: yes ? 500 : -500, y: 0 },
+        duration: 200,
+        useNativeDriver: false
+      }).start(() => {
+        position.setValue({ x: 0, y: 0 });
+        voteRef.current(yes);
+      });
+    }
+  })).current;
+
+  const getOwnerNames = (candidate: WatchCandidate) =>
+    candidate.owners.map(ownerId => group.find(member => member.user_id === ownerId)?.name || 'Someone').join(', ');
+
+  const openDetails = (media: Media) => {
+    router.push({
+      pathname: '/details/[type]/[id]',
+      params: { type: media.media_type, id: media.id.toString() }
+    });
+  };
+
+  // Backdrop card in the style of the search spotlight
+  const renderSpotlight = (candidate: WatchCandidate, footer?: React.ReactNode) => (
+    <View style={styles.spotlightContainer}>
+      <Image
+        source={{
+          uri: candidate.media.backdrop_path
+            ? `https://image.tmdb.org/t/p/w780${candidate.media.backdrop_path}`
+            : candidate.media.poster_path
+              ? `https://image.tmdb.org/t/p/w342${candidate.media.poster_path}`
+              : 'https://via.placeholder.com/780x440?text=No+Image',
+        }}
+        style={styles.spotlightImage}
+        resizeMode="cover"
+      />
+      <View style={styles.spotlightGradient} />
+      <View style={styles.spotlightContent}>
+        <Text style={styles.spotlightTitle}>{candidate.media.title}</Text>
+        <View style={styles.spotlightMeta}>
+          <Text style={styles.spotlightMetaText}>{getReleaseYear(candidate.media)}</Text>
+          <Text style={styles.spotlightDot}>•</Text>
+          <Star size={14} color="#FFD700" fill="#FFD700" />
+          <Text style={styles.spotlightRatingText}>{candidate.media.vote_average.toFixed(1)}</Text>
+          {candidate.minutes !== undefined && (
+            <>
+              <Text style={styles.spotlightDot}>•</Text>
+              <Text style={styles.spotlightMetaText}>
+                {formatRuntime(candidate.minutes)}{candidate.media.media_type === 'tv' ? ' / episode' : ''}
+              </Text>
+            </>
+          )}
+        </View>
+        {candidate.media.overview ? (
+          <Text style={styles.spotlightOverview} numberOfLines={3}>{candidate.media.overview}</Text>
+        ) : null}
+        {footer}
+      </View>
+    </View>
+  );
+
+  const renderGroupStep = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      {sharedLists.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Shared lists</Text>
+          <View style={styles.chips}>
+            {sharedLists.map(list => (
+              <TouchableOpacity
+                key={list.id}
+                style={styles.chip}
+                onPress={() => selectListMembers((list.members || []).map(member => member.user_id))}
+              >
+                <Users size={14} color="#8c52ff" />
+                <Text style={styles.chipText} numberOfLines={1}>{list.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Who's watching</Text>
+      <Text style={styles.sectionHint}>
+        Members of your shared lists and friends who follow you back.
+      </Text>
+      {people.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateText}>Share a list or follow friends to watch together.</Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push('/friends')}>
+            <Text style={styles.secondaryButtonText}>Find Friends</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        people.map(person => {
+          const selected = selectedIds.includes(person.user_id);
+          return (
+            <TouchableOpacity key={person.user_id} style={styles.personRow} onPress={() => togglePerson(person.user_id)}>
+              <Text style={styles.personName} numberOfLines={1}>{person.name}</Text>
+              <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                {selected && <Check size={14} color="#fff" />}
+              </View>
+            </TouchableOpacity>
+          );
+        })
+      )}
+
+      <Text style={styles.sectionTitle}>Time you have</Text>
+      <View style={styles.chips}>
+        {TIME_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, availableMinutes === option.minutes && styles.chipSelected]}
+            onPress={() => setAvailableMinutes(option.minutes)}
+          >
+            <Clock size={14} color={availableMinutes === option.minutes ? '#fff' : '#8c52ff'} />
+            <Text style={styles.chipText}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, (selectedIds.length === 0 || loading) && styles.buttonDisabled]}
+        onPress={findMatches}
+        disabled={selectedIds.length === 0 || loading}
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Find Matches</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderResultsStep = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text style={styles.sectionHint}>
+        {group.map(member => member.name).join(', ')}
+      </Text>
+      {candidates.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateText}>
+            No title is on more than one of your watchlists yet. Add a few to a shared list and try again.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.primaryButton, styles.actionButton]} onPress={startGroupPick}>
+              <Popcorn size={18} color="#fff" />
+              <Text style={styles.primaryButtonText}>Group Pick</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.secondaryButton, styles.actionButton]} onPress={surpriseMe}>
+              <Shuffle size={18} color="#ccc" />
+              <Text style={styles.secondaryButtonText}>Surprise Me</Text>
+            </TouchableOpacity>
+          </View>
+
+          {candidates.map((candidate, index) => (
+            <TouchableOpacity key={candidate.key} style={styles.candidateRow} onPress={() => openDetails(candidate.media)}>
+              <Text style={styles.candidateRank}>{index + 1}</Text>
+              <Image
+                source={{
+                  uri: candidate.media.poster_path
+                    ? `https://image.tmdb.org/t/p/w154${candidate.media.poster_path}`
+                    : 'https://via.placeholder.com/154x231?text=No+Poster',
+                }}
+                style={styles.poster}
+              />
+              <View style={styles.candidateContent}>
+                <Text style={styles.candidateTitle} numberOfLines={2}>{candidate.media.title}</Text>
+                <Text style={styles.candidateOwners} numberOfLines={1}>
+                  {candidate.owners.length === group.length
+                    ? 'Everyone wants to watch this'
+                    : `${candidate.owners.length} of ${group.length}: ${getOwnerNames(candidate)}`}
+                </Text>
+                <View style={styles.candidateMeta}>
+                  <Star size={12} color="#FFD700" fill="#FFD700" />
+                  <Text style={styles.candidateMetaText}>{candidate.media.vote_average.toFixed(1)}</Text>
+                  {candidate.minutes !== undefined && (
+                    <Text style={[styles.candidateMetaText, candidate.runtimeFit < 1 && styles.tooLong]}>
+                      {formatRuntime(candidate.minutes)}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+
+  const renderVoteStep = () => {
+    if (!voter) return null;
+
+    // Hand the phone to the next member before showing their cards
+    if (handoff) {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={styles.handoffTitle}>
+            {voterIndex === 0 ? 'You vote first' : `Pass the phone to ${voter.name}`}
+          </Text>
+          <Text style={styles.emptyStateText}>
+            Swipe right on what you'd watch tonight, left on what you wouldn't.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => setHandoff(false)}>
+            <Text style={styles.primaryButtonText}>Start Voting</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const candidate = pickCandidates[cardIndex];
+    if (!candidate) return null;
+
+    const rotate = position.x.interpolate({
+      inputRange: [-300, 0, 300],
+      outputRange: ['-12deg', '0deg', '12deg']
+    });
+
+    return (
+      <View style={styles.content}>
+        <Text style={styles.sectionHint}>
+          {voter.name} · {cardIndex + 1} of {pickCandidates.length}
+        </Text>
+        <Animated.View
+          style={{ transform: [{ translateX: position.x }, { rotate }] }}
+          {...panResponder.panHandlers}
+        >
+          {renderSpotlight(candidate, (
+            <Text style={styles.spotlightOwners} numberOfLines={1}>On the watchlist of {getOwnerNames(candidate)}</Text>
+          ))}
+        </Animated.View>
+        <View style={styles.voteButtons}>
+          <TouchableOpacity style={[styles.voteButton, styles.voteNo]} onPress={() => vote(false)}>
+            <X size={28} color="#fff" />
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.voteButton, styles.voteYes]} onPress={() => vote(true)}>
+            <Heart size={28} color="#fff" fill="#fff" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderWinnerStep = () => {
+    if (!winner) return null;
+
+    const yes = countYesVotes(winner, votes);
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.winnerHeader}>
+          <Trophy size={22} color="#FFD700" />
+          <Text style={styles.winnerTitle}>Tonight you're watching</Text>
+        </View>
+        {renderSpotlight(winner, (
+          <TouchableOpacity style={styles.spotlightButton} onPress={() => openDetails(winner.media)}>
+            <Text style={styles.primaryButtonText}>View Details</Text>
+          </TouchableOpacity>
+        ))}
+        <Text style={styles.sectionHint}>
+          {Object.keys(votes).length === 0
+            ? 'Picked at random from your best matches.'
+            : yes > 0
+              ? `${yes} of ${group.length} voted for it.`
+              : 'Nobody said yes to anything, so this one was picked at random.'}
+        </Text>
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.secondaryButton, styles.actionButton]} onPress={() => setStep('results')}>
+            <Text style={styles.secondaryButtonText}>All Matches</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.primaryButton, styles.actionButton]} onPress={startGroupPick}>
+            <Text style={styles.primaryButtonText}>Vote Again</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const goBack = () => {
+    if (step === 'group') {
+      navigation.goBack();
+    } else {
+      setStep(step === 'results' ? 'group' : 'results');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={goBack}>
+          <ArrowLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Watch Together</Text>
+      </View>
+
+      {step === 'group' && renderGroupStep()}
+      {step === 'results' && renderResultsStep()}
+      {step === 'vote' && renderVoteStep()}
+      {step === 'winner' && renderWinnerStep()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#8c52ff',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionHint: {
+    color: '#999',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    maxWidth: 200,
+  },
+  chipSelected: {
+    backgroundColor: '#8c52ff',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    marginLeft: 6,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  personName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: '#8c52ff',
+    borderColor: '#8c52ff',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 15,
+    marginLeft: 6,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#444',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    marginTop: 20,
+  },
+  secondaryButtonText: {
+    color: '#ccc',
+    fontSize: 15,
+    marginLeft: 6,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  candidateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  candidateRank: {
+    width: 32,
+    color: '#8c52ff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  poster: {
+    width: 54,
+    height: 81,
+  },
+  candidateContent: {
+    flex: 1,
+    padding: 10,
+  },
+  candidateTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  candidateOwners: {
+    color: '#8c52ff',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  candidateMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  candidateMetaText: {
+    color: '#999',
+    fontSize: 12,
+    marginLeft: 4,
+    marginRight: 12,
+  },
+  tooLong: {
+    color: '#ff6b6b',
+  },
+  spotlightContainer: {
+    height: 320,
+    borderRadius: 16,
+    overflow: 'hidden',
+    position: 'relative',
+    marginBottom: 16,
+  },
+  spotlightImage: {
+    width: '100%',
+    height: '100%',
+  },
+  spotlightGradient: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    height: '100%',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  spotlightContent: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 16,
+  },
+  spotlightTitle: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  spotlightMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  spotlightMetaText: {
+    color: '#ccc',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  spotlightDot: {
+    color: '#ccc',
+    fontSize: 14,
+    marginHorizontal: 6,
+  },
+  spotlightRatingText: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  spotlightOverview: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  spotlightOwners: {
+    color: '#8c52ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  spotlightButton: {
+    backgroundColor: '#ff6b6b',
+    borderRadius: 22,
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  voteButtons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  voteButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 24,
+  },
+  voteNo: {
+    backgroundColor: '#444',
+  },
+  voteYes: {
+    backgroundColor: '#ff6b6b',
+  },
+  handoffTitle: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  winnerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  winnerTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyStateText: {
+    color: '#999',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
@@ -1,8 +1,13 @@
 import { useEffect, useState, useRef } from 'react';
 import { useRouter, useSegments } from 'expo-router';
 import { supabase, getCurrentSession } from '@/lib/supabase';
-import { useWatchlistStore } from '@/lib/watchlistStore';
-import { useWatchedStore } from '@/lib/watchedStore';
+import { useLibraryStore } from '@/lib/libraryStore';
+import { useListStore } from '@/lib/listStore';
+import { useProfileStore } from '@/lib/profileStore';
+import { useSocialStore } from '@/lib/socialStore';
+import { useStreamingStore } from '@/lib/streamingStore';
+import { startRealtimeSync, stopRealtimeSync } from '@/lib/realtimeSync';
+import { clearReminders } from '@/lib/reminders';
 
 /**
  * Authentication Hook
@@ -36,10 +41,14 @@ export default function useAuth() {
   const authSubscriptionRef = useRef<{ unsubscribe: () => void } | null>(null);
   
   // Get the sync functions from stores
-  const syncWatchlist = useWatchlistStore(state => state.syncWithSupabase);
-  const syncWatched = useWatchedStore(state => state.syncWithSupabase);
-  const resetWatchlist = useWatchlistStore(state => state.resetStore);
-  const resetWatched = useWatchedStore(state => state.resetStore);
+  const syncLibrary = useLibraryStore(state => state.syncWithSupabase);
+  const resetLibrary = useLibraryStore(state => state.resetStore);
+  const syncLists = useListStore(state => state.syncLists);
+  const resetLists = useListStore(state => state.resetStore);
+  const resetProfile = useProfileStore(state => state.resetStore);
+  const resetSocial = useSocialStore(state => state.resetStore);
+  const syncStreaming = useStreamingStore(state => state.syncSettings);
+  const resetStreaming = useStreamingStore(state => state.resetStore);
 
   // Function to sync all data with throttling
   const syncAllData = async (force = false) => {
@@ -64,13 +73,20 @@ export default function useAuth() {
       
       if (userChanged) {
         console.log('User changed, resetting stores before sync');
-        resetWatchlist();
-        resetWatched();
+        clearReminders();
+        resetLibrary();
+        resetLists();
+        resetProfile();
+        resetSocial();
+        resetStreaming();
       }
       
       // Update current user reference
       currentUserIdRef.current = userId;
       
+      // Listen for live changes from other devices (replaces any previous user's subscription)
+      startRealtimeSync(userId, session.user.email);
+      
       console.log('Starting data synchronization for user:', userId);
       lastSyncTimeRef.current = now;
       
@@ -81,14 +97,18 @@ export default function useAuth() {
       
       // Race the actual sync with the timeout
       await Promise.race([
-        Promise.allSettled([  // Changed from Promise.all to Promise.allSettled to handle partial failures
-          syncWatchlist().catch(err => {
-            console.log('Watchlist sync error, continuing:', err);
+        Promise.all([
+          syncLibrary().catch(err => {
+            console.log('Library sync error, continuing:', err);
             return null; // Return null to prevent the Promise from failing
           }),
-          syncWatched().catch(err => {
-            console.log('Watched sync error, continuing:', err);
-            return null; // Return null to prevent the Promise from failing
+          syncLists().catch(err => {
+            console.log('Lists sync error, continuing:', err);
+            return null;
+          }),
+          syncStreaming().catch(err => {
+            console.log('Streaming settings sync error, continuing:', err);
+            return null;
           })
         ]),
         timeoutPromise
@@ -102,6 +122,11 @@ export default function useAuth() {
     }
   };
 
+  // Tear down the realtime subscription when the app unmounts
+  useEffect(() => {
+    return () => stopRealtimeSync();
+  }, []);
+
   // Check if router is ready - important to prevent navigation before router is mounted
   useEffect(() => {
     if (segments.length > 0) {
@@ -327,16 +352,27 @@ export default function useAuth() {
           
           if (userChanged || !currentUserIdRef.current) {
             console.log(`User changed or new login, resetting stores`);
-            resetWatchlist();
-            resetWatched();
+            // Stop applying the previous account's changes before clearing its data
+            stopRealtimeSync();
+            clearReminders();
+            resetLibrary();
+            resetLists();
+            resetProfile();
+            resetSocial();
+            resetStreaming();
             if (newUserId) {
               currentUserIdRef.current = newUserId;
             }
           }
         } else if (event === 'SIGNED_OUT') {
           console.log(`User signed out, resetting stores and user reference`);
-          resetWatchlist();
-          resetWatched();
+          stopRealtimeSync();
+          clearReminders();
+          resetLibrary();
+          resetLists();
+          resetProfile();
+          resetSocial();
+          resetStreaming();
           currentUserIdRef.current = null;
         }
         
@@ -500,7 +536,7 @@ export default function useAuth() {
         subscription.unsubscribe();
       }
     };
-  }, [router, segments, isRouterReady, syncWatchlist, syncWatched, resetWatchlist, resetWatched]);
+  }, [router, segments, isRouterReady, syncLibrary, resetLibrary, syncLists, resetLists, resetProfile, resetSocial]);
 
   /**
    * Auth state + route protection effect
@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Media } from '@/lib/media';
+import { useStreamingStore, isOnServices } from '@/lib/streamingStore';
+
+/**
+ * "Streaming on my services" filter
+ *
+ * Keeps the items that stream on one of the services the user subscribes to in their region.
+ * Providers are only fetched once the filter is turned on; titles whose providers aren't
+ * known yet are hidden until they are.
+ */
+export default function useStreamingFilter<T extends Media>(items: T[]) {
+  const [enabled, setEnabled] = useState(false);
+  const region = useStreamingStore(state => state.region);
+  const services = useStreamingStore(state => state.services);
+  const availability = useStreamingStore(state => state.availability);
+  const isLoading = useStreamingStore(state => state.isLoading);
+  const loadAvailability = useStreamingStore(state => state.loadAvailability);
+
+  const active = enabled && services.length > 0;
+
+  useEffect(() => {
+    if (active && items.length > 0) {
+      loadAvailability(items);
+    }
+  }, [active, items, region, loadAvailability]);
+
+  const filtered = useMemo(
+    () => active ? items.filter(item => isOnServices(item, availability, services, region)) : items,
+    [active, items, availability, services, region]
+  );
+
+  return {
+    enabled,
+    setEnabled,
+    hasServices: services.length > 0,
+    isLoading: active && isLoading,
+    items: filtered
+  };
+}
@@ -0,0 +1,20 @@
+import { getCurrentSession, saveActivity, ActivityType } from '@/lib/supabase';
+import { useProfileStore } from '@/lib/profileStore';
+import { Media } from '@/lib/media';
+
+// Log a library change to the user's activity feed. Fire and forget: the library write
+// doesn't wait for it, and a failed log is only reported in the console.
+// Nothing is logged while the user hides their activity from everyone.
+export function logActivity(type: ActivityType, media: Media, rating?: number): void {
+  if (useProfileStore.getState().profile?.activity_visibility === 'nobody') return;
+
+  (async () => {
+    const session = await getCurrentSession();
+    if (!session?.user) return;
+
+    const saved = await saveActivity(session.user.id, type, media, rating);
+    if (!saved) {
+      console.log(`Activity "${type}" for ${media.media_type} ${media.id} was not logged`);
+    }
+  })();
+}
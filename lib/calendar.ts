@@ -0,0 +1,206 @@
+import type { LibraryItem } from './libraryStore';
+import type { UpcomingInfo } from './calendarStore';
+import { getMediaKey } from './media';
+
+// Upcoming releases and episodes of the titles in the library, and their iCalendar export
+
+export interface CalendarEntry {
+  key: string; // stable per event, also its UID in the .ics export
+  item: LibraryItem;
+  date: string; // YYYY-MM-DD, TMDb dates have no time of day
+  kind: 'release' | 'episode';
+  // Episodes only
+  season_number?: number;
+  episode_number?: number;
+  episode_name?: string;
+}
+
+export interface CalendarWeek {
+  start: string; // Monday of the week, YYYY-MM-DD
+  label: string;
+  entries: CalendarEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Dates are days in the user's time zone, never instants
+const parseDate = (date: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date || '');
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Monday of the week a day falls in
+function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+// Titles the calendar follows: the watchlist, and shows the user is watching
+export function isTracked(item: LibraryItem): boolean {
+  return item.status === 'planned' || (item.status === 'watching' && item.media_type === 'tv');
+}
+
+// "S2E5"
+export function formatEpisodeNumber(entry: CalendarEntry): string {
+  return `S${entry.season_number}E${entry.episode_number}`;
+}
+
+// "Fri, Nov 7"
+export function formatCalendarDate(date: string): string {
+  const day = parseDate(date);
+  return day ? `${WEEKDAYS[day.getDay()]}, ${MONTHS[day.getMonth()]} ${day.getDate()}` : date;
+}
+
+// Releases and next episodes from the start of this week on, soonest first. The stored
+// release date is used until TMDb's current one is loaded, since release dates move.
+export function getCalendarEntries(
+  items: LibraryItem[],
+  upcoming: Record<string, UpcomingInfo>,
+  today: Date = new Date()
+): CalendarEntry[] {
+  const from = toDateString(getWeekStart(today));
+  const entries: CalendarEntry[] = [];
+
+  items.filter(isTracked).forEach(item => {
+    const key = getMediaKey(item);
+    const info = upcoming[key];
+
+    // Shows being watched have premiered already, only their new episodes matter
+    const releaseDate = info?.releaseDate ?? item.release_date;
+    if (item.status === 'planned' && parseDate(releaseDate) && releaseDate >= from) {
+      entries.push({ key: `${key}-release`, item, date: releaseDate, kind: 'release' });
+    }
+
+    const episode = info?.nextEpisode;
+    if (episode?.air_date && parseDate(episode.air_date) && episode.air_date >= from) {
+      entries.push({
+        key: `${key}-s${episode.season_number}e${episode.episode_number}`,
+        item,
+        date: episode.air_date,
+        kind: 'episode',
+        season_number: episode.season_number,
+        episode_number: episode.episode_number,
+        episode_name: episode.name
+      });
+    }
+  });
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || a.item.title.localeCompare(b.item.title));
+}
+
+// Entries grouped by week (Monday to Sunday), weeks without anything left out
+export function groupByWeek(entries: CalendarEntry[], today: Date = new Date()): CalendarWeek[] {
+  const thisWeek = getWeekStart(today).getTime();
+  const weeks: CalendarWeek[] = [];
+
+  entries.forEach(entry => {
+    const weekStart = getWeekStart(parseDate(entry.date)!);
+    const start = toDateString(weekStart);
+    let week = weeks.find(other => other.start === start);
+
+    if (!week) {
+      const weeksAhead = Math.round((weekStart.getTime() - thisWeek) / (7 * DAY_MS));
+      const label = weeksAhead === 0
+        ? 'This week'
+        : weeksAhead === 1
+          ? 'Next week'
+          : `Week of ${MONTHS[weekStart.getMonth()]} ${weekStart.getDate()}`;
+      week = { start, label, entries: [] };
+      weeks.push(week);
+    }
+
+    week.entries.push(entry);
+  });
+
+  return weeks;
+}
+
+// Text values escape backslashes, separators and line breaks (RFC 5545 3.3.11)
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Bytes a character takes up in UTF-8
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space, which counts
+// towards that line's 75. Split by code point so accents and emoji in titles stay whole.
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + length > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const toICalDate = (date: string) => date.replace(/-/g, '');
+
+const toICalTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// The entries as an iCalendar feed of all-day events. UIDs are stable, so calendar apps
+// subscribed to the feed update moved dates instead of adding duplicates.
+export function buildICalendar(entries: CalendarEntry[], appUrl: string, now: Date = new Date()): string {
+  const stamp = toICalTimestamp(now);
+
+  const events = entries.flatMap(entry => {
+    const end = parseDate(entry.date)!;
+    end.setDate(end.getDate() + 1);
+
+    const summary = entry.kind === 'episode'
+      ? `${entry.item.title} ${formatEpisodeNumber(entry)}${entry.episode_name ? ` - ${entry.episode_name}` : ''}`
+      : `${entry.item.title} (${entry.item.media_type === 'movie' ? 'release' : 'premiere'})`;
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${entry.key}@vibewatch`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(entry.date)}`,
+      `DTEND;VALUE=DATE:${toICalDate(toDateString(end))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      ...(entry.item.overview ? [`DESCRIPTION:${escapeText(entry.item.overview)}`] : []),
+      `URL:${appUrl}/details/${entry.item.media_type}/${entry.item.id}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VibeWatch//Upcoming//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:VibeWatch Upcoming',
+    // How often subscribed calendars should check for changes
+    'REFRESH-INTERVAL;VALUE=DURATION:PT12H',
+    'X-PUBLISHED-TTL:PT12H',
+    ...events,
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
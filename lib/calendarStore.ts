@@ -0,0 +1,193 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import * as Crypto from 'expo-crypto';
+import { MediaRef, getMediaKey } from '@/lib/media';
+import { getMovieDetails, getMovieReleaseDates, getTVDetails, RELEASE_TYPE, TMDbEpisode, TMDbReleaseDates } from '@/lib/tmdb';
+import { useStreamingStore } from '@/lib/streamingStore';
+import type { LibraryItem } from '@/lib/libraryStore';
+import { buildICalendar, getCalendarEntries, isTracked } from '@/lib/calendar';
+import { fetchCalendarFeedToken, publishCalendarFeed, saveCalendarFeedToken } from '@/lib/supabase';
+import { APP_URL } from '../constants';
+
+// A title's dates as TMDb lists them now, for the upcoming calendar
+export interface UpcomingInfo {
+  fetchedAt: number;
+  releaseDate?: string; // movie release or first air date, these move until a title is out
+  nextEpisode?: Pick<TMDbEpisode, 'season_number' | 'episode_number' | 'name' | 'air_date'>;
+  // Movies: when they reach cinemas and go digital in the user's region, for reminders
+  releases?: RegionReleases;
+}
+
+export interface RegionReleases {
+  region: string;
+  theatrical?: string;
+  digital?: string;
+}
+
+interface CalendarState {
+  // By media key, e.g. "movie_1399"
+  upcoming: Record<string, UpcomingInfo>;
+  isLoading: boolean;
+  // Secret part of each user's published feed address, by user id. Kept on the server so all
+  // of a user's devices share it; null once the server says the user has no feed yet.
+  feedTokens: Record<string, string | null>;
+  loadUpcoming: (items: MediaRef[]) => Promise<void>;
+  loadFeedToken: (userId: string) => Promise<string | null>;
+  createFeedToken: (userId: string) => Promise<string | null>;
+}
+
+// Anyone with the feed address can read the calendar, so the token has to be unguessable
+const FEED_TOKEN_BYTES = 16; // 128 bits
+
+// Wait for a sync or a burst of library changes to settle before uploading the feed again
+const PUBLISH_DELAY = 5000;
+
+// Next episodes get announced and dated every week
+const UPCOMING_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+const isStale = (media: MediaRef, info: UpcomingInfo | undefined, region: string) =>
+  !info
+  || Date.now() - info.fetchedAt > UPCOMING_TTL
+  || (media.media_type === 'movie' && info.releases?.region !== region);
+
+// Earliest date of the given release types in a region, as YYYY-MM-DD
+function getFirstRelease(results: TMDbReleaseDates[], region: string, types: number[]): string | undefined {
+  const dates = (results.find(country => country.iso_3166_1 === region)?.release_dates || [])
+    .filter(release => types.includes(release.type) && release.release_date)
+    .map(release => release.release_date.slice(0, 10))
+    .sort();
+  return dates[0];
+}
+
+async function fetchUpcoming(media: MediaRef, region: string): Promise<UpcomingInfo> {
+  if (media.media_type === 'movie') {
+    const [details, releaseDates] = await Promise.all([getMovieDetails(media.id), getMovieReleaseDates(media.id)]);
+    return {
+      fetchedAt: Date.now(),
+      releaseDate: details.release_date || undefined,
+      releases: {
+        region,
+        theatrical: getFirstRelease(releaseDates, region, [RELEASE_TYPE.theatricalLimited, RELEASE_TYPE.theatrical]),
+        digital: getFirstRelease(releaseDates, region, [RELEASE_TYPE.digital])
+      }
+    };
+  }
+
+  const details = await getTVDetails(media.id);
+  const episode = details.next_episode_to_air;
+  return {
+    fetchedAt: Date.now(),
+    releaseDate: details.first_air_date || undefined,
+    nextEpisode: episode ? {
+      season_number: episode.season_number,
+      episode_number: episode.episode_number,
+      name: episode.name,
+      air_date: episode.air_date
+    } : undefined
+  };
+}
+
+// Cache of upcoming dates so the calendar doesn't refetch details for every title each time
+export const useCalendarStore = create<CalendarState>()(
+  persist(
+    (set, get) => ({
+      upcoming: {},
+      isLoading: false,
+      feedTokens: {},
+
+      // Fetch the dates of the titles that aren't cached yet (or are out of date)
+      loadUpcoming: async (items) => {
+        if (get().isLoading) return;
+
+        // Release dates differ per country, the streaming region is the user's
+        const { region } = useStreamingStore.getState();
+        const missing = items.filter(media => isStale(media, get().upcoming[getMediaKey(media)], region));
+        if (missing.length === 0) return;
+
+        console.log(`Loading upcoming dates for ${missing.length} titles`);
+        set({ isLoading: true });
+
+        const loaded: Record<string, UpcomingInfo> = {};
+        // The TMDb scheduler caps how many of these run at once
+        await Promise.all(missing.map(async media => {
+          try {
+            loaded[getMediaKey(media)] = await fetchUpcoming(media, region);
+          } catch (error) {
+            console.error(`Failed to load upcoming dates for ${media.media_type} ${media.id}:`, error);
+          }
+        }));
+
+        set(state => ({
+          upcoming: { ...state.upcoming, ...loaded },
+          isLoading: false
+        }));
+      },
+
+      loadFeedToken: async (userId) => {
+        try {
+          const token = await fetchCalendarFeedToken(userId);
+          set(state => ({ feedTokens: { ...state.feedTokens, [userId]: token } }));
+          return token;
+        } catch (error) {
+          console.error('Failed to load calendar feed token:', error);
+          return get().feedTokens[userId] ?? null;
+        }
+      },
+
+      // A new feed address, replacing the old one (whose file the caller removes)
+      createFeedToken: async (userId) => {
+        const token = Array.from(Crypto.getRandomBytes(FEED_TOKEN_BYTES), byte => byte.toString(16).padStart(2, '0')).join('');
+        if (!(await saveCalendarFeedToken(userId, token))) return null;
+
+        set(state => ({ feedTokens: { ...state.feedTokens, [userId]: token } }));
+        return token;
+      }
+    }),
+    {
+      name: 'calendar-storage',
+      // A load interrupted by a reload must not block the next one
+      partialize: (state) => ({ upcoming: state.upcoming, feedTokens: state.feedTokens })
+    }
+  )
+);
+
+let publishTimer: ReturnType<typeof setTimeout> | null = null;
+// What the feed was last published with, by token, so unchanged calendars aren't uploaded again
+const publishedEntries: Record<string, string> = {};
+
+// Republish a subscribed user's feed with their current library and the latest dates.
+// Runs after syncs and library changes, whatever screen is open.
+export function queueCalendarFeedPublish(userId: string, items: LibraryItem[]): void {
+  // Users known to have no feed are skipped; after a sign-in the token comes from the server
+  if (!userId || useCalendarStore.getState().feedTokens[userId] === null) return;
+
+  if (publishTimer) clearTimeout(publishTimer);
+  publishTimer = setTimeout(async () => {
+    publishTimer = null;
+
+    // Another load is filling the cache, try again once it's done
+    if (useCalendarStore.getState().isLoading) {
+      queueCalendarFeedPublish(userId, items);
+      return;
+    }
+
+    const token = useCalendarStore.getState().feedTokens[userId]
+      ?? await useCalendarStore.getState().loadFeedToken(userId);
+    if (!token) return;
+
+    await useCalendarStore.getState().loadUpcoming(items.filter(isTracked));
+
+    // The feed may have been reset (or the user signed out) while the dates loaded
+    if (useCalendarStore.getState().feedTokens[userId] !== token) return;
+
+    const entries = getCalendarEntries(items, useCalendarStore.getState().upcoming);
+    const snapshot = JSON.stringify(entries);
+    if (publishedEntries[token] === snapshot) return;
+
+    const url = await publishCalendarFeed(userId, token, buildICalendar(entries, APP_URL));
+    if (url) {
+      publishedEntries[token] = snapshot;
+      console.log(`Republished calendar feed with ${entries.length} entries for user:`, userId);
+    }
+  }, PUBLISH_DELAY);
+}
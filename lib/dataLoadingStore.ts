@@ -1,7 +1,9 @@
 import { create } from 'zustand';
 import { getCurrentSession } from '@/lib/supabase';
-import { useWatchlistStore } from '@/lib/watchlistStore';
-import { useWatchedStore } from '@/lib/watchedStore';
+import { useLibraryStore } from '@/lib/libraryStore';
+import { useListStore } from '@/lib/listStore';
+import { useProfileStore } from '@/lib/profileStore';
+import { replayOutbox } from '@/lib/outboxStore';
 
 interface DataLoadingState {
   isDataSynced: boolean;
@@ -51,26 +53,21 @@ export const useDataLoadingStore = create<DataLoadingState>((set, get) => ({
       
       // Get sync functions directly from the stores
       // This is more reliable than importing functions from external modules
-      const watchlistStore = useWatchlistStore.getState();
-      const watchedStore = useWatchedStore.getState();
+      const libraryStore = useLibraryStore.getState();
       
       // Create a promise that rejects after a timeout
       const timeoutPromise = new Promise<boolean>((_, reject) => {
         setTimeout(() => reject(new Error('Data sync timeout after 10 seconds')), 10000);
       });
       
-      // Race the actual sync operations with timeout
+      // Race the actual sync operations with timeout.
+      // Changes made offline are sent first, before pulling the server state.
+      // Custom lists and the profile (handle, privacy settings) load alongside;
+      // the app can start without them
+      useListStore.getState().syncLists();
+      useProfileStore.getState().loadProfile();
       const syncResult = await Promise.race([
-        Promise.allSettled([
-          watchlistStore.syncWithSupabase(),
-          watchedStore.syncWithSupabase()
-        ]).then(results => {
-          // Check if at least one sync succeeded
-          const anySuccess = results.some(result => 
-            result.status === 'fulfilled' && result.value === true
-          );
-          return anySuccess;
-        }),
+        replayOutbox().then(() => libraryStore.syncWithSupabase()),
         timeoutPromise
       ]);
       
@@ -82,7 +79,7 @@ export const useDataLoadingStore = create<DataLoadingState>((set, get) => ({
         syncError: null
       });
       
-      console.log(`[DataLoader] Data sync ${syncResult ? 'completed successfully' : 'partially failed'}`);
+      console.log(`[DataLoader] Data sync ${syncResult ? 'completed successfully' : 'failed'}`);
       return Boolean(syncResult);
     } catch (error) {
       console.error('[DataLoader] Error syncing data:', error);
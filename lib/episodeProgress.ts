@@ -0,0 +1,127 @@
+import type { TMDbSeasonSummary } from './tmdb';
+
+// Episode progress of a TV show: the watched episode numbers by season number, e.g. { "1": [1, 2, 3] }.
+// Stored in the progress column of the show's user_items row. Season and episode numbers
+// follow TMDb, where episodes of a season are numbered from 1 to its episode_count.
+export type EpisodeProgress = Record<string, number[]>;
+
+export interface EpisodeRef {
+  season_number: number;
+  episode_number: number;
+}
+
+export interface SeasonCompletion {
+  watched: number;
+  total: number;
+  complete: boolean;
+}
+
+// Seasons that count towards finishing a show, in order. Specials (season 0) and seasons
+// without any episodes listed yet are left out.
+export function getRegularSeasons(seasons: TMDbSeasonSummary[] = []): TMDbSeasonSummary[] {
+  return seasons
+    .filter(season => season.season_number > 0 && season.episode_count > 0)
+    .sort((a, b) => a.season_number - b.season_number);
+}
+
+export function isEpisodeWatched(progress: EpisodeProgress | undefined, episode: EpisodeRef): boolean {
+  return !!progress?.[episode.season_number]?.includes(episode.episode_number);
+}
+
+// Check off (or un-check) episodes of one season, returning new progress
+export function setEpisodesWatched(
+  progress: EpisodeProgress | undefined,
+  seasonNumber: number,
+  episodeNumbers: number[],
+  watched: boolean
+): EpisodeProgress {
+  const current = progress?.[seasonNumber] || [];
+  const episodes = watched
+    ? Array.from(new Set([...current, ...episodeNumbers])).sort((a, b) => a - b)
+    : current.filter(number => !episodeNumbers.includes(number));
+
+  const updated = { ...progress };
+  if (episodes.length > 0) {
+    updated[seasonNumber] = episodes;
+  } else {
+    delete updated[seasonNumber];
+  }
+  return updated;
+}
+
+export function setEpisodeWatched(
+  progress: EpisodeProgress | undefined,
+  episode: EpisodeRef,
+  watched: boolean
+): EpisodeProgress {
+  return setEpisodesWatched(progress, episode.season_number, [episode.episode_number], watched);
+}
+
+// Check off (or un-check) every episode of a season
+export function setSeasonWatched(
+  progress: EpisodeProgress | undefined,
+  season: TMDbSeasonSummary,
+  watched: boolean
+): EpisodeProgress {
+  const episodeNumbers = Array.from({ length: season.episode_count }, (_, index) => index + 1);
+  return setEpisodesWatched(progress, season.season_number, episodeNumbers, watched);
+}
+
+export function getSeasonCompletion(
+  progress: EpisodeProgress | undefined,
+  season: TMDbSeasonSummary
+): SeasonCompletion {
+  const watched = (progress?.[season.season_number] || [])
+    .filter(number => number >= 1 && number <= season.episode_count)
+    .length;
+
+  return { watched, total: season.episode_count, complete: watched >= season.episode_count };
+}
+
+// The episode after the furthest one watched (the first episode when nothing is watched yet),
+// or null once the last listed episode has been watched
+export function getNextEpisode(
+  progress: EpisodeProgress | undefined,
+  seasons: TMDbSeasonSummary[] = []
+): EpisodeRef | null {
+  const regularSeasons = getRegularSeasons(seasons);
+
+  let furthest = -1;
+  regularSeasons.forEach((season, index) => {
+    if ((progress?.[season.season_number] || []).length > 0) furthest = index;
+  });
+
+  if (furthest === -1) {
+    return regularSeasons.length > 0
+      ? { season_number: regularSeasons[0].season_number, episode_number: 1 }
+      : null;
+  }
+
+  const season = regularSeasons[furthest];
+  const lastWatched = Math.max(...progress![season.season_number]);
+  if (lastWatched < season.episode_count) {
+    return { season_number: season.season_number, episode_number: lastWatched + 1 };
+  }
+
+  const nextSeason = regularSeasons[furthest + 1];
+  return nextSeason ? { season_number: nextSeason.season_number, episode_number: 1 } : null;
+}
+
+// Every episode of every regular season is checked off
+export function isShowComplete(
+  progress: EpisodeProgress | undefined,
+  seasons: TMDbSeasonSummary[] = []
+): boolean {
+  const regularSeasons = getRegularSeasons(seasons);
+  return regularSeasons.length > 0 &&
+    regularSeasons.every(season => getSeasonCompletion(progress, season).complete);
+}
+
+export function countWatchedEpisodes(progress: EpisodeProgress | undefined): number {
+  return Object.values(progress || {}).reduce((total, episodes) => total + episodes.length, 0);
+}
+
+// "S2E5"
+export function formatEpisode(episode: EpisodeRef): string {
+  return `S${episode.season_number}E${episode.episode_number}`;
+}
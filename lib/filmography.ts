@@ -0,0 +1,43 @@
+import type { TMDbPerson, TMDbPersonCredit } from './tmdb';
+import { Media, getMediaKey, toMedia } from './media';
+
+// A title in a person's filmography with every part they had in it
+export interface FilmographyEntry {
+  media: Media;
+  roles: string[]; // characters played and crew jobs, e.g. "Bruce Wayne", "Director"
+  acting: boolean; // has a cast credit
+  crew: boolean; // has a crew credit
+}
+
+const getRole = (credit: TMDbPersonCredit) => credit.character || credit.job || '';
+
+// Combined movie and TV credits, one entry per title, newest first. A person who both
+// acted in and directed a title gets a single entry listing both parts.
+// Titles without a date yet (announced, in production) come first.
+export function getFilmography(person: TMDbPerson): FilmographyEntry[] {
+  const byKey = new Map<string, FilmographyEntry>();
+
+  const addCredit = (credit: TMDbPersonCredit, department: 'acting' | 'crew') => {
+    const media = toMedia(credit);
+    if (!media) return;
+
+    const key = getMediaKey(media);
+    const entry = byKey.get(key) || { media, roles: [], acting: false, crew: false };
+    const role = getRole(credit);
+    if (role && !entry.roles.includes(role)) {
+      entry.roles.push(role);
+    }
+    entry[department] = true;
+    byKey.set(key, entry);
+  };
+
+  person.combined_credits.cast.forEach(credit => addCredit(credit, 'acting'));
+  person.combined_credits.crew.forEach(credit => addCredit(credit, 'crew'));
+
+  return [...byKey.values()].sort((a, b) => {
+    if (!a.media.release_date || !b.media.release_date) {
+      return a.media.release_date ? 1 : b.media.release_date ? -1 : 0;
+    }
+    return b.media.release_date.localeCompare(a.media.release_date);
+  });
+}
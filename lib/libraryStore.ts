@@ -0,0 +1,445 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  getCurrentSession,
+  fetchUserItemChanges,
+  LibraryStatus,
+  UserItem,
+  UserItemChanges,
+  UserItemFields
+} from '@/lib/supabase';
+import { Media, MediaRef, TVMedia, isSameMedia } from '@/lib/media';
+import { EpisodeProgress, isShowComplete } from '@/lib/episodeProgress';
+import {
+  addWatchEvent,
+  createWatchEvent,
+  getLastWatchedAt,
+  hasBeenWatched,
+  removeWatchEvent,
+  updateLatestWatchEvent
+} from '@/lib/watchHistory';
+import type { TMDbSeasonSummary } from '@/lib/tmdb';
+import { MoveTarget, getPositionBetween, moveItemBetween } from '@/lib/ordering';
+import { useOutboxStore, replayOutbox } from '@/lib/outboxStore';
+import { mergeRemoteChanges } from '@/lib/syncMerge';
+import { logActivity } from '@/lib/activity';
+import { queueReminderReschedule } from '@/lib/reminders';
+import { queueCalendarFeedPublish } from '@/lib/calendarStore';
+
+// A title in the user's library: the shared Media model plus the user's own data.
+// Every title has exactly one entry; its status says which list it shows up in.
+export type LibraryItem = UserItem & { status: LibraryStatus };
+
+export const LIBRARY_STATUS_LABELS: Record<LibraryStatus, string> = {
+  planned: 'Plan to Watch',
+  watching: 'Watching',
+  watched: 'Watched',
+  dropped: 'Dropped',
+  on_hold: 'On Hold'
+};
+
+interface LibraryState {
+  items: LibraryItem[];
+  isLoading: boolean;
+  isInitialized: boolean;
+  syncInProgress: boolean;
+  lastSyncTime: number;
+  lastSyncUserId: string | null;
+  // updated_at of the newest server row seen, for incremental syncs
+  syncCursor: string | null;
+  addItem: (item: Media, status?: LibraryStatus) => Promise<boolean>;
+  setStatus: (item: Media, status: LibraryStatus, fields?: UserItemFields) => Promise<boolean>;
+  markWatched: (item: Media, fields?: UserItemFields) => Promise<boolean>;
+  rewatch: (item: Media) => Promise<boolean>;
+  updateReview: (media: MediaRef, fields: UserItemFields) => Promise<boolean>;
+  removeWatchEvent: (media: MediaRef, eventId: string) => Promise<boolean>;
+  clearWatchHistory: (media: MediaRef) => Promise<boolean>;
+  setEpisodeProgress: (item: TVMedia, progress: EpisodeProgress, seasons: TMDbSeasonSummary[]) => Promise<LibraryStatus | null>;
+  removeItem: (media: MediaRef) => Promise<boolean>;
+  moveItem: (media: MediaRef, target: MoveTarget) => Promise<boolean>;
+  getItem: (media: MediaRef) => LibraryItem | undefined;
+  hasItem: (media: MediaRef, status?: LibraryStatus) => boolean;
+  syncWithSupabase: () => Promise<boolean>;
+  applyRemoteChanges: (userId: string, changes: UserItemChanges<UserItem>) => void;
+  resetStore: () => void;
+}
+
+// Minimum time between syncs to prevent excessive API calls
+const MIN_SYNC_INTERVAL = 10000; // 10 seconds
+
+// Rows written before statuses existed are plain watchlist entries
+const withStatus = (item: UserItem): LibraryItem => ({ ...item, status: item.status ?? 'planned' });
+
+// Reminders and the calendar feed follow the library, on this device or from another one
+const onLibraryChanged = (userId: string, items: LibraryItem[]) => {
+  queueReminderReschedule(userId, items);
+  queueCalendarFeedPublish(userId, items);
+};
+
+// Items of one status, in list order (use inside useMemo - it returns a new array)
+export function filterByStatus<T extends UserItem>(items: T[], ...statuses: LibraryStatus[]): T[] {
+  return items.filter(item => statuses.includes(item.status ?? 'planned'));
+}
+
+// Create a store that applies changes locally and sends them through the outbox
+export const useLibraryStore = create<LibraryState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      isLoading: false,
+      isInitialized: false,
+      syncInProgress: false,
+      lastSyncTime: 0,
+      lastSyncUserId: null,
+      syncCursor: null,
+
+      // Add a title that isn't in the library yet
+      addItem: async (item, status = 'planned') => {
+        if (get().hasItem(item)) {
+          return false;
+        }
+
+        return get().setStatus(item, status);
+      },
+
+      // Move a title to a status (adding it if needed) as a single row write, so it is never
+      // in two lists at once or in none. The item moves to the top of its new list.
+      setStatus: async (item, status, fields = {}) => {
+        // Changes are queued per user, so we need to know who is signed in
+        const session = await getCurrentSession();
+        if (!session?.user) {
+          return false;
+        }
+
+        const userId = session.user.id;
+        // Update user ID reference to ensure we're syncing for the correct user
+        set(state => ({ ...state, lastSyncUserId: userId }));
+
+        const existing = get().getItem(item);
+        const others = get().items.filter(other => !isSameMedia(other, item));
+        const updated: LibraryItem = {
+          ...existing,
+          ...item,
+          ...fields,
+          status,
+          position: existing?.status === status && existing.position !== undefined
+            ? existing.position
+            : getPositionBetween(undefined, others[0]?.position)
+        };
+
+        console.log(`Setting ${item.media_type} ${item.id} to ${status}:`, { title: item.title, userId });
+
+        set({ items: existing?.status === status && existing.position !== undefined
+          ? get().items.map(other => isSameMedia(other, item) ? updated : other)
+          : [updated, ...others]
+        });
+        useOutboxStore.getState().enqueue(userId, { kind: 'upsert', item: updated });
+        onLibraryChanged(userId, get().items);
+
+        // New titles show up in followers' feeds (watched ones are logged by markWatched)
+        if (!existing && status !== 'watched') {
+          logActivity('added', updated);
+        }
+
+        return true;
+      },
+
+      // Log a viewing (now unless a date is given) and move the title to Watched.
+      // Rating, review and date come from the caller; the rating is also kept on the viewing.
+      markWatched: async (item, fields = {}) => {
+        const watchEvents = addWatchEvent(
+          get().getItem(item) || {},
+          createWatchEvent(fields.watched_date ?? new Date().toISOString(), fields.rating)
+        );
+
+        const saved = await get().setStatus(item, 'watched', {
+          ...fields,
+          watch_events: watchEvents,
+          watched_date: getLastWatchedAt({ watch_events: watchEvents })
+        });
+        if (saved) {
+          logActivity('watched', item, fields.rating);
+        }
+        return saved;
+      },
+
+      // Put a watched title back on the watchlist. Its viewings and review are kept;
+      // episode progress starts over.
+      rewatch: async (item) => {
+        return get().setStatus(item, 'planned', { progress: undefined });
+      },
+
+      // Change the rating, review or watched date of a title already in the library
+      updateReview: async (media, fields) => {
+        const existing = get().getItem(media);
+        if (!existing) {
+          return false;
+        }
+
+        // A new rating or date belongs to the latest viewing
+        if (hasBeenWatched(existing) && ('rating' in fields || fields.watched_date)) {
+          const watchEvents = updateLatestWatchEvent(existing, {
+            ...('rating' in fields ? { rating: fields.rating } : {}),
+            ...(fields.watched_date ? { watched_at: fields.watched_date } : {})
+          });
+          fields = {
+            ...fields,
+            watch_events: watchEvents,
+            watched_date: getLastWatchedAt({ watch_events: watchEvents })
+          };
+        }
+
+        const saved = await get().setStatus(existing, existing.status, fields);
+        if (saved && fields.rating !== undefined && fields.rating !== existing.rating) {
+          logActivity('rated', existing, fields.rating);
+        }
+        return saved;
+      },
+
+      // Delete a viewing logged by mistake
+      removeWatchEvent: async (media, eventId) => {
+        const existing = get().getItem(media);
+        if (!existing) {
+          return false;
+        }
+
+        const watchEvents = removeWatchEvent(existing, eventId);
+        return get().setStatus(existing, existing.status, {
+          watch_events: watchEvents,
+          watched_date: getLastWatchedAt({ watch_events: watchEvents })
+        });
+      },
+
+      // Forget every viewing of a title that is back on the watchlist
+      clearWatchHistory: async (media) => {
+        const existing = get().getItem(media);
+        if (!existing) {
+          return false;
+        }
+
+        return get().setStatus(existing, existing.status, {
+          watch_events: [],
+          watched_date: undefined,
+          rating: undefined,
+          review: undefined
+        });
+      },
+
+      // Save episode progress for a show and move it along: checking off an episode starts
+      // watching it, checking off the final one moves it to Watched. Returns the new status.
+      setEpisodeProgress: async (item, progress, seasons) => {
+        const current = get().getItem(item)?.status;
+        let status: LibraryStatus;
+        if (isShowComplete(progress, seasons)) {
+          status = 'watched';
+        } else if (!current || current === 'watched' || Object.keys(progress).length > 0) {
+          status = 'watching';
+        } else {
+          status = current;
+        }
+
+        const saved = status === 'watched' && current !== 'watched'
+          ? await get().markWatched(item, { progress })
+          : await get().setStatus(item, status, { progress });
+
+        return saved ? status : null;
+      },
+
+      // Remove item locally right away and queue the delete
+      removeItem: async (media) => {
+        const session = await getCurrentSession();
+        if (!session?.user) {
+          return false;
+        }
+
+        const userId = session.user.id;
+        // Update user ID reference to ensure we're syncing for the correct user
+        set(state => ({ ...state, lastSyncUserId: userId }));
+
+        console.log(`Removing ${media.media_type} ${media.id} from library for user ${userId}`);
+
+        set((state) => ({
+          items: state.items.filter((item) => !isSameMedia(item, media))
+        }));
+        useOutboxStore.getState().enqueue(userId, { kind: 'delete', media });
+        onLibraryChanged(userId, get().items);
+
+        return true;
+      },
+
+      // Move an item between two others and queue the new position(s)
+      moveItem: async (media, target) => {
+        const session = await getCurrentSession();
+        if (!session?.user) {
+          return false;
+        }
+
+        const { items, changed } = moveItemBetween(get().items, media, target);
+        set({ items });
+
+        changed.forEach(item => {
+          useOutboxStore.getState().enqueue(session.user.id, {
+            kind: 'position',
+            media: item,
+            position: item.position as number
+          });
+        });
+
+        return true;
+      },
+
+      getItem: (media) => {
+        return get().items.find((item) => isSameMedia(item, media));
+      },
+
+      // Check if a title is in the library (optionally with a given status)
+      hasItem: (media, status) => {
+        const item = get().getItem(media);
+        return !!item && (!status || item.status === status);
+      },
+
+      // Apply changes pushed by Supabase Realtime (from another device or our own writes)
+      applyRemoteChanges: (userId, changes) => {
+        const state = get();
+        // Ignore events for another account or before the first full sync has run
+        if (!state.isInitialized || state.lastSyncUserId !== userId) {
+          return;
+        }
+
+        set({ items: mergeRemoteChanges(state.items, changes, userId, false).map(withStatus) });
+
+        if (changes.items.length > 0 || changes.deleted.length > 0) {
+          onLibraryChanged(userId, get().items);
+        }
+      },
+
+      // Reset store completely (for logout/account switching)
+      resetStore: () => {
+        set({
+          items: [],
+          isLoading: false,
+          isInitialized: false,
+          syncInProgress: false,
+          lastSyncTime: 0,
+          lastSyncUserId: null,
+          syncCursor: null
+        });
+      },
+
+      // Sync with Supabase - pulls rows changed since the last sync and merges them
+      syncWithSupabase: async () => {
+        // First check if we are already syncing or synced recently
+        const state = get();
+        const now = Date.now();
+
+        if (state.syncInProgress) {
+          console.log('Library sync already in progress, skipping');
+          return false;
+        }
+
+        // Get session to check user ID first
+        const session = await getCurrentSession();
+        if (!session?.user) {
+          console.log('No authenticated user found, skipping library sync');
+          set({
+            isLoading: false,
+            isInitialized: true,
+            syncInProgress: false,
+            lastSyncTime: now
+          });
+          return false;
+        }
+
+        const userId = session.user.id;
+        const userChanged = state.lastSyncUserId !== null && state.lastSyncUserId !== userId;
+
+        // Always sync if user has changed
+        if (!userChanged && now - state.lastSyncTime < MIN_SYNC_INTERVAL && state.isInitialized) {
+          console.log('Library synced recently for same user, skipping');
+          return true;
+        }
+
+        // If user changed, we need to reset and sync
+        if (userChanged) {
+          console.log('User changed since last library sync, forcing refresh');
+          // Reset items but keep loading state to avoid UI flicker
+          set({
+            items: [],
+            isInitialized: false,
+            syncCursor: null
+          });
+        }
+
+        // Without a cursor (first sync, new user) pull everything
+        const since = userChanged ? null : get().syncCursor;
+        const full = since === null;
+
+        // Set loading and sync in progress state; incremental syncs update the list in the background
+        set({ isLoading: full, syncInProgress: true });
+
+        // Cleared once the sync is over, so only a stalled request reports a timeout
+        let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+
+        try {
+          console.log('Syncing library with Supabase for user:', userId);
+
+          // Send queued changes first so the server copy is as fresh as possible
+          await replayOutbox();
+
+          // Don't leave the library loading forever on a stalled request
+          const timeoutPromise = new Promise<never>((_, reject) => {
+            timeoutTimer = setTimeout(() => {
+              console.log('Library sync timed out');
+              reject(new Error('Timeout'));
+            }, 8000);
+          });
+
+          const changes = await Promise.race([
+            fetchUserItemChanges<UserItem>(userId, since),
+            timeoutPromise
+          ]);
+
+          console.log(`Fetched ${changes.items.length} changed and ${changes.deleted.length} deleted library items for user:`, userId);
+
+          // Merge with the local list, keeping changes that still couldn't be sent
+          const items = mergeRemoteChanges<UserItem>(get().items, changes, userId, full).map(withStatus);
+
+          // Update state with merged items, the new cursor and current user ID
+          set({
+            items,
+            syncCursor: changes.cursor,
+            isLoading: false,
+            isInitialized: true,
+            syncInProgress: false,
+            lastSyncTime: now,
+            lastSyncUserId: userId
+          });
+
+          // Reminders follow titles added, removed or moved on another device. The feed is
+          // checked after every sync, release dates move even when the library doesn't.
+          if (full || changes.items.length > 0 || changes.deleted.length > 0) {
+            queueReminderReschedule(userId, items);
+          }
+          queueCalendarFeedPublish(userId, items);
+
+          return true;
+        } catch (error) {
+          console.error('Error syncing library:', error);
+          set({
+            isLoading: false,
+            isInitialized: true,
+            syncInProgress: false,
+            lastSyncTime: now,
+            lastSyncUserId: userId
+          });
+          return false;
+        } finally {
+          if (timeoutTimer) clearTimeout(timeoutTimer);
+        }
+      }
+    }),
+    {
+      name: 'library-storage'
+    }
+  )
+);
@@ -0,0 +1,337 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  getCurrentSession,
+  fetchUserLists,
+  createUserList,
+  updateUserList,
+  deleteUserList,
+  saveListItem,
+  removeListItem,
+  updateListItemPositions,
+  setUserListSharing,
+  inviteListMember,
+  fetchReceivedInvitations,
+  acceptListInvitation,
+  deleteListInvitation,
+  removeListMember,
+  ListItem,
+  UserList,
+  UserListFields,
+  ListInvitation,
+  ListMember
+} from '@/lib/supabase';
+import { Media, MediaRef, isSameMedia } from '@/lib/media';
+import { MoveTarget, getPositionBetween, moveItemBetween } from '@/lib/ordering';
+import { getUniqueSlug } from '@/lib/sharing';
+
+export type { ListItem, UserList, UserListFields, ListInvitation, ListMember };
+
+interface ListState {
+  lists: UserList[];
+  // Invitations to other users' lists, waiting for an answer
+  invitations: ListInvitation[];
+  isLoading: boolean;
+  isInitialized: boolean;
+  lastSyncUserId: string | null;
+  createList: (fields: UserListFields) => Promise<UserList | null>;
+  updateList: (listId: string, fields: Partial<UserListFields>) => Promise<boolean>;
+  deleteList: (listId: string) => Promise<boolean>;
+  addToList: (listId: string, item: Media) => Promise<boolean>;
+  removeFromList: (listId: string, media: MediaRef) => Promise<boolean>;
+  moveListItem: (listId: string, media: MediaRef, target: MoveTarget) => Promise<boolean>;
+  shareList: (listId: string, isPublic: boolean) => Promise<boolean>;
+  // Returns an error message, or null when the invitation was sent
+  inviteMember: (listId: string, email: string) => Promise<string | null>;
+  cancelInvitation: (listId: string, invitationId: string) => Promise<boolean>;
+  removeMember: (listId: string, memberId: string) => Promise<boolean>;
+  leaveList: (listId: string) => Promise<boolean>;
+  acceptInvitation: (invitationId: string) => Promise<boolean>;
+  declineInvitation: (invitationId: string) => Promise<boolean>;
+  getList: (listId: string) => UserList | undefined;
+  isInList: (listId: string, media: MediaRef) => boolean;
+  syncLists: () => Promise<boolean>;
+  resetStore: () => void;
+}
+
+// The cover of a list: the one the user picked, else the poster of its first title
+export function getListCover(list: UserList): string | null {
+  return list.cover_path || list.items.find(item => item.poster_path)?.poster_path || null;
+}
+
+// Lists with members besides their owner
+export function isSharedList(list: UserList): boolean {
+  return (list.members?.length ?? 0) > 1;
+}
+
+// Short name of a member for "added by" labels
+export function getMemberName(member: ListMember | undefined): string {
+  return member?.email?.split('@')[0] || 'Someone';
+}
+
+// Custom lists are written straight to Supabase: the change shows up locally right away
+// and is rolled back if the write fails
+export const useListStore = create<ListState>()(
+  persist(
+    (set, get) => {
+      const getUserId = async () => {
+        const session = await getCurrentSession();
+        if (!session?.user) return null;
+
+        set({ lastSyncUserId: session.user.id });
+        return session.user.id;
+      };
+
+      // Apply a change to one list locally
+      const updateLocalList = (listId: string, update: (list: UserList) => UserList) => {
+        set(state => ({
+          lists: state.lists.map(list => list.id === listId ? update(list) : list)
+        }));
+      };
+
+      // Run a write, putting the lists back the way they were if it fails
+      const withRollback = async (write: () => Promise<boolean>) => {
+        const previous = get().lists;
+        const saved = await write();
+        if (!saved) {
+          set({ lists: previous });
+        }
+        return saved;
+      };
+
+      return {
+        lists: [],
+        invitations: [],
+        isLoading: false,
+        isInitialized: false,
+        lastSyncUserId: null,
+
+        createList: async (fields) => {
+          const userId = await getUserId();
+          if (!userId) return null;
+
+          console.log(`Creating list "${fields.name}" for user ${userId}`);
+          const list = await createUserList(userId, fields);
+          if (list) {
+            set(state => ({ lists: [list, ...state.lists] }));
+          }
+          return list;
+        },
+
+        updateList: async (listId, fields) => {
+          const userId = await getUserId();
+          if (!userId || !get().getList(listId)) return false;
+
+          return withRollback(() => {
+            updateLocalList(listId, list => ({ ...list, ...fields, updated_at: new Date().toISOString() }));
+            return updateUserList(userId, listId, fields);
+          });
+        },
+
+        deleteList: async (listId) => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          console.log(`Deleting list ${listId} for user ${userId}`);
+          return withRollback(() => {
+            set(state => ({ lists: state.lists.filter(list => list.id !== listId) }));
+            return deleteUserList(userId, listId);
+          });
+        },
+
+        // Add a title to the end of a list
+        addToList: async (listId, item) => {
+          const userId = await getUserId();
+          const list = get().getList(listId);
+          if (!userId || !list || get().isInList(listId, item)) return false;
+
+          const added: ListItem = {
+            ...item,
+            position: getPositionBetween(list.items[list.items.length - 1]?.position, undefined),
+            added_at: new Date().toISOString(),
+            added_by: userId
+          };
+
+          return withRollback(() => {
+            updateLocalList(listId, current => ({ ...current, items: [...current.items, added] }));
+            return saveListItem(userId, listId, added);
+          });
+        },
+
+        removeFromList: async (listId, media) => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          return withRollback(() => {
+            updateLocalList(listId, list => ({
+              ...list,
+              items: list.items.filter(item => !isSameMedia(item, media))
+            }));
+            return removeListItem(userId, listId, media);
+          });
+        },
+
+        // Move a title between two others in its list
+        moveListItem: async (listId, media, target) => {
+          const userId = await getUserId();
+          const list = get().getList(listId);
+          if (!userId || !list) return false;
+
+          const { items, changed } = moveItemBetween(list.items, media, target);
+          return withRollback(() => {
+            updateLocalList(listId, current => ({ ...current, items }));
+            return updateListItemPositions(
+              userId,
+              listId,
+              changed.map(item => ({ media: item, position: item.position as number }))
+            );
+          });
+        },
+
+        // Publish or unpublish a list. Its slug is picked the first time it is published.
+        shareList: async (listId, isPublic) => {
+          const userId = await getUserId();
+          const list = get().getList(listId);
+          if (!userId || !list) return false;
+
+          const slug = list.slug || getUniqueSlug(
+            list.name,
+            get().lists.map(other => other.slug).filter((other): other is string => !!other)
+          );
+
+          console.log(`${isPublic ? 'Publishing' : 'Unpublishing'} list ${listId} as "${slug}"`);
+          return withRollback(() => {
+            updateLocalList(listId, current => ({ ...current, is_public: isPublic, slug }));
+            return setUserListSharing(userId, listId, isPublic, slug);
+          });
+        },
+
+        inviteMember: async (listId, email) => {
+          const userId = await getUserId();
+          if (!userId) return 'Not signed in';
+
+          console.log(`Inviting ${email} to list ${listId}`);
+          const { invitation, error } = await inviteListMember(listId, email);
+          if (!invitation) return error || 'Failed to send invitation';
+
+          updateLocalList(listId, list => ({
+            ...list,
+            invitations: [
+              ...(list.invitations || []).filter(other => other.id !== invitation.id),
+              invitation
+            ]
+          }));
+          return null;
+        },
+
+        cancelInvitation: async (listId, invitationId) => {
+          return withRollback(() => {
+            updateLocalList(listId, list => ({
+              ...list,
+              invitations: (list.invitations || []).filter(invitation => invitation.id !== invitationId)
+            }));
+            return deleteListInvitation(invitationId);
+          });
+        },
+
+        removeMember: async (listId, memberId) => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          console.log(`Removing member ${memberId} from list ${listId}`);
+          return withRollback(() => {
+            updateLocalList(listId, list => ({
+              ...list,
+              members: (list.members || []).filter(member => member.user_id !== memberId)
+            }));
+            return removeListMember(listId, memberId);
+          });
+        },
+
+        // Stop being an editor of someone else's list
+        leaveList: async (listId) => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          console.log(`Leaving list ${listId}`);
+          return withRollback(() => {
+            set(state => ({ lists: state.lists.filter(list => list.id !== listId) }));
+            return removeListMember(listId, userId);
+          });
+        },
+
+        acceptInvitation: async (invitationId) => {
+          const accepted = await acceptListInvitation(invitationId);
+          if (accepted) {
+            set(state => ({ invitations: state.invitations.filter(invitation => invitation.id !== invitationId) }));
+            // Load the list just joined
+            await get().syncLists();
+          }
+          return accepted;
+        },
+
+        declineInvitation: async (invitationId) => {
+          const previous = get().invitations;
+          set({ invitations: previous.filter(invitation => invitation.id !== invitationId) });
+
+          const declined = await deleteListInvitation(invitationId);
+          if (!declined) {
+            set({ invitations: previous });
+          }
+          return declined;
+        },
+
+        getList: (listId) => get().lists.find(list => list.id === listId),
+
+        isInList: (listId, media) =>
+          !!get().getList(listId)?.items.some(item => isSameMedia(item, media)),
+
+        // Replace the local lists and invitations with the server copy
+        syncLists: async () => {
+          if (get().isLoading) return false;
+
+          const session = await getCurrentSession();
+          if (!session?.user) return false;
+
+          const userId = session.user.id;
+          set({ isLoading: true, lastSyncUserId: userId });
+          try {
+            const [lists, invitations] = await Promise.all([
+              fetchUserLists(userId),
+              fetchReceivedInvitations(session.user.email || '')
+            ]);
+            console.log(`Fetched ${lists.length} lists and ${invitations.length} invitations for user ${userId}`);
+            set({ lists, invitations, isLoading: false, isInitialized: true });
+            return true;
+          } catch (error) {
+            // Keep the local copy when the fetch fails
+            console.error('Failed to sync lists:', error);
+            set({ isLoading: false });
+            return false;
+          }
+        },
+
+        // Reset store completely (for logout/account switching)
+        resetStore: () => {
+          set({
+            lists: [],
+            invitations: [],
+            isLoading: false,
+            isInitialized: false,
+            lastSyncUserId: null
+          });
+        }
+      };
+    },
+    {
+      name: 'lists-storage',
+      // A sync interrupted by a reload must not block the next one
+      partialize: (state) => ({
+        lists: state.lists,
+        invitations: state.invitations,
+        isInitialized: state.isInitialized,
+        lastSyncUserId: state.lastSyncUserId
+      })
+    }
+  )
+);
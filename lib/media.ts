@@ -0,0 +1,120 @@
+import type { TMDbSearchResult } from './tmdb';
+
+// Shared domain model for a movie or TV show, used by the stores, grids and details page.
+// TMDb payloads (search, trending, discover, details) are mapped into it with toMedia().
+
+interface BaseMedia {
+  id: number;
+  title: string; // TMDb "title" for movies, "name" for TV
+  poster_path: string | null;
+  backdrop_path?: string | null;
+  release_date: string; // TMDb "release_date" for movies, "first_air_date" for TV
+  vote_average: number;
+  vote_count?: number;
+  popularity?: number;
+  overview?: string;
+  original_language?: string;
+  genre_ids: number[];
+  genres?: { id: number, name: string }[];
+}
+
+export interface MovieMedia extends BaseMedia {
+  media_type: 'movie';
+  runtime?: number;
+}
+
+export interface TVMedia extends BaseMedia {
+  media_type: 'tv';
+  number_of_seasons?: number;
+  number_of_episodes?: number;
+  episode_run_time?: number[];
+}
+
+export type Media = MovieMedia | TVMedia;
+
+export type MediaType = Media['media_type'];
+
+// Identity of a title. TMDb ids are only unique per media type (movie 1399 is not TV show 1399),
+// so every lookup, key and route uses the (media_type, id) pair.
+export type MediaRef = Pick<Media, 'id' | 'media_type'>;
+
+export function isMediaType(value: unknown): value is MediaType {
+  return value === 'movie' || value === 'tv';
+}
+
+// Stable string key for a title, e.g. "movie_1399"
+export function getMediaKey(media: MediaRef): string {
+  return `${media.media_type}_${media.id}`;
+}
+
+export function isSameMedia(a: MediaRef, b: MediaRef): boolean {
+  return a.id === b.id && a.media_type === b.media_type;
+}
+
+// Older builds stored a placeholder URL instead of a null poster path
+const isPlaceholderPoster = (path: string | null | undefined) =>
+  !!path && path.startsWith('http');
+
+// Map a TMDb result to the domain model. Returns null for people and unknown payloads.
+export function toMedia(result: TMDbSearchResult): Media | null {
+  if (!result || result.media_type === 'person') {
+    return null;
+  }
+
+  // If media_type is missing, infer it from whether it has a title (movie) or name (tv)
+  const mediaType: MediaType = result.media_type || (result.title ? 'movie' : 'tv');
+
+  const base: BaseMedia = {
+    id: result.id,
+    title: result.title || result.name || '',
+    poster_path: isPlaceholderPoster(result.poster_path) ? null : result.poster_path || null,
+    backdrop_path: result.backdrop_path || null,
+    release_date: result.release_date || result.first_air_date || '',
+    vote_average: result.vote_average || 0,
+    vote_count: result.vote_count,
+    popularity: result.popularity || 0,
+    overview: result.overview,
+    original_language: result.original_language,
+    // Details payloads carry genres instead of genre_ids
+    genre_ids: result.genre_ids || result.genres?.map(genre => genre.id) || [],
+    genres: result.genres
+  };
+
+  if (mediaType === 'movie') {
+    return {
+      ...base,
+      media_type: 'movie',
+      runtime: result.runtime
+    };
+  }
+
+  return {
+    ...base,
+    media_type: 'tv',
+    number_of_seasons: result.number_of_seasons,
+    number_of_episodes: result.number_of_episodes,
+    episode_run_time: result.episode_run_time
+  };
+}
+
+// Normalize an item read back from storage (Supabase rows or persisted state),
+// which may have been written by older versions of the app
+export function fromStoredMedia<T extends Media = Media>(raw: any): T | null {
+  if (!raw || typeof raw.id !== 'number') {
+    return null;
+  }
+
+  const media = toMedia(raw);
+  if (!media) {
+    return null;
+  }
+
+  // Keep any user data stored alongside the TMDb fields (rating, watched date...)
+  return { ...raw, ...media } as T;
+}
+
+// Year of release as a string, or '' when unknown
+export function getReleaseYear(media: Pick<Media, 'release_date'>): string {
+  const year = new Date(media.release_date || '').getFullYear();
+  return isNaN(year) ? '' : year.toString();
+}
@@ -0,0 +1,95 @@
+import type { TMDbFullDetails, TMDbVideo } from './tmdb';
+import type { MediaType } from './media';
+
+// Helpers for the sections of the details screen, built from TMDb's appended responses
+
+// Country whose certification is shown
+const CERTIFICATION_REGION = 'US';
+
+// Trailers first, then teasers; official videos before fan uploads
+const VIDEO_TYPE_ORDER = ['Trailer', 'Teaser', 'Clip', 'Featurette', 'Behind the Scenes'];
+
+export interface ExternalLink {
+  label: string;
+  url: string;
+}
+
+// "2h 15m", or "45m" under an hour
+export function formatRuntime(minutes: number): string {
+  const rounded = Math.round(minutes);
+  return rounded >= 60 ? `${Math.floor(rounded / 60)}h ${rounded % 60}m` : `${rounded}m`;
+}
+
+// Directors of a movie, creators of a TV show
+export function getDirectors(details: TMDbFullDetails): string[] {
+  if (details.media_type === 'tv') {
+    return (details.created_by || []).map(creator => creator.name);
+  }
+  return (details.credits?.crew || [])
+    .filter(member => member.job === 'Director')
+    .map(member => member.name);
+}
+
+// Writers and screenplay credits of a movie, without duplicates
+export function getWriters(details: TMDbFullDetails): string[] {
+  const names = (details.credits?.crew || [])
+    .filter(member => member.department === 'Writing')
+    .map(member => member.name);
+  return [...new Set(names)];
+}
+
+// Age rating, e.g. "PG-13" or "TV-MA"
+export function getCertification(details: TMDbFullDetails, region = CERTIFICATION_REGION): string | null {
+  if (details.media_type === 'tv') {
+    return details.content_ratings?.results.find(rating => rating.iso_3166_1 === region)?.rating || null;
+  }
+
+  const releases = details.release_dates?.results.find(country => country.iso_3166_1 === region);
+  return releases?.release_dates.find(release => release.certification)?.certification || null;
+}
+
+// YouTube videos worth showing, trailers first
+export function getVideos(details: TMDbFullDetails): TMDbVideo[] {
+  const rank = (video: TMDbVideo) => {
+    const index = VIDEO_TYPE_ORDER.indexOf(video.type);
+    return index === -1 ? VIDEO_TYPE_ORDER.length : index;
+  };
+
+  return (details.videos?.results || [])
+    .filter(video => video.site === 'YouTube')
+    .sort((a, b) => rank(a) - rank(b) || Number(b.official) - Number(a.official));
+}
+
+export function getVideoUrl(video: TMDbVideo): string {
+  return `https://www.youtube.com/watch?v=${video.key}`;
+}
+
+export function getVideoThumbnail(video: TMDbVideo): string {
+  return `https://img.youtube.com/vi/${video.key}/hqdefault.jpg`;
+}
+
+// Pages about the title on other sites, where its ratings and reviews are
+export function getExternalLinks(details: TMDbFullDetails, mediaType: MediaType): ExternalLink[] {
+  const ids = details.external_ids || {};
+  const links: ExternalLink[] = [];
+
+  if (ids.imdb_id) {
+    links.push({ label: 'IMDb', url: `https://www.imdb.com/title/${ids.imdb_id}/` });
+  }
+  links.push({ label: 'TMDb', url: `https://www.themoviedb.org/${mediaType}/${details.id}` });
+  if (mediaType === 'movie') {
+    // Letterboxd resolves TMDb ids to its own film pages
+    links.push({ label: 'Letterboxd', url: `https://letterboxd.com/tmdb/${details.id}/` });
+  }
+  if (ids.wikidata_id) {
+    links.push({ label: 'Wikidata', url: `https://www.wikidata.org/wiki/${ids.wikidata_id}` });
+  }
+  if (ids.instagram_id) {
+    links.push({ label: 'Instagram', url: `https://www.instagram.com/${ids.instagram_id}/` });
+  }
+  if (ids.twitter_id) {
+    links.push({ label: 'X', url: `https://x.com/${ids.twitter_id}` });
+  }
+
+  return links;
+}
@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  fetchNotificationPreferences,
+  saveNotificationPreferences,
+  NotificationPreferences
+} from '@/lib/supabase';
+import { MediaRef, getMediaKey } from '@/lib/media';
+
+export type { NotificationPreferences };
+
+interface NotificationState {
+  // By user id, so switching accounts on a device doesn't mix up their reminders
+  preferences: Record<string, NotificationPreferences>;
+  loadPreferences: (userId: string) => Promise<NotificationPreferences>;
+  updatePreferences: (userId: string, fields: Partial<NotificationPreferences>) => Promise<boolean>;
+  toggleTitle: (userId: string, media: MediaRef) => Promise<boolean>;
+}
+
+// Reminder settings of a user, the defaults until they are loaded
+export function getPreferences(
+  preferences: Record<string, NotificationPreferences>,
+  userId: string | null
+): NotificationPreferences {
+  return (userId && preferences[userId]) || DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+// Reminder settings, saved to Supabase and cached on the device so reminders can be
+// rescheduled without a request
+export const useNotificationStore = create<NotificationState>()(
+  persist(
+    (set, get) => ({
+      preferences: {},
+
+      loadPreferences: async (userId) => {
+        try {
+          const preferences = await fetchNotificationPreferences(userId);
+          set(state => ({ preferences: { ...state.preferences, [userId]: preferences } }));
+          return preferences;
+        } catch (error) {
+          // Keep the local copy when the fetch fails
+          console.error('Failed to load notification preferences:', error);
+          return getPreferences(get().preferences, userId);
+        }
+      },
+
+      // Applied right away and put back when the save fails
+      updatePreferences: async (userId, fields) => {
+        const previous = getPreferences(get().preferences, userId);
+        const updated = { ...previous, ...fields };
+        set(state => ({ preferences: { ...state.preferences, [userId]: updated } }));
+
+        const saved = await saveNotificationPreferences(userId, updated);
+        if (!saved) {
+          set(state => ({ preferences: { ...state.preferences, [userId]: previous } }));
+        }
+        return saved;
+      },
+
+      toggleTitle: async (userId, media) => {
+        const key = getMediaKey(media);
+        const { titles } = getPreferences(get().preferences, userId);
+        return get().updatePreferences(userId, {
+          titles: titles.includes(key) ? titles.filter(other => other !== key) : [...titles, key]
+        });
+      }
+    }),
+    {
+      name: 'notification-storage',
+      partialize: (state) => ({ preferences: state.preferences })
+    }
+  )
+);
@@ -0,0 +1,87 @@
+import { MediaRef, isSameMedia } from './media';
+
+// Manual ordering with sparse, fractional positions.
+// Items are sorted by ascending position. Moving an item only gives it a position between its
+// new neighbours, so a move rewrites one row instead of the whole list.
+
+// Spacing used when positions are (re)assigned
+export const POSITION_GAP = 1024;
+
+// Below this gap between neighbours the list is respaced (float precision runs out eventually)
+const MIN_POSITION_GAP = 1e-6;
+
+interface Positioned {
+  position?: number;
+}
+
+// Position for an item placed between two neighbours (either may be missing at the ends)
+export function getPositionBetween(previous?: number, next?: number): number {
+  if (previous === undefined && next === undefined) return POSITION_GAP;
+  if (previous === undefined) return (next as number) - POSITION_GAP;
+  if (next === undefined) return previous + POSITION_GAP;
+  return (previous + next) / 2;
+}
+
+// Whether there is still room between two neighbours for another position
+export function hasRoomBetween(previous?: number, next?: number): boolean {
+  return previous === undefined || next === undefined || next - previous > MIN_POSITION_GAP;
+}
+
+// Evenly spaced positions for a list in its current order
+export function respacePositions<T extends Positioned>(items: T[]): T[] {
+  return items.map((item, index) => ({ ...item, position: (index + 1) * POSITION_GAP }));
+}
+
+// Sort by position; items without one (saved by older clients) keep their order at the end
+export function sortByPosition<T extends Positioned>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const positionA = a.item.position ?? Infinity;
+      const positionB = b.item.position ?? Infinity;
+      if (positionA !== positionB) return positionA < positionB ? -1 : 1;
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+// Where a moved item lands: between the items shown before and after it
+export interface MoveTarget {
+  previous?: MediaRef;
+  next?: MediaRef;
+}
+
+// Move an item within a list sorted by position.
+// Returns the new list and the items whose position changed (usually just the moved one).
+export function moveItemBetween<T extends Positioned & MediaRef>(
+  items: T[],
+  media: MediaRef,
+  target: MoveTarget
+): { items: T[]; changed: T[] } {
+  const moving = items.find(item => isSameMedia(item, media));
+  if (!moving) return { items, changed: [] };
+
+  const others = items.filter(item => item !== moving);
+  const previous = target.previous && others.find(item => isSameMedia(item, target.previous as MediaRef));
+  const next = target.next && others.find(item => isSameMedia(item, target.next as MediaRef));
+
+  const needsRespace =
+    (previous && previous.position === undefined) ||
+    (next && next.position === undefined) ||
+    !hasRoomBetween(previous?.position, next?.position);
+
+  if (!needsRespace) {
+    const moved = { ...moving, position: getPositionBetween(previous?.position, next?.position) };
+    return { items: sortByPosition([...others, moved]), changed: [moved] };
+  }
+
+  // No room left (or neighbours without a position): respace the whole list once
+  const insertAt = previous
+    ? others.indexOf(previous) + 1
+    : next ? others.indexOf(next) : others.length;
+  const ordered = [...others.slice(0, insertAt), moving, ...others.slice(insertAt)];
+  const reordered = respacePositions(ordered);
+  const changed = reordered.filter((item, index) => item.position !== ordered[index].position);
+
+  return { items: reordered, changed };
+}
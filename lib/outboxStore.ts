@@ -0,0 +1,346 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getCurrentSession,
+  saveUserItem,
+  removeUserItem,
+  updateUserItemPositions,
+  UserItem
+} from '@/lib/supabase';
+import { MediaRef, getMediaKey, isSameMedia } from '@/lib/media';
+
+// Durable queue of library changes that still have to reach Supabase.
+// Stores apply a change locally, enqueue it here and return right away; the outbox sends it
+// when possible, retrying with backoff, after reconnecting and before every sync.
+
+export type OutboxMutation =
+  | { kind: 'upsert'; item: UserItem }
+  | { kind: 'delete'; media: MediaRef }
+  | { kind: 'position'; media: MediaRef; position: number };
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  mutation: OutboxMutation;
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isFlushing: boolean;
+  enqueue: (userId: string, mutation: OutboxMutation) => void;
+  flush: () => Promise<void>;
+  retryFailed: () => void;
+  discardFailed: () => void;
+}
+
+const BASE_RETRY_DELAY = 2000; // 2 seconds, doubled after every failed attempt
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+const MAX_ATTEMPTS = 8; // after this an entry is marked failed until the user retries
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getMutationMedia = (mutation: OutboxMutation): MediaRef =>
+  mutation.kind === 'upsert' ? mutation.item : mutation.media;
+
+// Upserts and deletes of the same row replace each other, position changes are tracked separately
+const getEntryKey = (userId: string, mutation: OutboxMutation) =>
+  `${userId}:${getMediaKey(getMutationMedia(mutation))}:${mutation.kind === 'position' ? 'position' : 'row'}`;
+
+const createEntry = (userId: string, mutation: OutboxMutation): OutboxEntry => {
+  const now = Date.now();
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 10)}`,
+    userId,
+    mutation,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now
+  };
+};
+
+// Entries queued before the watchlist and watched lists became one library (version 0)
+// carry the list they were meant for
+type LegacyListType = 'watchlist' | 'watched';
+
+type LegacyOutboxMutation =
+  | { kind: 'upsert'; type: LegacyListType; item: UserItem }
+  | { kind: 'delete'; type: LegacyListType; media: MediaRef }
+  | { kind: 'position'; type: LegacyListType; media: MediaRef; position: number };
+
+type LegacyOutboxEntry = Omit<OutboxEntry, 'mutation'> & { mutation: LegacyOutboxMutation };
+
+type PersistedOutbox = { entries?: OutboxEntry[] } | { entries?: LegacyOutboxEntry[] };
+
+// Upserts keep the list as the item status; removing a title from one list while it was being
+// added to the other (the old "mark watched" and "rewatch") was a move, not a delete.
+function migrateLegacyEntries(entries: LegacyOutboxEntry[]): OutboxEntry[] {
+  const isMove = ({ userId, mutation }: LegacyOutboxEntry) => {
+    if (mutation.kind !== 'delete') return false;
+
+    return entries.some(other =>
+      other.userId === userId &&
+      other.mutation.kind === 'upsert' &&
+      other.mutation.type !== mutation.type &&
+      isSameMedia(other.mutation.item, mutation.media)
+    );
+  };
+
+  return entries
+    .filter(entry => !isMove(entry))
+    .map(({ mutation: { type, ...mutation }, ...entry }) => ({
+      ...entry,
+      mutation: mutation.kind === 'upsert'
+        ? { ...mutation, item: { ...mutation.item, status: type === 'watched' ? 'watched' : 'planned' } }
+        : mutation
+    }));
+}
+
+const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+
+async function sendMutation(userId: string, mutation: OutboxMutation): Promise<boolean> {
+  switch (mutation.kind) {
+    case 'upsert':
+      return saveUserItem(userId, mutation.item);
+    case 'delete':
+      return removeUserItem(userId, mutation.media);
+    case 'position':
+      return updateUserItemPositions(userId, [
+        { media: mutation.media, position: mutation.position }
+      ]);
+  }
+}
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      isFlushing: false,
+
+      // Queue a change, replacing any older pending change to the same item
+      enqueue: (userId, mutation) => {
+        const key = getEntryKey(userId, mutation);
+        const entries = get().entries;
+
+        // A new position for an item whose upsert hasn't been sent yet rides along with it
+        if (mutation.kind === 'position') {
+          const pendingUpsert = entries.find(entry =>
+            entry.userId === userId &&
+            entry.mutation.kind === 'upsert' &&
+            isSameMedia(entry.mutation.item, mutation.media)
+          );
+
+          if (pendingUpsert && pendingUpsert.mutation.kind === 'upsert') {
+            const upsert = pendingUpsert.mutation;
+            const item = { ...upsert.item, position: mutation.position };
+            // A new id makes a send already in flight ignore its result, so the new position is sent too
+            set({
+              entries: entries.map(entry => entry === pendingUpsert
+                ? { ...createEntry(userId, { ...upsert, item }), createdAt: entry.createdAt }
+                : entry
+              )
+            });
+            get().flush();
+            return;
+          }
+        }
+
+        // Deleting a row makes any pending position change for it pointless
+        const obsolete = (entry: OutboxEntry) =>
+          getEntryKey(entry.userId, entry.mutation) === key ||
+          (mutation.kind === 'delete' &&
+            getEntryKey(entry.userId, entry.mutation) === key.replace(/:row$/, ':position'));
+
+        set({
+          entries: [...entries.filter(entry => !obsolete(entry)), createEntry(userId, mutation)]
+        });
+
+        get().flush();
+      },
+
+      // Send every due entry of the signed-in user, oldest first
+      flush: async () => {
+        if (get().isFlushing) return;
+
+        const session = await getCurrentSession();
+        if (!session?.user) return;
+
+        const userId = session.user.id;
+        set({ isFlushing: true });
+
+        try {
+          const due = get().entries.filter(entry =>
+            entry.userId === userId &&
+            entry.status === 'pending' &&
+            entry.nextAttemptAt <= Date.now()
+          );
+
+          for (const entry of due) {
+            let success = false;
+            try {
+              success = await sendMutation(userId, entry.mutation);
+            } catch {
+              success = false;
+            }
+
+            set(state => {
+              // The entry may have been replaced by a newer change while it was being sent
+              const current = state.entries.find(e => e.id === entry.id);
+              if (!current) return state;
+
+              if (success) {
+                return { entries: state.entries.filter(e => e.id !== entry.id) };
+              }
+
+              const attempts = current.attempts + 1;
+              const failed = attempts >= MAX_ATTEMPTS;
+              console.log(`Outbox ${entry.mutation.kind} failed (attempt ${attempts}/${MAX_ATTEMPTS})`);
+
+              return {
+                entries: state.entries.map(e => e.id === entry.id
+                  ? {
+                    ...e,
+                    attempts,
+                    status: failed ? 'failed' : 'pending',
+                    nextAttemptAt: Date.now() + getRetryDelay(attempts)
+                  }
+                  : e
+                )
+              };
+            });
+          }
+        } finally {
+          set({ isFlushing: false });
+          scheduleRetry(userId);
+        }
+      },
+
+      // Give failed entries a fresh set of attempts
+      retryFailed: () => {
+        set(state => ({
+          entries: state.entries.map(entry => entry.status === 'failed'
+            ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() }
+            : entry
+          )
+        }));
+        get().flush();
+      },
+
+      // Drop failed entries (the next sync brings back the server state)
+      discardFailed: () => {
+        set(state => ({
+          entries: state.entries.filter(entry => entry.status !== 'failed')
+        }));
+      }
+    }),
+    {
+      name: 'outbox-storage',
+      version: 1,
+      // Unsent changes have to survive the app being closed, so devices keep them on disk
+      // (AsyncStorage uses localStorage on web)
+      storage: createJSONStorage(() => AsyncStorage),
+      // A flush in progress doesn't survive a reload
+      partialize: (state) => ({ entries: state.entries }),
+      migrate: (persistedState, version) => {
+        const persisted = persistedState as PersistedOutbox;
+        if (version === 0 && persisted?.entries) {
+          return { entries: migrateLegacyEntries(persisted.entries as LegacyOutboxEntry[]) } as OutboxState;
+        }
+        return persisted as OutboxState;
+      }
+    }
+  )
+);
+
+// Wake up for the next entry that is waiting on its backoff delay
+function scheduleRetry(userId: string) {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const waiting = useOutboxStore.getState().entries
+    .filter(entry => entry.userId === userId && entry.status === 'pending');
+  if (waiting.length === 0) return;
+
+  const nextAttemptAt = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    useOutboxStore.getState().flush();
+  }, Math.max(0, nextAttemptAt - Date.now()));
+}
+
+// Send everything pending right away, ignoring backoff (used when connectivity likely came back)
+export async function replayOutbox(): Promise<void> {
+  useOutboxStore.setState(state => ({
+    entries: state.entries.map(entry => entry.status === 'pending'
+      ? { ...entry, nextAttemptAt: Math.min(entry.nextAttemptAt, Date.now()) }
+      : entry
+    )
+  }));
+  await useOutboxStore.getState().flush();
+}
+
+// Replay the outbox when the browser goes back online or the app returns to the foreground.
+// Returns a function that removes the listeners.
+export function startOutboxReplay(): () => void {
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      replayOutbox();
+    }
+  });
+
+  const handleOnline = () => replayOutbox();
+  const canListenOnline = Platform.OS === 'web' && typeof window !== 'undefined';
+  if (canListenOnline) {
+    window.addEventListener('online', handleOnline);
+  }
+
+  // Pick up anything left over from a previous session
+  replayOutbox();
+
+  return () => {
+    appStateSubscription.remove();
+    if (canListenOnline) {
+      window.removeEventListener('online', handleOnline);
+    }
+  };
+}
+
+// Apply the user's unsent changes on top of items fetched from the server,
+// so a sync doesn't hide changes that haven't been sent yet
+export function applyPendingMutations<T extends UserItem>(
+  items: T[],
+  userId: string
+): T[] {
+  const entries = useOutboxStore.getState().entries
+    .filter(entry => entry.userId === userId);
+
+  return entries.reduce<T[]>((result, { mutation }) => {
+    const media = getMutationMedia(mutation);
+    switch (mutation.kind) {
+      case 'upsert': {
+        const others = result.filter(item => !isSameMedia(item, media));
+        return [mutation.item as T, ...others];
+      }
+      case 'delete':
+        return result.filter(item => !isSameMedia(item, media));
+      case 'position':
+        return result.map(item => isSameMedia(item, media) ? { ...item, position: mutation.position } : item);
+    }
+  }, items);
+}
+
+// Counts for the UI
+export const selectPendingCount = (state: OutboxState) =>
+  state.entries.filter(entry => entry.status === 'pending').length;
+
+export const selectFailedCount = (state: OutboxState) =>
+  state.entries.filter(entry => entry.status === 'failed').length;
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  getCurrentSession,
+  fetchUserProfile,
+  saveUserProfile,
+  UserProfile,
+  UserProfileFields
+} from '@/lib/supabase';
+
+export type { UserProfile, UserProfileFields };
+
+interface ProfileState {
+  // Null until the user picks a handle
+  profile: UserProfile | null;
+  isLoading: boolean;
+  lastSyncUserId: string | null;
+  loadProfile: () => Promise<UserProfile | null>;
+  // Returns an error message, or null when saved
+  saveProfile: (fields: UserProfileFields) => Promise<string | null>;
+  resetStore: () => void;
+}
+
+export const useProfileStore = create<ProfileState>()(
+  persist(
+    (set, get) => ({
+      profile: null,
+      isLoading: false,
+      lastSyncUserId: null,
+
+      loadProfile: async () => {
+        const session = await getCurrentSession();
+        if (!session?.user) return null;
+
+        const userId = session.user.id;
+        set({ isLoading: true, lastSyncUserId: userId });
+        try {
+          const profile = await fetchUserProfile(userId);
+          set({ profile, isLoading: false });
+          return profile;
+        } catch (error) {
+          // Keep the local copy when the fetch fails
+          console.error('Failed to load profile:', error);
+          set({ isLoading: false });
+          return get().profile;
+        }
+      },
+
+      saveProfile: async (fields) => {
+        const session = await getCurrentSession();
+        if (!session?.user) return 'Not signed in';
+
+        const { profile, error } = await saveUserProfile(session.user.id, fields);
+        if (!profile) return error || 'Failed to save profile';
+
+        set({ profile, lastSyncUserId: session.user.id });
+        return null;
+      },
+
+      // Reset store completely (for logout/account switching)
+      resetStore: () => {
+        set({
+          profile: null,
+          isLoading: false,
+          lastSyncUserId: null
+        });
+      }
+    }),
+    {
+      name: 'profile-storage',
+      partialize: (state) => ({
+        profile: state.profile,
+        lastSyncUserId: state.lastSyncUserId
+      })
+    }
+  )
+);
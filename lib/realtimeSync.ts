@@ -0,0 +1,179 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, toUserItemChanges, UserItemRow, USER_ITEM_TYPE } from '@/lib/supabase';
+import { useLibraryStore } from '@/lib/libraryStore';
+import { useListStore } from '@/lib/listStore';
+
+// Live cross-device updates: listens to the signed-in user's user_items rows through
+// Supabase Realtime and applies every change to the library store. Changes to the user's
+// custom lists (including edits by the other members of a shared list) reload the lists.
+// Started and stopped by hooks/useAuth.ts on sign in, account switch and sign out.
+
+// Anyone can read public lists, so list events are filtered down to the lists the user owns
+// or belongs to; the filter is rebuilt whenever those lists change.
+// Realtime can't filter deletes, and only sends the primary key of a deleted row: deletes of
+// lists and members are matched by list id here, while deleting a list item or invitation
+// touches its list (see the migrations), which arrives as a filtered user_lists update.
+const LIST_TABLES = ['user_lists', 'user_list_members'];
+
+// Realtime "in" filters take at most 100 values
+const MAX_FILTERED_LISTS = 100;
+
+// A drag or a bulk add sends a burst of events, reload once they settle
+const LIST_RELOAD_DELAY = 500;
+
+let channel: RealtimeChannel | null = null;
+let listChannel: RealtimeChannel | null = null;
+let subscribedUserId: string | null = null;
+let subscribedEmail: string | null = null;
+// Ids of the lists listChannel is filtered on, sorted and joined
+let subscribedListIds = '';
+let unsubscribeLists: (() => void) | null = null;
+let listReloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+function handleChange(userId: string, payload: RealtimePostgresChangesPayload<UserItemRow>) {
+  // Events can still arrive for a channel that is being torn down
+  if (userId !== subscribedUserId) return;
+
+  let row: UserItemRow;
+  if (payload.eventType === 'DELETE') {
+    // Hard deletes (older clients, legacy key migration) - treat the old row as a tombstone.
+    // Needs REPLICA IDENTITY FULL to carry more than the primary key.
+    if (!payload.old.tmdb_id || !payload.old.type) return;
+    row = { ...(payload.old as UserItemRow), deleted_at: payload.commit_timestamp };
+  } else {
+    row = payload.new;
+  }
+
+  // Rows written by clients from before the library had statuses
+  if (row.type !== USER_ITEM_TYPE) return;
+
+  useLibraryStore.getState().applyRemoteChanges(userId, toUserItemChanges(userId, [row], null));
+}
+
+function scheduleListReload(userId: string) {
+  if (userId !== subscribedUserId) return;
+
+  if (listReloadTimer) clearTimeout(listReloadTimer);
+  listReloadTimer = setTimeout(() => {
+    listReloadTimer = null;
+    useListStore.getState().syncLists();
+  }, LIST_RELOAD_DELAY);
+}
+
+const getListIds = () =>
+  useListStore.getState().lists.map(list => list.id).sort().slice(0, MAX_FILTERED_LISTS).join(',');
+
+// (Re)subscribe to the changes of the user's lists, their items, members and invitations
+function subscribeToLists(userId: string) {
+  if (listChannel) {
+    supabase.removeChannel(listChannel);
+    listChannel = null;
+  }
+
+  subscribedListIds = getListIds();
+  const listIds = subscribedListIds ? subscribedListIds.split(',') : [];
+  const reload = () => scheduleListReload(userId);
+
+  const current = supabase
+    .channel(`user_lists:${userId}:${Date.now()}`)
+    // Lists created on another device, and being added to someone else's list
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'user_lists', filter: `user_id=eq.${userId}` }, reload)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'user_list_members', filter: `user_id=eq.${userId}` }, reload);
+
+  if (subscribedEmail) {
+    current.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'user_list_invitations', filter: `email=eq.${subscribedEmail.toLowerCase()}` },
+      reload
+    );
+  }
+
+  if (listIds.length > 0) {
+    const inLists = `in.(${subscribedListIds})`;
+    current
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_lists', filter: `id=${inLists}` }, reload)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_list_items', filter: `list_id=${inLists}` }, reload)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_list_members', filter: `list_id=${inLists}` }, reload)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_list_invitations', filter: `list_id=${inLists}` }, reload);
+
+    LIST_TABLES.forEach(table => {
+      current.on('postgres_changes', { event: 'DELETE', schema: 'public', table }, (payload) => {
+        const old = payload.old as { id?: string; list_id?: string };
+        if (listIds.includes((table === 'user_lists' ? old.id : old.list_id) ?? '')) reload();
+      });
+    });
+  }
+
+  listChannel = current.subscribe((status) => {
+    if (status === 'SUBSCRIBED') {
+      // Catch up on anything that changed while we weren't connected
+      useListStore.getState().syncLists();
+    }
+  });
+}
+
+// Subscribe to changes for a user (switching accounts replaces the previous subscription)
+export function startRealtimeSync(userId: string, email?: string | null): void {
+  if (channel && subscribedUserId === userId) return;
+
+  stopRealtimeSync();
+  subscribedUserId = userId;
+  subscribedEmail = email || null;
+
+  console.log('Starting realtime sync for user:', userId);
+
+  channel = supabase
+    .channel(`user_items:${userId}`)
+    .on<UserItemRow>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'user_items', filter: `user_id=eq.${userId}` },
+      (payload) => handleChange(userId, payload)
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        // Catch up on anything that changed while we weren't connected
+        useLibraryStore.getState().syncWithSupabase();
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        // The client keeps retrying on its own; incremental syncs cover the gap
+        console.log('Realtime channel status:', status);
+      }
+    });
+
+  subscribeToLists(userId);
+
+  // Joining, leaving, creating or deleting a list changes which lists to listen to
+  unsubscribeLists = useListStore.subscribe(() => {
+    if (userId === subscribedUserId && getListIds() !== subscribedListIds) {
+      subscribeToLists(userId);
+    }
+  });
+}
+
+// Remove the subscription (logout, account switch)
+export function stopRealtimeSync(): void {
+  if (!channel) return;
+
+  console.log('Stopping realtime sync for user:', subscribedUserId);
+
+  if (listReloadTimer) {
+    clearTimeout(listReloadTimer);
+    listReloadTimer = null;
+  }
+
+  if (unsubscribeLists) {
+    unsubscribeLists();
+    unsubscribeLists = null;
+  }
+
+  if (listChannel) {
+    supabase.removeChannel(listChannel);
+    listChannel = null;
+  }
+
+  const current = channel;
+  channel = null;
+  subscribedUserId = null;
+  subscribedEmail = null;
+  subscribedListIds = '';
+  supabase.removeChannel(current);
+}
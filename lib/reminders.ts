@@ -0,0 +1,249 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { LibraryItem } from '@/lib/libraryStore';
+import { MediaRef, getMediaKey, isMediaType } from '@/lib/media';
+import { isTracked } from '@/lib/calendar';
+import { UpcomingInfo, useCalendarStore } from '@/lib/calendarStore';
+import { NotificationPreferences, useNotificationStore } from '@/lib/notificationStore';
+
+// Local notifications on the day a title the user asked about comes out: a watchlisted
+// movie reaching cinemas or going digital, or a new episode of a show. Nothing is sent from
+// a server, so reminders are rescheduled on the device whenever the library or settings change.
+
+export interface Reminder {
+  id: string;
+  date: Date;
+  title: string;
+  body: string;
+  media: MediaRef;
+}
+
+const CHANNEL_ID = 'reminders';
+
+// iOS keeps at most 64 pending notifications per app, the soonest ones are kept
+const MAX_SCHEDULED = 60;
+
+// Wait for a burst of library changes to settle before rescheduling
+const RESCHEDULE_DELAY = 2000;
+
+// Bumped by every reschedule and by clearReminders, so a run that is overtaken (or outlives
+// the user's session) stops before it schedules anything
+let generation = 0;
+let rescheduleTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Local time of day on a YYYY-MM-DD date
+const atHour = (date: string | undefined | null, hour: number): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date || '');
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), hour) : null;
+};
+
+// Reminders still to come for the titles the user opted in to, soonest first
+export function getReminders(
+  items: LibraryItem[],
+  preferences: NotificationPreferences,
+  upcoming: Record<string, UpcomingInfo>,
+  now: Date = new Date()
+): Reminder[] {
+  const reminders: Reminder[] = [];
+
+  const add = (id: string, date: string | undefined | null, title: string, body: string, media: MediaRef) => {
+    const at = atHour(date, preferences.reminder_hour);
+    if (at && at > now) {
+      reminders.push({ id, date: at, title, body, media });
+    }
+  };
+
+  items.forEach(item => {
+    const key = getMediaKey(item);
+    if (!isTracked(item) || !preferences.titles.includes(key)) return;
+
+    const info = upcoming[key];
+    const media = { id: item.id, media_type: item.media_type };
+
+    if (item.media_type === 'movie') {
+      const releases = info?.releases;
+      // Straight-to-streaming movies have no cinema release; without any regional dates
+      // the primary release date stands in for it
+      const theatrical = releases?.theatrical
+        ?? (releases?.digital ? undefined : info?.releaseDate ?? item.release_date);
+      if (preferences.theatrical_releases) {
+        add(`${key}-theatrical`, theatrical, item.title, 'Out in cinemas today', media);
+      }
+      if (preferences.digital_releases) {
+        add(`${key}-digital`, releases?.digital, item.title, 'Out to stream, rent or buy today', media);
+      }
+      return;
+    }
+
+    if (!preferences.new_episodes) return;
+
+    if (item.status === 'planned') {
+      add(`${key}-premiere`, info?.releaseDate ?? item.release_date, item.title, 'Premieres today', media);
+    }
+
+    const episode = info?.nextEpisode;
+    if (episode) {
+      const number = `S${episode.season_number}E${episode.episode_number}`;
+      add(
+        `${key}-s${episode.season_number}e${episode.episode_number}`,
+        episode.air_date,
+        item.title,
+        episode.name ? `New episode today: ${number} · ${episode.name}` : `New episode today: ${number}`,
+        media
+      );
+    }
+  });
+
+  // A show premiering with its first episode only needs one reminder that day
+  const unique = reminders.filter((reminder, index) =>
+    reminders.findIndex(other =>
+      getMediaKey(other.media) === getMediaKey(reminder.media) && other.date.getTime() === reminder.date.getTime()
+    ) === index
+  );
+
+  return unique.sort((a, b) => a.date.getTime() - b.date.getTime()).slice(0, MAX_SCHEDULED);
+}
+
+// Show reminders while the app is open too, and give them their own channel on Android
+export function configureReminders(): void {
+  if (Platform.OS === 'web') return;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false
+    })
+  });
+
+  if (Platform.OS === 'android') {
+    Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Release reminders',
+      importance: Notifications.AndroidImportance.DEFAULT
+    }).catch(error => console.error('Failed to create the reminders channel:', error));
+  }
+}
+
+// Open the title of a reminder the user taps
+export function startReminderResponses(onOpen: (media: MediaRef) => void): () => void {
+  if (Platform.OS === 'web') return () => {};
+
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    const { id, media_type } = response.notification.request.content.data || {};
+    if (typeof id === 'number' && isMediaType(media_type)) {
+      onOpen({ id, media_type });
+    }
+  });
+
+  return () => subscription.remove();
+}
+
+// Whether reminders can go off, without prompting the user
+export async function hasReminderPermission(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+
+  try {
+    return (await Notifications.getPermissionsAsync()).granted;
+  } catch (error) {
+    console.error('Failed to check notification permission:', error);
+    return false;
+  }
+}
+
+// Ask for permission the first time the user turns a reminder on. Always false on web,
+// where local notifications can't be scheduled.
+export async function requestReminderPermission(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return false;
+  }
+}
+
+// Replace the scheduled reminders with the ones for the user's current library and settings
+export async function rescheduleReminders(userId: string, items: LibraryItem[]): Promise<void> {
+  if (Platform.OS === 'web' || !userId) return;
+
+  const run = ++generation;
+
+  try {
+    if (!(await hasReminderPermission())) return;
+
+    const preferences = useNotificationStore.getState().preferences[userId]
+      || await useNotificationStore.getState().loadPreferences(userId);
+
+    // Another load is filling the cache and would skip these titles, try again once it's done
+    if (useCalendarStore.getState().isLoading) {
+      queueReminderReschedule(userId, items);
+      return;
+    }
+
+    // Fresh dates for the titles with reminders
+    const titles = items.filter(item => isTracked(item) && preferences.titles.includes(getMediaKey(item)));
+    await useCalendarStore.getState().loadUpcoming(titles);
+
+    const reminders = getReminders(items, preferences, useCalendarStore.getState().upcoming);
+
+    if (run !== generation) return;
+
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    for (const reminder of reminders) {
+      if (run !== generation) return;
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.id,
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: { id: reminder.media.id, media_type: reminder.media.media_type }
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.date,
+          channelId: CHANNEL_ID
+        }
+      });
+    }
+
+    console.log(`Scheduled ${reminders.length} reminders for user:`, userId);
+  } catch (error) {
+    console.error('Failed to reschedule reminders:', error);
+  }
+}
+
+// Reschedule once the library stops changing (several titles moved in a row, a realtime burst)
+export function queueReminderReschedule(userId: string, items: LibraryItem[]): void {
+  if (Platform.OS === 'web' || !userId) return;
+
+  if (rescheduleTimer) clearTimeout(rescheduleTimer);
+  rescheduleTimer = setTimeout(() => {
+    rescheduleTimer = null;
+    rescheduleReminders(userId, items);
+  }, RESCHEDULE_DELAY);
+}
+
+// Cancel every reminder on the device, for sign-out and account switches, so one account's
+// reminders never go off for the next
+export async function clearReminders(): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  generation++;
+  if (rescheduleTimer) {
+    clearTimeout(rescheduleTimer);
+    rescheduleTimer = null;
+  }
+
+  try {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    console.log('Cleared scheduled reminders');
+  } catch (error) {
+    console.error('Failed to clear reminders:', error);
+  }
+}
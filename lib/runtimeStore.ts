@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { MediaRef, getMediaKey } from '@/lib/media';
+import { getMovieDetails, getTVDetails, getTVSeason } from '@/lib/tmdb';
+import { getRegularSeasons } from '@/lib/episodeProgress';
+
+// Runtime of a regular season: its episode count and typical episode length in minutes
+export interface SeasonRuntime {
+  episode_count: number;
+  episodeRuntime?: number;
+}
+
+// Runtimes of a title from TMDb, used for watch-time statistics
+export interface RuntimeInfo {
+  fetchedAt: number;
+  runtime?: number; // movie length in minutes
+  episodeRuntime?: number; // typical TV episode length, when TMDb lists one for the show
+  seasons?: Record<string, SeasonRuntime>; // regular seasons of a TV show by season number
+}
+
+interface RuntimeState {
+  // By media key, e.g. "movie_1399"
+  runtimes: Record<string, RuntimeInfo>;
+  isLoading: boolean;
+  loadRuntimes: (items: MediaRef[]) => Promise<void>;
+  getRuntime: (media: MediaRef) => RuntimeInfo | undefined;
+}
+
+// Runtimes hardly ever change, but new seasons get added to running shows
+const MOVIE_RUNTIME_TTL = 90 * 24 * 60 * 60 * 1000; // 90 days
+const TV_RUNTIME_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+const average = (values: (number | null | undefined)[]): number | undefined => {
+  const known = values.filter((value): value is number => typeof value === 'number' && value > 0);
+  return known.length > 0 ? known.reduce((total, value) => total + value, 0) / known.length : undefined;
+};
+
+const isStale = (media: MediaRef, info: RuntimeInfo | undefined) =>
+  !info || Date.now() - info.fetchedAt > (media.media_type === 'movie' ? MOVIE_RUNTIME_TTL : TV_RUNTIME_TTL);
+
+async function fetchRuntime(media: MediaRef): Promise<RuntimeInfo> {
+  if (media.media_type === 'movie') {
+    const details = await getMovieDetails(media.id);
+    return { fetchedAt: Date.now(), runtime: details.runtime || undefined };
+  }
+
+  const details = await getTVDetails(media.id);
+  const episodeRuntime = average(details.episode_run_time || []);
+  const seasons: Record<string, SeasonRuntime> = {};
+
+  // Newer shows often have no episode_run_time, so fall back to the episodes of each season
+  await Promise.all(getRegularSeasons(details.seasons).map(async season => {
+    const seasonRuntime: SeasonRuntime = { episode_count: season.episode_count };
+    if (episodeRuntime === undefined) {
+      const { episodes } = await getTVSeason(media.id, season.season_number);
+      seasonRuntime.episodeRuntime = average(episodes.map(episode => episode.runtime));
+    }
+    seasons[season.season_number] = seasonRuntime;
+  }));
+
+  return { fetchedAt: Date.now(), episodeRuntime, seasons };
+}
+
+// Cache of TMDb runtimes so statistics don't refetch details for every title each time
+export const useRuntimeStore = create<RuntimeState>()(
+  persist(
+    (set, get) => ({
+      runtimes: {},
+      isLoading: false,
+
+      // Fetch runtimes of the titles that aren't cached yet (or are out of date)
+      loadRuntimes: async (items) => {
+        if (get().isLoading) return;
+
+        const missing = items.filter(media => isStale(media, get().runtimes[getMediaKey(media)]));
+        if (missing.length === 0) return;
+
+        console.log(`Loading runtimes for ${missing.length} titles`);
+        set({ isLoading: true });
+
+        const loaded: Record<string, RuntimeInfo> = {};
+        // The TMDb scheduler caps how many of these run at once
+        await Promise.all(missing.map(async media => {
+          try {
+            loaded[getMediaKey(media)] = await fetchRuntime(media);
+          } catch (error) {
+            console.error(`Failed to load runtime for ${media.media_type} ${media.id}:`, error);
+          }
+        }));
+
+        set(state => ({
+          runtimes: { ...state.runtimes, ...loaded },
+          isLoading: false
+        }));
+      },
+
+      getRuntime: (media) => get().runtimes[getMediaKey(media)]
+    }),
+    {
+      name: 'runtime-storage',
+      // A load interrupted by a reload must not block the next one
+      partialize: (state) => ({ runtimes: state.runtimes })
+    }
+  )
+);
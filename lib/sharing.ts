@@ -0,0 +1,43 @@
+import { APP_URL } from '@/constants';
+
+// Slug the watchlist is shared under; custom lists can't take it
+export const WATCHLIST_SLUG = 'watchlist';
+
+// Handles are lowercase letters, digits and underscores, e.g. "movie_night"
+export function isValidHandle(handle: string): boolean {
+  return /^[a-z0-9_]{3,30}$/.test(handle);
+}
+
+// Turn a typed handle into the stored form ("Movie Night" -> "movie_night")
+export function normalizeHandle(handle: string): string {
+  return handle.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+// URL-safe version of a list name ("Halloween Marathon!" -> "halloween-marathon")
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '') || 'list';
+}
+
+// A slug for a list that none of the user's other lists uses yet
+export function getUniqueSlug(name: string, taken: string[]): string {
+  const base = slugify(name);
+  const used = new Set([...taken, WATCHLIST_SLUG]);
+
+  let slug = base;
+  for (let suffix = 2; used.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+}
+
+// Public web address of a shared list
+export function getShareUrl(handle: string, slug: string): string {
+  return `${APP_URL}/u/${encodeURIComponent(handle)}/lists/${encodeURIComponent(slug)}`;
+}
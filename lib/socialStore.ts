@@ -0,0 +1,184 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  getCurrentSession,
+  fetchFollows,
+  followUser,
+  deleteFollow,
+  acceptFollower,
+  fetchActivity,
+  ActivityEvent,
+  Follow,
+  UserProfile
+} from '@/lib/supabase';
+
+export type { ActivityEvent, Follow };
+
+interface SocialState {
+  following: Follow[];
+  followers: Follow[];
+  feed: ActivityEvent[];
+  isLoading: boolean;
+  lastSyncUserId: string | null;
+  loadFollows: () => Promise<boolean>;
+  loadFeed: () => Promise<boolean>;
+  follow: (profile: UserProfile) => Promise<boolean>;
+  unfollow: (userId: string) => Promise<boolean>;
+  acceptFollower: (userId: string) => Promise<boolean>;
+  removeFollower: (userId: string) => Promise<boolean>;
+  resetStore: () => void;
+}
+
+// Follows and the activity feed. Like custom lists, follows are written straight to
+// Supabase and rolled back locally if the write fails.
+export const useSocialStore = create<SocialState>()(
+  persist(
+    (set, get) => {
+      const getUserId = async () => {
+        const session = await getCurrentSession();
+        if (!session?.user) return null;
+
+        set({ lastSyncUserId: session.user.id });
+        return session.user.id;
+      };
+
+      // Run a write, putting the follows back the way they were if it fails
+      const withRollback = async (write: () => Promise<boolean>) => {
+        const { following, followers } = get();
+        const saved = await write();
+        if (!saved) {
+          set({ following, followers });
+        }
+        return saved;
+      };
+
+      return {
+        following: [],
+        followers: [],
+        feed: [],
+        isLoading: false,
+        lastSyncUserId: null,
+
+        loadFollows: async () => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          try {
+            const { following, followers } = await fetchFollows(userId);
+            set({ following, followers });
+            return true;
+          } catch (error) {
+            // Keep the local copy when the fetch fails
+            console.error('Failed to load follows:', error);
+            return false;
+          }
+        },
+
+        // Latest activity of everyone the user follows (accepted follows only)
+        loadFeed: async () => {
+          if (get().isLoading) return false;
+
+          set({ isLoading: true });
+          try {
+            if (!(await get().loadFollows())) {
+              set({ isLoading: false });
+              return false;
+            }
+
+            const followed = get().following
+              .filter(follow => follow.status === 'accepted')
+              .map(follow => follow.user_id);
+            const feed = await fetchActivity(followed);
+            console.log(`Fetched ${feed.length} activity events from ${followed.length} followed users`);
+            set({ feed, isLoading: false });
+            return true;
+          } catch (error) {
+            console.error('Failed to load feed:', error);
+            set({ isLoading: false });
+            return false;
+          }
+        },
+
+        follow: async (profile) => {
+          const userId = await getUserId();
+          if (!userId || profile.user_id === userId) return false;
+          if (get().following.some(follow => follow.user_id === profile.user_id)) return true;
+
+          console.log(`Following @${profile.handle}`);
+          const status = await followUser(userId, profile.user_id);
+          if (!status) return false;
+
+          set(state => ({
+            following: [{
+              user_id: profile.user_id,
+              handle: profile.handle,
+              display_name: profile.display_name,
+              status,
+              created_at: new Date().toISOString()
+            }, ...state.following]
+          }));
+          return true;
+        },
+
+        unfollow: async (followeeId) => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          return withRollback(() => {
+            set(state => ({
+              following: state.following.filter(follow => follow.user_id !== followeeId),
+              feed: state.feed.filter(event => event.user_id !== followeeId)
+            }));
+            return deleteFollow(userId, followeeId);
+          });
+        },
+
+        acceptFollower: async (followerId) => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          return withRollback(() => {
+            set(state => ({
+              followers: state.followers.map(follow =>
+                follow.user_id === followerId ? { ...follow, status: 'accepted' } : follow
+              )
+            }));
+            return acceptFollower(userId, followerId);
+          });
+        },
+
+        // Decline a follow request or remove an existing follower
+        removeFollower: async (followerId) => {
+          const userId = await getUserId();
+          if (!userId) return false;
+
+          return withRollback(() => {
+            set(state => ({ followers: state.followers.filter(follow => follow.user_id !== followerId) }));
+            return deleteFollow(followerId, userId);
+          });
+        },
+
+        // Reset store completely (for logout/account switching)
+        resetStore: () => {
+          set({
+            following: [],
+            followers: [],
+            feed: [],
+            isLoading: false,
+            lastSyncUserId: null
+          });
+        }
+      };
+    },
+    {
+      name: 'social-storage',
+      // A load interrupted by a reload must not block the next one
+      partialize: (state) => ({
+        following: state.following,
+        followers: state.followers,
+        feed: state.feed,
+        lastSyncUserId: state.lastSyncUserId
+      })
+    }
+  )
+);
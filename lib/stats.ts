@@ -0,0 +1,263 @@
+import type { LibraryItem } from './libraryStore';
+import type { RuntimeInfo } from './runtimeStore';
+import { getMediaKey } from './media';
+import { countWatchedEpisodes, EpisodeProgress } from './episodeProgress';
+import { getWatchCount, getWatchEvents, hasBeenWatched, WatchEvent } from './watchHistory';
+
+// Watch statistics derived from the library and the cached TMDb runtimes
+
+export interface WatchStats {
+  totalWatched: number; // viewings, so a rewatch counts again
+  moviesWatched: number;
+  showsWatched: number;
+  episodesWatched: number; // episodes checked off for shows in progress
+  avgRating: number; // of the rated viewings, 0 when nothing is rated
+  watchMinutes: number;
+}
+
+// Titles whose runtime the statistics need
+export function needsRuntime(item: LibraryItem): boolean {
+  return hasBeenWatched(item) || countWatchedEpisodes(item.progress) > 0;
+}
+
+const getEpisodeRuntime = (info: RuntimeInfo, seasonNumber: string) =>
+  info.seasons?.[seasonNumber]?.episodeRuntime ?? info.episodeRuntime ?? 0;
+
+// Every regular episode of a show
+function getShowMinutes(info: RuntimeInfo): number {
+  return Object.entries(info.seasons || {}).reduce(
+    (total, [seasonNumber, season]) => total + season.episode_count * getEpisodeRuntime(info, seasonNumber),
+    0
+  );
+}
+
+// The checked-off episodes of a show
+function getProgressMinutes(progress: EpisodeProgress | undefined, info: RuntimeInfo): number {
+  return Object.entries(progress || {}).reduce(
+    (total, [seasonNumber, episodes]) => total + episodes.length * getEpisodeRuntime(info, seasonNumber),
+    0
+  );
+}
+
+// Minutes of one full viewing: the movie's runtime or every episode of the show
+export function getViewingMinutes(item: LibraryItem, info: RuntimeInfo | undefined): number {
+  if (item.media_type === 'movie') {
+    return info?.runtime ?? item.runtime ?? 0;
+  }
+  return info ? getShowMinutes(info) : 0;
+}
+
+// Minutes spent on a title: a full viewing for each time it was watched, plus the episodes
+// checked off in a show's viewing that is under way
+export function getWatchMinutes(item: LibraryItem, info: RuntimeInfo | undefined): number {
+  const finished = getWatchCount(item) * getViewingMinutes(item, info);
+  if (item.media_type === 'movie' || !info) return finished;
+
+  // A watched show's progress is the viewing already counted above
+  return item.status === 'watched' ? finished : finished + getProgressMinutes(item.progress, info);
+}
+
+export function computeWatchStats(items: LibraryItem[], runtimes: Record<string, RuntimeInfo>): WatchStats {
+  let totalWatched = 0;
+  let moviesWatched = 0;
+  let showsWatched = 0;
+  let episodesWatched = 0;
+  let watchMinutes = 0;
+  const ratings: number[] = [];
+
+  items.forEach(item => {
+    const events = getWatchEvents(item);
+    totalWatched += events.length;
+    if (item.media_type === 'movie') {
+      moviesWatched += events.length;
+    } else {
+      showsWatched += events.length;
+      if (item.status !== 'watched') {
+        episodesWatched += countWatchedEpisodes(item.progress);
+      }
+    }
+
+    events.forEach(event => {
+      if (event.rating !== undefined) ratings.push(event.rating);
+    });
+
+    watchMinutes += getWatchMinutes(item, runtimes[getMediaKey(item)]);
+  });
+
+  const avgRating = ratings.length > 0
+    ? ratings.reduce((total, rating) => total + rating, 0) / ratings.length
+    : 0;
+
+  return {
+    totalWatched,
+    moviesWatched,
+    showsWatched,
+    episodesWatched,
+    avgRating: Math.round(avgRating * 10) / 10,
+    watchMinutes: Math.round(watchMinutes)
+  };
+}
+
+// Whole hours, e.g. for "12h"
+export function toWatchHours(minutes: number): number {
+  return Math.round(minutes / 60);
+}
+
+// One viewing of a title, for the statistics screen
+export interface Viewing {
+  item: LibraryItem;
+  event: WatchEvent;
+  date: Date;
+}
+
+export interface GenreStats {
+  genre: string;
+  count: number;
+  avgRating: number | null; // of the rated viewings
+}
+
+export interface StreakStats {
+  longest: number; // days in a row with at least one viewing
+  current: number; // ending today or yesterday
+}
+
+export interface YearInReview {
+  year: number;
+  totalWatched: number;
+  moviesWatched: number;
+  showsWatched: number;
+  watchMinutes: number;
+  avgRating: number | null;
+  topGenre: string | null;
+  busiestMonth: number | null; // 0-11
+  topRated: Viewing | null;
+  firstWatch: Viewing | null;
+  longestStreak: number;
+}
+
+// Every dated viewing, newest first. Titles marked watched before dates were recorded are left out.
+export function getViewings(items: LibraryItem[]): Viewing[] {
+  return items
+    .flatMap(item => getWatchEvents(item).map(event => ({ item, event, date: new Date(event.watched_at) })))
+    .filter(viewing => viewing.date.getTime() > 0)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+export function getViewingsInYear(viewings: Viewing[], year: number): Viewing[] {
+  return viewings.filter(viewing => viewing.date.getFullYear() === year);
+}
+
+// Years with at least one viewing, newest first
+export function getWatchedYears(viewings: Viewing[]): number[] {
+  return Array.from(new Set(viewings.map(viewing => viewing.date.getFullYear()))).sort((a, b) => b - a);
+}
+
+// Viewings per month of a year, January first
+export function countByMonth(viewings: Viewing[], year: number): number[] {
+  const counts = new Array(12).fill(0);
+  getViewingsInYear(viewings, year).forEach(viewing => {
+    counts[viewing.date.getMonth()] += 1;
+  });
+  return counts;
+}
+
+const averageRating = (ratings: number[]) =>
+  ratings.length > 0
+    ? Math.round((ratings.reduce((total, rating) => total + rating, 0) / ratings.length) * 10) / 10
+    : null;
+
+// Genre names of a title, from its details when they were fetched or else its genre ids
+function getItemGenres(item: LibraryItem, genreNames: Record<number, string>): string[] {
+  if (item.genres && item.genres.length > 0) {
+    return item.genres.map(genre => genre.name);
+  }
+  return item.genre_ids.map(id => genreNames[id]).filter((name): name is string => !!name);
+}
+
+// Viewings and average rating per genre, most watched first. A title counts towards each of its genres.
+export function getGenreBreakdown(viewings: Viewing[], genreNames: Record<number, string>): GenreStats[] {
+  const byGenre = new Map<string, { count: number; ratings: number[] }>();
+
+  viewings.forEach(({ item, event }) => {
+    getItemGenres(item, genreNames).forEach(genre => {
+      const entry = byGenre.get(genre) || { count: 0, ratings: [] };
+      entry.count += 1;
+      if (event.rating !== undefined) entry.ratings.push(event.rating);
+      byGenre.set(genre, entry);
+    });
+  });
+
+  return Array.from(byGenre.entries())
+    .map(([genre, entry]) => ({ genre, count: entry.count, avgRating: averageRating(entry.ratings) }))
+    .sort((a, b) => b.count - a.count || a.genre.localeCompare(b.genre));
+}
+
+// Highest rated viewings, one per title (its best rating), most recent first among equal ratings
+export function getTopRated(viewings: Viewing[], limit = 5): Viewing[] {
+  const best = new Map<string, Viewing>();
+  viewings.forEach(viewing => {
+    if (viewing.event.rating === undefined) return;
+    const key = getMediaKey(viewing.item);
+    const current = best.get(key);
+    if (!current || viewing.event.rating > (current.event.rating ?? 0)) {
+      best.set(key, viewing);
+    }
+  });
+
+  return Array.from(best.values())
+    .sort((a, b) => (b.event.rating ?? 0) - (a.event.rating ?? 0) || b.date.getTime() - a.date.getTime())
+    .slice(0, limit);
+}
+
+// Local calendar day, so a late-night viewing counts for the day it happened
+const toDayNumber = (date: Date) =>
+  Math.round(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / (24 * 60 * 60 * 1000));
+
+export function getStreaks(viewings: Viewing[], today = new Date()): StreakStats {
+  const days = Array.from(new Set(viewings.map(viewing => toDayNumber(viewing.date)))).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // The last run is only current when it reaches today or yesterday
+  const lastDay = days[days.length - 1];
+  const current = lastDay !== undefined && toDayNumber(today) - lastDay <= 1 ? run : 0;
+
+  return { longest, current };
+}
+
+// The "wrapped" summary of one year
+export function getYearInReview(
+  viewings: Viewing[],
+  year: number,
+  runtimes: Record<string, RuntimeInfo>,
+  genreNames: Record<number, string>
+): YearInReview {
+  const inYear = getViewingsInYear(viewings, year);
+  const monthCounts = countByMonth(inYear, year);
+  const busiestCount = Math.max(...monthCounts);
+  const ratings = inYear
+    .map(viewing => viewing.event.rating)
+    .filter((rating): rating is number => rating !== undefined);
+
+  return {
+    year,
+    totalWatched: inYear.length,
+    moviesWatched: inYear.filter(viewing => viewing.item.media_type === 'movie').length,
+    showsWatched: inYear.filter(viewing => viewing.item.media_type === 'tv').length,
+    watchMinutes: Math.round(inYear.reduce(
+      (total, { item }) => total + getViewingMinutes(item, runtimes[getMediaKey(item)]),
+      0
+    )),
+    avgRating: averageRating(ratings),
+    topGenre: getGenreBreakdown(inYear, genreNames)[0]?.genre ?? null,
+    busiestMonth: busiestCount > 0 ? monthCounts.indexOf(busiestCount) : null,
+    topRated: getTopRated(inYear, 1)[0] ?? null,
+    firstWatch: inYear[inYear.length - 1] ?? null,
+    longestStreak: getStreaks(inYear).longest
+  };
+}
@@ -0,0 +1,175 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { MediaRef, getMediaKey } from '@/lib/media';
+import { getWatchProviders, TMDbRegionProviders, TMDbWatchProvider } from '@/lib/tmdb';
+import {
+  DEFAULT_STREAMING_SETTINGS,
+  fetchStreamingSettings,
+  getCurrentSession,
+  saveStreamingSettings,
+  StreamingService,
+  StreamingSettings
+} from '@/lib/supabase';
+
+export type { StreamingService };
+
+// Where the titles are streaming in the user's region, cached per title
+export interface StreamingInfo {
+  fetchedAt: number;
+  region: string;
+  // Services that include the title: subscription, free or with ads
+  providerIds: number[];
+}
+
+interface StreamingState {
+  // Settings of the signed-in user
+  region: string;
+  services: StreamingService[];
+  // By media key, e.g. "movie_1399"
+  availability: Record<string, StreamingInfo>;
+  isLoading: boolean;
+  setRegion: (region: string) => Promise<boolean>;
+  toggleService: (service: StreamingService) => Promise<boolean>;
+  loadAvailability: (items: MediaRef[]) => Promise<void>;
+  syncSettings: () => Promise<boolean>;
+  resetStore: () => void;
+}
+
+// Catalogues change every month, a few days old is close enough
+const AVAILABILITY_TTL = 3 * 24 * 60 * 60 * 1000; // 3 days
+
+
+// Every service in a region where the title is included rather than rented or sold
+export function getStreamingProviders(providers: TMDbRegionProviders | undefined): TMDbWatchProvider[] {
+  const all = [...(providers?.flatrate || []), ...(providers?.free || []), ...(providers?.ads || [])];
+  return all.filter((provider, index) => all.findIndex(other => other.provider_id === provider.provider_id) === index);
+}
+
+// Whether a title streams on one of the user's services; undefined until it is known
+export function isOnServices(
+  media: MediaRef,
+  availability: Record<string, StreamingInfo>,
+  services: StreamingService[],
+  region: string
+): boolean | undefined {
+  const info = availability[getMediaKey(media)];
+  if (!info || info.region !== region) return undefined;
+  return info.providerIds.some(id => services.some(service => service.provider_id === id));
+}
+
+const isStale = (info: StreamingInfo | undefined, region: string) =>
+  !info || info.region !== region || Date.now() - info.fetchedAt > AVAILABILITY_TTL;
+
+// The user's region and streaming services, saved to Supabase and cached on the device, and
+// a cache of where their titles stream so filters don't refetch providers for every title
+export const useStreamingStore = create<StreamingState>()(
+  persist(
+    (set, get) => {
+      // Applied right away and put back when the save fails
+      const saveSettings = async (settings: StreamingSettings): Promise<boolean> => {
+        const session = await getCurrentSession();
+        if (!session?.user) return false;
+
+        const previous = { region: get().region, services: get().services, availability: get().availability };
+        set(settings.region === previous.region ? settings : { ...settings, availability: {} });
+
+        const saved = await saveStreamingSettings(session.user.id, settings);
+        if (!saved) {
+          set(previous);
+        }
+        return saved;
+      };
+
+      return {
+        region: DEFAULT_STREAMING_SETTINGS.region,
+        services: [],
+        availability: {},
+        isLoading: false,
+
+        // Services differ per country, so changing the region starts the selection over
+        setRegion: async (region) => {
+          if (region === get().region) return true;
+          return saveSettings({ region, services: [] });
+        },
+
+        toggleService: async (service) => {
+          const { region, services } = get();
+          return saveSettings({
+            region,
+            services: services.some(other => other.provider_id === service.provider_id)
+              ? services.filter(other => other.provider_id !== service.provider_id)
+              : [...services, service]
+          });
+        },
+
+        // Fetch the providers of the titles that aren't cached yet (or are out of date)
+        loadAvailability: async (items) => {
+          if (get().isLoading) return;
+
+          const { region } = get();
+          const missing = items.filter(media => isStale(get().availability[getMediaKey(media)], region));
+          if (missing.length === 0) return;
+
+          console.log(`Loading streaming availability for ${missing.length} titles`);
+          set({ isLoading: true });
+
+          const loaded: Record<string, StreamingInfo> = {};
+          // The TMDb scheduler caps how many of these run at once
+          await Promise.all(missing.map(async media => {
+            try {
+              const providers = await getWatchProviders(media.media_type, media.id);
+              loaded[getMediaKey(media)] = {
+                fetchedAt: Date.now(),
+                region,
+                providerIds: getStreamingProviders(providers[region]).map(provider => provider.provider_id)
+              };
+            } catch (error) {
+              console.error(`Failed to load providers for ${media.media_type} ${media.id}:`, error);
+            }
+          }));
+
+          // Drop the results if the region changed while they were loading
+          set(state => ({
+            availability: state.region === region ? { ...state.availability, ...loaded } : state.availability,
+            isLoading: false
+          }));
+        },
+
+        // Load the signed-in user's settings (set on any device)
+        syncSettings: async () => {
+          const session = await getCurrentSession();
+          if (!session?.user) return false;
+
+          try {
+            const settings = await fetchStreamingSettings(session.user.id);
+            set(state => settings.region === state.region ? settings : { ...settings, availability: {} });
+            return true;
+          } catch (error) {
+            // Keep the local copy when the fetch fails
+            console.error('Failed to sync streaming settings:', error);
+            return false;
+          }
+        },
+
+        // Reset store completely (for logout/account switching)
+        resetStore: () => {
+          set({
+            region: DEFAULT_STREAMING_SETTINGS.region,
+            services: [],
+            availability: {},
+            isLoading: false
+          });
+        }
+      };
+    },
+    {
+      name: 'streaming-storage',
+      // A load interrupted by a reload must not block the next one
+      partialize: (state) => ({
+        region: state.region,
+        services: state.services,
+        availability: state.availability
+      })
+    }
+  )
+);
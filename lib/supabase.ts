@@ -1,8 +1,13 @@
 import 'react-native-url-polyfill/auto';
 import { createClient } from '@supabase/supabase-js';
 import * as SecureStore from 'expo-secure-store';
+import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import * as constants from '../constants';
+import { Media, MediaRef, MediaType, fromStoredMedia, getMediaKey } from './media';
+import type { EpisodeProgress } from './episodeProgress';
+import type { WatchEvent } from './watchHistory';
+import { WATCHLIST_SLUG } from './sharing';
 
 // Simple storage adapter for auth tokens
 const AuthStorage = {
@@ -229,11 +234,23 @@ export async function logout(): Promise<void> {
     // Clear tokens
     await clearAuthTokens();
     
+    // Reminders are for the signed-out user's library
+    if (Platform.OS !== 'web') {
+      await Notifications.cancelAllScheduledNotificationsAsync().catch(error =>
+        console.error('Failed to cancel reminders:', error)
+      );
+    }
+    
     // Clear Zustand persisted state
     if (Platform.OS === 'web') {
       try {
-        localStorage.removeItem('watchlist-storage');
-        localStorage.removeItem('watched-storage');
+        localStorage.removeItem('library-storage');
+        localStorage.removeItem('lists-storage');
+        localStorage.removeItem('profile-storage');
+        localStorage.removeItem('social-storage');
+        localStorage.removeItem('streaming-storage');
+        localStorage.removeItem('notification-storage');
+        localStorage.removeItem('calendar-storage');
         
         // Clear search state data
         localStorage.removeItem('search_query');
@@ -397,8 +414,177 @@ export async function fetchWithRetry(
   throw lastError;
 }
 
-// Fetch user items (watchlist or watched)
-export async function fetchUserItems(userId: string, type: 'watchlist' | 'watched') {
+// Every title in the library is a single 'library' row; where it stands is its status
+export const USER_ITEM_TYPE = 'library';
+
+export type LibraryStatus = 'planned' | 'watching' | 'watched' | 'dropped' | 'on_hold';
+
+export const LIBRARY_STATUSES: LibraryStatus[] = ['planned', 'watching', 'watched', 'dropped', 'on_hold'];
+
+export function isLibraryStatus(value: unknown): value is LibraryStatus {
+  return LIBRARY_STATUSES.includes(value as LibraryStatus);
+}
+
+// Row key for a title in user_items, e.g. "library_tv_1399".
+// Keys include the media type because movies and TV shows can share a TMDb id.
+export function getUserItemKey(media: MediaRef): string {
+  return `${USER_ITEM_TYPE}_${getMediaKey(media)}`;
+}
+
+// User data stored next to a title in its own user_items columns
+export interface UserItemFields {
+  status?: LibraryStatus;
+  rating?: number; // 0.5 to 10, in steps of 0.5
+  review?: string;
+  watched_date?: string;
+  position?: number;
+  notes?: string;
+  // TV shows only: watched episodes by season
+  progress?: EpisodeProgress;
+  // Every viewing, oldest first (rating and watched_date mirror the latest one)
+  watch_events?: WatchEvent[];
+}
+
+export type UserItem = Media & UserItemFields;
+
+// A user_items row (schema in supabase/migrations)
+export interface UserItemRow {
+  id?: number;
+  user_id: string;
+  item_key: string;
+  type: typeof USER_ITEM_TYPE;
+  status: LibraryStatus;
+  tmdb_id: number;
+  media_type: MediaType;
+  title: string;
+  poster_path: string | null;
+  rating: number | null;
+  review: string | null;
+  watched_at: string | null;
+  position: number | null;
+  notes: string | null;
+  progress: EpisodeProgress | null;
+  watch_events: WatchEvent[] | null;
+  // Remaining TMDb fields (genres, overview, vote average...)
+  metadata: Record<string, any>;
+  // JSON copy of the item, only present on rows written by older clients
+  value?: string | null;
+  // Set when the item was removed; the row is kept so the delete reaches other devices
+  deleted_at?: string | null;
+  updated_at: string;
+}
+
+// Rows changed since a sync cursor
+export interface UserItemChanges<T extends Media = Media> {
+  items: T[];
+  deleted: MediaRef[];
+  // updated_at of the newest row seen, pass it back in for the next incremental fetch
+  cursor: string | null;
+}
+
+// Build the row to write for an item
+export function toUserItemRow(userId: string, item: UserItem): UserItemRow {
+  const { id, media_type, title, poster_path, status = 'planned', rating, review, watched_date, position, notes, progress, watch_events, ...metadata } = item;
+  const now = new Date().toISOString();
+
+  return {
+    user_id: userId,
+    item_key: getUserItemKey(item),
+    type: USER_ITEM_TYPE,
+    status,
+    tmdb_id: id,
+    media_type,
+    title,
+    poster_path,
+    rating: rating ?? null,
+    review: review || null,
+    watched_at: watched_date || (status === 'watched' ? now : null),
+    position: position ?? null,
+    notes: notes ?? null,
+    progress: progress ?? null,
+    watch_events: watch_events && watch_events.length > 0 ? watch_events : null,
+    metadata,
+    deleted_at: null,
+    updated_at: now
+  };
+}
+
+// Read an item back from its row
+function fromUserItemRow<T extends Media = Media>(row: UserItemRow): T | null {
+  // Rows that were never backfilled only have the JSON value
+  if (row.tmdb_id == null) {
+    return row.value ? fromStoredMedia<T>(JSON.parse(row.value)) : null;
+  }
+
+  return fromStoredMedia<T>({
+    ...row.metadata,
+    id: row.tmdb_id,
+    media_type: row.media_type,
+    title: row.title,
+    poster_path: row.poster_path,
+    status: isLibraryStatus(row.status) ? row.status : 'planned',
+    rating: row.rating ?? undefined,
+    review: row.review ?? undefined,
+    watched_date: row.watched_at ?? undefined,
+    position: row.position ?? undefined,
+    notes: row.notes ?? undefined,
+    progress: row.progress ?? undefined,
+    watch_events: row.watch_events ?? undefined
+  });
+}
+
+// Move a row saved before keys included the media type ("library_1399") to its composite key
+async function migrateLegacyRow(userId: string, row: UserItemRow, item: Media) {
+  try {
+    // Rekey the row in place: a title has a single row (unique on user, media type and id),
+    // so there is nothing to merge and no delete that realtime listeners could mistake for a removal
+    const { error } = await supabase
+      .from('user_items')
+      .update({ item_key: getUserItemKey(item) })
+      .match({ id: row.id, user_id: userId });
+
+    if (error) throw error;
+
+    console.log(`Migrated ${row.item_key} to ${getUserItemKey(item)}`);
+  } catch (error) {
+    // The row keeps working under its old key, migration is retried on the next fetch
+    console.error(`Failed to migrate ${row.item_key}:`, error);
+  }
+}
+
+// Parse user_items rows into the Media model, migrating legacy keys in the background
+export function parseUserItemRows<T extends Media = Media>(
+  userId: string,
+  rows: UserItemRow[]
+): T[] {
+  const items: T[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach(row => {
+    let item: T | null = null;
+    try {
+      item = fromUserItemRow<T>(row);
+    } catch (e) {
+      console.error('Error parsing item data:', e);
+    }
+
+    // Rows without a position are ordered newest first, so a legacy duplicate of a migrated row is skipped
+    if (!item || seen.has(getMediaKey(item))) return;
+    seen.add(getMediaKey(item));
+    items.push(item);
+
+    if (row.item_key !== getUserItemKey(item)) {
+      migrateLegacyRow(userId, row, item);
+    }
+  });
+
+  return items;
+}
+
+// Fetch every title in the user's library
+export async function fetchUserItems<T extends Media = Media>(
+  userId: string
+): Promise<T[]> {
   if (!userId) return [];
   
   try {
@@ -414,7 +600,9 @@ export async function fetchUserItems(userId: string, type: 'watchlist' | 'watche
       .from('user_items')
       .select('*')
       .eq('user_id', userId)
-      .eq('type', type)
+      .eq('type', USER_ITEM_TYPE)
+      .is('deleted_at', null)
+      .order('position', { ascending: true, nullsFirst: false })
       .order('updated_at', { ascending: false });
     
     // Set authorization header for the request
@@ -422,25 +610,72 @@ export async function fetchUserItems(userId: string, type: 'watchlist' | 'watche
     
     const data = await fetchWithRetry('user_items', query);
     
-    // Parse the items from JSON
-    return data.map((row: any) => {
-      try {
-        return JSON.parse(row.value);
-      } catch (e) {
-        return null;
-      }
-    }).filter(Boolean);
+    // Map the rows into the Media model
+    return parseUserItemRows<T>(userId, data);
   } catch (error) {
-    console.error(`Failed to fetch ${type} items`);
-    return [];
+    // Rethrow so callers keep their local copy instead of treating a failed fetch as an empty list
+    console.error('Failed to fetch library items');
+    throw error;
+  }
+}
+
+// Fetch rows changed since a cursor (all live rows when there is no cursor yet)
+export async function fetchUserItemChanges<T extends Media = Media>(
+  userId: string,
+  since: string | null
+): Promise<UserItemChanges<T>> {
+  if (!userId) return { items: [], deleted: [], cursor: since };
+  
+  // Get current session to ensure we have a valid access token
+  const session = await getCurrentSession();
+  if (!session) {
+    throw new Error('No valid session found for data fetch');
   }
+  
+  let query = supabase
+    .from('user_items')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('type', USER_ITEM_TYPE);
+  
+  // gte rather than gt: rows written in the same instant as the cursor are fetched again,
+  // which is harmless because applying a change twice gives the same result
+  query = since ? query.gte('updated_at', since) : query.is('deleted_at', null);
+  
+  // Set authorization header for the request
+  supabase.auth.setSession(session);
+  
+  const rows: UserItemRow[] = await fetchWithRetry('user_items', query.order('updated_at', { ascending: true }));
+  
+  return toUserItemChanges<T>(userId, rows, since);
 }
 
-// Save item to user collection (watchlist or watched)
+// Split changed rows into live items and deletes (tombstones), and advance the cursor
+export function toUserItemChanges<T extends Media = Media>(
+  userId: string,
+  rows: UserItemRow[],
+  since: string | null
+): UserItemChanges<T> {
+  const liveRows = rows.filter(row => !row.deleted_at);
+  const deleted = rows
+    .filter(row => row.deleted_at && row.tmdb_id != null)
+    .map(row => ({ id: row.tmdb_id, media_type: row.media_type }));
+  const cursor = rows.reduce<string | null>(
+    (latest, row) => !latest || row.updated_at > latest ? row.updated_at : latest,
+    since
+  );
+  
+  return {
+    items: parseUserItemRows<T>(userId, liveRows),
+    deleted,
+    cursor
+  };
+}
+
+// Save a library item (its status decides where it shows up)
 export async function saveUserItem(
   userId: string, 
-  item: any, 
-  type: 'watchlist' | 'watched'
+  item: UserItem
 ) {
   if (!userId) return false;
   
@@ -457,26 +692,22 @@ export async function saveUserItem(
     
     const { error } = await supabase
       .from('user_items')
-      .upsert({
-        user_id: userId,
-        item_key: `${type}_${item.id}`,
-        value: JSON.stringify(item),
-        type,
-        updated_at: new Date().toISOString()
-      });
+      .upsert(toUserItemRow(userId, item), { onConflict: 'user_id,item_key' });
     
+    if (error) {
+      console.error('Failed to save library item:', error);
+    }
     return !error;
   } catch (error) {
-    console.error(`Failed to save ${type} item`);
+    console.error('Failed to save library item:', error);
     return false;
   }
 }
 
-// Remove item from user collection
+// Remove item from the library
 export async function removeUserItem(
   userId: string, 
-  itemId: number, 
-  type: 'watchlist' | 'watched'
+  media: MediaRef
 ) {
   if (!userId) return false;
   
@@ -491,18 +722,1333 @@ export async function removeUserItem(
     // Set authorization header for the request
     supabase.auth.setSession(session);
     
+    // Soft delete: other devices pick up the tombstone on their next incremental sync
+    const deletedAt = new Date().toISOString();
     const { error } = await supabase
       .from('user_items')
-      .delete()
+      .update({ deleted_at: deletedAt, updated_at: deletedAt })
       .match({ 
         user_id: userId,
-        item_key: `${type}_${itemId}`,
-        type
+        type: USER_ITEM_TYPE,
+        media_type: media.media_type,
+        tmdb_id: media.id
+      });
+    
+    if (error) {
+      console.error('Failed to remove library item:', error);
+    }
+    return !error;
+  } catch (error) {
+    console.error('Failed to remove library item:', error);
+    return false;
+  }
+}
+
+// Save new manual positions for library items
+export async function updateUserItemPositions(
+  userId: string,
+  updates: { media: MediaRef; position: number }[]
+) {
+  if (!userId) return false;
+  if (updates.length === 0) return true;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for position update');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const updatedAt = new Date().toISOString();
+    const results = await Promise.all(updates.map(({ media, position }) =>
+      supabase
+        .from('user_items')
+        .update({ position, updated_at: updatedAt })
+        .match({
+          user_id: userId,
+          type: USER_ITEM_TYPE,
+          media_type: media.media_type,
+          tmdb_id: media.id
+        })
+    ));
+    
+    return results.every(result => !result.error);
+  } catch (error) {
+    console.error('Failed to update library positions:', error);
+    return false;
+  }
+}
+
+// A custom list made by the user (schema in supabase/migrations)
+export interface UserListRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  cover_path: string | null;
+  is_public: boolean;
+  slug: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A title in a custom list
+export interface UserListItemRow {
+  id?: number;
+  list_id: string;
+  user_id: string;
+  tmdb_id: number;
+  media_type: MediaType;
+  title: string;
+  poster_path: string | null;
+  metadata: Record<string, any>;
+  position: number | null;
+  added_at: string;
+  updated_at: string;
+}
+
+export type ListItem = Media & {
+  position?: number;
+  added_at?: string;
+  // Member who added the title (user_id of its row)
+  added_by?: string;
+};
+
+export type ListRole = 'owner' | 'editor';
+
+// A user who can edit a list
+export interface ListMember {
+  user_id: string;
+  role: ListRole;
+  email?: string;
+}
+
+interface ListMemberRow {
+  list_id: string;
+  user_id: string;
+  role: ListRole;
+  email: string | null;
+}
+
+// An invitation to join a list, sent to the email of an existing account
+export interface ListInvitation {
+  id: string;
+  list_id: string;
+  list_name: string;
+  email: string;
+  role: ListRole;
+  invited_by_email?: string;
+  created_at: string;
+}
+
+export interface UserList {
+  id: string;
+  name: string;
+  description?: string;
+  cover_path?: string;
+  // Readable by anyone at its share URL (lib/sharing.ts)
+  is_public?: boolean;
+  slug?: string;
+  created_at: string;
+  updated_at: string;
+  // In list order
+  items: ListItem[];
+  // Everyone who can edit the list, the owner included
+  members?: ListMember[];
+  // Role of the signed-in user
+  role?: ListRole;
+  // Sent and not answered yet (only loaded for the owner)
+  invitations?: ListInvitation[];
+}
+
+// Name, description and cover, the fields the user edits directly
+export type UserListFields = Pick<UserList, 'name' | 'description' | 'cover_path'>;
+
+export function toListItemRow(userId: string, listId: string, item: ListItem): UserListItemRow {
+  const { id, media_type, title, poster_path, position, added_at, added_by, ...metadata } = item;
+  const now = new Date().toISOString();
+
+  return {
+    list_id: listId,
+    user_id: added_by || userId,
+    tmdb_id: id,
+    media_type,
+    title,
+    poster_path,
+    metadata,
+    position: position ?? null,
+    added_at: added_at || now,
+    updated_at: now
+  };
+}
+
+function fromListItemRow(row: UserListItemRow): ListItem | null {
+  const media = fromStoredMedia({
+    ...row.metadata,
+    id: row.tmdb_id,
+    media_type: row.media_type,
+    title: row.title,
+    poster_path: row.poster_path
+  });
+
+  return media
+    ? { ...media, position: row.position ?? undefined, added_at: row.added_at, added_by: row.user_id }
+    : null;
+}
+
+function fromListInvitationRow(row: ListInvitation & { invited_by_email: string | null }): ListInvitation {
+  return { ...row, invited_by_email: row.invited_by_email ?? undefined };
+}
+
+export function fromUserListRow(
+  row: UserListRow,
+  itemRows: UserListItemRow[],
+  memberRows: ListMemberRow[] = [],
+  userId?: string
+): UserList {
+  const members = memberRows.map(member => ({
+    user_id: member.user_id,
+    role: member.role,
+    email: member.email ?? undefined
+  }));
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    cover_path: row.cover_path ?? undefined,
+    is_public: row.is_public ?? false,
+    slug: row.slug ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    items: itemRows
+      .map(fromListItemRow)
+      .filter((item): item is ListItem => item !== null),
+    members,
+    role: members.find(member => member.user_id === userId)?.role
+      ?? (row.user_id === userId ? 'owner' : undefined)
+  };
+}
+
+// Fetch every list the user is a member of (their own and shared ones) with its titles
+export async function fetchUserLists(userId: string): Promise<UserList[]> {
+  if (!userId) return [];
+  
+  // Get current session to ensure we have a valid access token
+  const session = await getCurrentSession();
+  if (!session) {
+    throw new Error('No valid session found for list fetch');
+  }
+  
+  // Set authorization header for the request
+  supabase.auth.setSession(session);
+  
+  const memberships: ListMemberRow[] = await fetchWithRetry('user_list_members', supabase
+    .from('user_list_members')
+    .select('*')
+    .eq('user_id', userId));
+  
+  const listIds = memberships.map(membership => membership.list_id);
+  if (listIds.length === 0) return [];
+  
+  const [lists, items, members, invitations]: [
+    UserListRow[],
+    UserListItemRow[],
+    ListMemberRow[],
+    (ListInvitation & { invited_by_email: string | null })[]
+  ] = await Promise.all([
+    fetchWithRetry('user_lists', supabase
+      .from('user_lists')
+      .select('*')
+      .in('id', listIds)
+      .order('created_at', { ascending: false })),
+    fetchWithRetry('user_list_items', supabase
+      .from('user_list_items')
+      .select('*')
+      .in('list_id', listIds)
+      .order('position', { ascending: true, nullsFirst: false })
+      .order('added_at', { ascending: false })),
+    fetchWithRetry('user_list_members', supabase
+      .from('user_list_members')
+      .select('*')
+      .in('list_id', listIds)
+      .order('created_at', { ascending: true })),
+    // Row level security only returns invitations of lists the user owns
+    fetchWithRetry('user_list_invitations', supabase
+      .from('user_list_invitations')
+      .select('*')
+      .in('list_id', listIds)
+      .order('created_at', { ascending: true }))
+  ]);
+  
+  return lists.map(list => ({
+    ...fromUserListRow(
+      list,
+      items.filter(item => item.list_id === list.id),
+      members.filter(member => member.list_id === list.id),
+      userId
+    ),
+    invitations: invitations
+      .filter(invitation => invitation.list_id === list.id)
+      .map(fromListInvitationRow)
+  }));
+}
+
+// Create a list, returning it with its server-generated id
+export async function createUserList(userId: string, fields: UserListFields): Promise<UserList | null> {
+  if (!userId) return null;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list creation');
+      return null;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { data, error } = await supabase
+      .from('user_lists')
+      .insert({
+        user_id: userId,
+        name: fields.name.trim(),
+        description: fields.description?.trim() || null,
+        cover_path: fields.cover_path || null
+      })
+      .select()
+      .single();
+    
+    if (error || !data) throw error;
+    
+    // The owner membership is added by a database trigger
+    return fromUserListRow(
+      data as UserListRow,
+      [],
+      [{ list_id: data.id, user_id: userId, role: 'owner', email: session.user.email ?? null }],
+      userId
+    );
+  } catch (error) {
+    console.error('Failed to create list:', error);
+    return null;
+  }
+}
+
+// Save the name, description and cover of a list
+export async function updateUserList(userId: string, listId: string, fields: Partial<UserListFields>) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list update');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const changes: Partial<UserListRow> = { updated_at: new Date().toISOString() };
+    if (fields.name !== undefined) changes.name = fields.name.trim();
+    if ('description' in fields) changes.description = fields.description?.trim() || null;
+    if ('cover_path' in fields) changes.cover_path = fields.cover_path || null;
+    
+    const { error } = await supabase
+      .from('user_lists')
+      .update(changes)
+      .match({ id: listId, user_id: userId });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to update list:', error);
+    return false;
+  }
+}
+
+// Delete a list; its titles go with it
+export async function deleteUserList(userId: string, listId: string) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list removal');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_lists')
+      .delete()
+      .match({ id: listId, user_id: userId });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to delete list:', error);
+    return false;
+  }
+}
+
+// Add a title to a list (or save its new position)
+export async function saveListItem(userId: string, listId: string, item: ListItem) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list item save');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_list_items')
+      .upsert(toListItemRow(userId, listId, item), { onConflict: 'list_id,media_type,tmdb_id' });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to save list item:', error);
+    return false;
+  }
+}
+
+// Remove a title from a list (whoever added it; row level security checks membership)
+export async function removeListItem(userId: string, listId: string, media: MediaRef) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list item removal');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_list_items')
+      .delete()
+      .match({
+        list_id: listId,
+        media_type: media.media_type,
+        tmdb_id: media.id
       });
     
     return !error;
   } catch (error) {
-    console.error(`Failed to remove ${type} item`);
+    console.error('Failed to remove list item:', error);
+    return false;
+  }
+}
+
+// Save new manual positions for titles in a list
+export async function updateListItemPositions(
+  userId: string,
+  listId: string,
+  updates: { media: MediaRef; position: number }[]
+) {
+  if (!userId) return false;
+  if (updates.length === 0) return true;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list position update');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const updatedAt = new Date().toISOString();
+    const results = await Promise.all(updates.map(({ media, position }) =>
+      supabase
+        .from('user_list_items')
+        .update({ position, updated_at: updatedAt })
+        .match({
+          list_id: listId,
+          media_type: media.media_type,
+          tmdb_id: media.id
+        })
+    ));
+    
+    return results.every(result => !result.error);
+  } catch (error) {
+    console.error('Failed to update list positions:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+// Publish or unpublish a list; the slug is kept when it is unpublished
+export async function setUserListSharing(userId: string, listId: string, isPublic: boolean, slug: string) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list sharing');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_lists')
+      .update({ is_public: isPublic, slug, updated_at: new Date().toISOString() })
+      .match({ id: listId, user_id: userId });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to update list sharing:', error);
+    return false;
+  }
+}
+
+// Public profile of a user, needed to share anything (schema in supabase/migrations)
+export interface UserProfile {
+  user_id: string;
+  handle: string;
+  display_name?: string;
+  watchlist_public: boolean;
+  // Who sees what the user adds, watches and rates
+  activity_visibility: ActivityVisibility;
+  // Follows stay pending until the user accepts them
+  requires_follow_approval: boolean;
+}
+
+export type ActivityVisibility = 'everyone' | 'followers' | 'nobody';
+
+export type UserProfileFields = Partial<Pick<
+  UserProfile,
+  'handle' | 'display_name' | 'watchlist_public' | 'activity_visibility' | 'requires_follow_approval'
+>>;
+
+interface UserProfileRow {
+  user_id: string;
+  handle: string;
+  display_name: string | null;
+  watchlist_public: boolean;
+  activity_visibility: ActivityVisibility;
+  requires_follow_approval: boolean;
+}
+
+function fromUserProfileRow(row: UserProfileRow): UserProfile {
+  return {
+    user_id: row.user_id,
+    handle: row.handle,
+    display_name: row.display_name ?? undefined,
+    watchlist_public: row.watchlist_public,
+    activity_visibility: row.activity_visibility ?? 'followers',
+    requires_follow_approval: row.requires_follow_approval ?? false
+  };
+}
+
+// Fetch the profile of the user, null when they haven't picked a handle yet
+export async function fetchUserProfile(userId: string): Promise<UserProfile | null> {
+  if (!userId) return null;
+  
+  const data = await fetchWithRetry('user_profiles', supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle());
+  
+  return data ? fromUserProfileRow(data as UserProfileRow) : null;
+}
+
+// Create or update the profile of the user. A new profile needs a handle.
+export async function saveUserProfile(
+  userId: string,
+  fields: UserProfileFields
+): Promise<{ profile: UserProfile | null; error?: string }> {
+  if (!userId) return { profile: null, error: 'Not signed in' };
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for profile save');
+      return { profile: null, error: 'Not signed in' };
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const changes: Partial<UserProfileRow> & { updated_at: string } = { updated_at: new Date().toISOString() };
+    if (fields.handle !== undefined) changes.handle = fields.handle;
+    if ('display_name' in fields) changes.display_name = fields.display_name?.trim() || null;
+    if (fields.watchlist_public !== undefined) changes.watchlist_public = fields.watchlist_public;
+    if (fields.activity_visibility !== undefined) changes.activity_visibility = fields.activity_visibility;
+    if (fields.requires_follow_approval !== undefined) changes.requires_follow_approval = fields.requires_follow_approval;
+    
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .upsert({ user_id: userId, ...changes }, { onConflict: 'user_id' })
+      .select()
+      .single();
+    
+    // Unique violation on the handle index
+    if (error?.code === '23505') {
+      return { profile: null, error: 'That handle is already taken' };
+    }
+    if (error || !data) throw error;
+    
+    return { profile: fromUserProfileRow(data as UserProfileRow) };
+  } catch (error) {
+    console.error('Failed to save profile:', error);
+    return { profile: null, error: 'Failed to save profile' };
+  }
+}
+
+// A shared list as seen by visitors
+export interface PublicList {
+  handle: string;
+  display_name?: string;
+  name: string;
+  description?: string;
+  cover_path?: string;
+  items: Media[];
+}
+
+// A planned title as others see it (get_public_watchlist, get_group_watchlists): the TMDb
+// fields of a user_items row, without the owner's own data
+export interface WatchlistTitleRow {
+  user_id?: string;
+  tmdb_id: number;
+  media_type: MediaType;
+  title: string;
+  poster_path: string | null;
+  metadata: Record<string, any>;
+  position: number | null;
+}
+
+function fromWatchlistTitleRow(row: WatchlistTitleRow): Media | null {
+  return fromStoredMedia({
+    ...row.metadata,
+    id: row.tmdb_id,
+    media_type: row.media_type,
+    title: row.title,
+    poster_path: row.poster_path,
+    position: row.position ?? undefined
+  });
+}
+
+// Fetch a shared list (or watchlist) by its owner's handle and its slug.
+// Works without a session: row level security only lets shared lists through.
+export async function fetchPublicList(handle: string, slug: string): Promise<PublicList | null> {
+  const profileRow: UserProfileRow | null = await fetchWithRetry('user_profiles', supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('handle', handle.toLowerCase())
+    .maybeSingle());
+  
+  if (!profileRow) return null;
+  const owner = fromUserProfileRow(profileRow);
+  
+  if (slug === WATCHLIST_SLUG) {
+    if (!owner.watchlist_public) return null;
+    
+    // Only the public columns, the rows themselves stay private
+    const rows: WatchlistTitleRow[] = await fetchWithRetry('user_items', supabase
+      .rpc('get_public_watchlist', { p_user_id: owner.user_id }));
+    
+    return {
+      handle: owner.handle,
+      display_name: owner.display_name,
+      name: 'Watchlist',
+      items: rows
+        .map(fromWatchlistTitleRow)
+        .filter((item): item is Media => item !== null)
+    };
+  }
+  
+  const listRow: UserListRow | null = await fetchWithRetry('user_lists', supabase
+    .from('user_lists')
+    .select('*')
+    .eq('user_id', owner.user_id)
+    .eq('slug', slug)
+    .eq('is_public', true)
+    .maybeSingle());
+  
+  if (!listRow) return null;
+  
+  const itemRows: UserListItemRow[] = await fetchWithRetry('user_list_items', supabase
+    .from('user_list_items')
+    .select('*')
+    .eq('list_id', listRow.id)
+    .order('position', { ascending: true, nullsFirst: false })
+    .order('added_at', { ascending: false }));
+  
+  const list = fromUserListRow(listRow, itemRows);
+  return {
+    handle: owner.handle,
+    display_name: owner.display_name,
+    name: list.name,
+    description: list.description,
+    cover_path: list.cover_path,
+    items: list.items
+  };
+}
+
+// Invite the account with this email to a list; the owner sends invitations
+export async function inviteListMember(
+  listId: string,
+  email: string
+): Promise<{ invitation: ListInvitation | null; error?: string }> {
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for list invitation');
+      return { invitation: null, error: 'Not signed in' };
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { data, error } = await supabase.rpc('invite_to_list', { p_list_id: listId, p_email: email });
+    
+    // The function raises readable messages (unknown email, already a member...)
+    if (error) return { invitation: null, error: error.message };
+    return { invitation: fromListInvitationRow(data) };
+  } catch (error) {
+    console.error('Failed to invite list member:', error);
+    return { invitation: null, error: 'Failed to send invitation' };
+  }
+}
+
+// Fetch the invitations sent to the signed-in user
+export async function fetchReceivedInvitations(email: string): Promise<ListInvitation[]> {
+  if (!email) return [];
+  
+  const rows = await fetchWithRetry('user_list_invitations', supabase
+    .from('user_list_invitations')
+    .select('*')
+    .eq('email', email.toLowerCase())
+    .order('created_at', { ascending: false }));
+  
+  return rows.map(fromListInvitationRow);
+}
+
+// Join a list through an invitation
+export async function acceptListInvitation(invitationId: string) {
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for invitation');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase.rpc('accept_list_invitation', { p_invitation_id: invitationId });
+    return !error;
+  } catch (error) {
+    console.error('Failed to accept invitation:', error);
+    return false;
+  }
+}
+
+// Decline a received invitation or cancel a sent one
+export async function deleteListInvitation(invitationId: string) {
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for invitation removal');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_list_invitations')
+      .delete()
+      .eq('id', invitationId);
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to delete invitation:', error);
+    return false;
+  }
+}
+
+// Remove an editor from a list (or leave it, when it is the signed-in user)
+export async function removeListMember(listId: string, memberId: string) {
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for member removal');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_list_members')
+      .delete()
+      .match({ list_id: listId, user_id: memberId });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to remove list member:', error);
+    return false;
+  }
+}
+
+// Someone the user follows or who follows the user
+export interface Follow {
+  user_id: string;
+  handle?: string;
+  display_name?: string;
+  status: 'pending' | 'accepted';
+  created_at: string;
+}
+
+interface UserFollowRow {
+  follower_id: string;
+  followee_id: string;
+  status: 'pending' | 'accepted';
+  created_at: string;
+}
+
+export type ActivityType = 'added' | 'watched' | 'rated';
+
+// Something a user did with a title, shown in their followers' feeds
+export interface ActivityEvent {
+  id: number;
+  user_id: string;
+  type: ActivityType;
+  media: MediaRef & { title: string; poster_path: string | null };
+  rating?: number;
+  created_at: string;
+  // Filled in from user_profiles
+  handle?: string;
+}
+
+interface UserActivityRow {
+  id: number;
+  user_id: string;
+  type: ActivityType;
+  tmdb_id: number;
+  media_type: MediaType;
+  title: string;
+  poster_path: string | null;
+  rating: number | null;
+  created_at: string;
+}
+
+// Fetch the profiles of some users, by user id
+async function fetchProfilesById(userIds: string[]): Promise<Record<string, UserProfile>> {
+  if (userIds.length === 0) return {};
+  
+  const rows: UserProfileRow[] = await fetchWithRetry('user_profiles', supabase
+    .from('user_profiles')
+    .select('*')
+    .in('user_id', userIds));
+  
+  return Object.fromEntries(rows.map(row => [row.user_id, fromUserProfileRow(row)]));
+}
+
+// Find users by the start of their handle
+export async function searchProfiles(query: string): Promise<UserProfile[]> {
+  const prefix = query.trim().toLowerCase().replace(/^@/, '').replace(/[^a-z0-9_]/g, '');
+  if (!prefix) return [];
+  
+  const rows: UserProfileRow[] = await fetchWithRetry('user_profiles', supabase
+    .from('user_profiles')
+    .select('*')
+    .like('handle', `${prefix}%`)
+    .order('handle', { ascending: true })
+    .limit(20));
+  
+  return rows.map(fromUserProfileRow);
+}
+
+// Fetch who the user follows and who follows them (pending requests included)
+export async function fetchFollows(userId: string): Promise<{ following: Follow[]; followers: Follow[] }> {
+  if (!userId) return { following: [], followers: [] };
+  
+  // Get current session to ensure we have a valid access token
+  const session = await getCurrentSession();
+  if (!session) {
+    throw new Error('No valid session found for follows fetch');
+  }
+  
+  // Set authorization header for the request
+  supabase.auth.setSession(session);
+  
+  const [followingRows, followerRows]: [UserFollowRow[], UserFollowRow[]] = await Promise.all([
+    fetchWithRetry('user_follows', supabase
+      .from('user_follows')
+      .select('*')
+      .eq('follower_id', userId)
+      .order('created_at', { ascending: false })),
+    fetchWithRetry('user_follows', supabase
+      .from('user_follows')
+      .select('*')
+      .eq('followee_id', userId)
+      .order('created_at', { ascending: false }))
+  ]);
+  
+  const profiles = await fetchProfilesById([
+    ...followingRows.map(row => row.followee_id),
+    ...followerRows.map(row => row.follower_id)
+  ]);
+  
+  const toFollow = (otherId: string, row: UserFollowRow): Follow => ({
+    user_id: otherId,
+    handle: profiles[otherId]?.handle,
+    display_name: profiles[otherId]?.display_name,
+    status: row.status,
+    created_at: row.created_at
+  });
+  
+  return {
+    following: followingRows.map(row => toFollow(row.followee_id, row)),
+    followers: followerRows.map(row => toFollow(row.follower_id, row))
+  };
+}
+
+// Follow a user; returns the status the follow got, or null when it failed
+export async function followUser(userId: string, followeeId: string): Promise<Follow['status'] | null> {
+  if (!userId) return null;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for follow');
+      return null;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    // The status is set by a trigger from the followee's settings
+    const { data, error } = await supabase
+      .from('user_follows')
+      .insert({ follower_id: userId, followee_id: followeeId })
+      .select()
+      .single();
+    
+    if (error || !data) throw error;
+    return (data as UserFollowRow).status;
+  } catch (error) {
+    console.error('Failed to follow user:', error);
+    return null;
+  }
+}
+
+// End a follow: unfollow someone, or decline/remove one of the user's followers
+export async function deleteFollow(followerId: string, followeeId: string) {
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for unfollow');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_follows')
+      .delete()
+      .match({ follower_id: followerId, followee_id: followeeId });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to remove follow:', error);
+    return false;
+  }
+}
+
+// Accept a pending follow request
+export async function acceptFollower(userId: string, followerId: string) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for follow approval');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_follows')
+      .update({ status: 'accepted' })
+      .match({ follower_id: followerId, followee_id: userId });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to accept follower:', error);
+    return false;
+  }
+}
+
+// Log something the user did for their followers' feeds
+export async function saveActivity(
+  userId: string,
+  type: ActivityType,
+  media: Media,
+  rating?: number
+) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for activity');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_activity')
+      .insert({
+        user_id: userId,
+        type,
+        tmdb_id: media.id,
+        media_type: media.media_type,
+        title: media.title,
+        poster_path: media.poster_path,
+        rating: rating ?? null
+      });
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to save activity:', error);
+    return false;
+  }
+}
+
+// Fetch the latest activity of some users, newest first. Row level security drops
+// the events of users whose privacy settings hide them.
+export async function fetchActivity(userIds: string[], limit = 50): Promise<ActivityEvent[]> {
+  if (userIds.length === 0) return [];
+  
+  // Get current session to ensure we have a valid access token
+  const session = await getCurrentSession();
+  if (!session) {
+    throw new Error('No valid session found for activity fetch');
+  }
+  
+  // Set authorization header for the request
+  supabase.auth.setSession(session);
+  
+  const rows: UserActivityRow[] = await fetchWithRetry('user_activity', supabase
+    .from('user_activity')
+    .select('*')
+    .in('user_id', userIds)
+    .order('created_at', { ascending: false })
+    .limit(limit));
+  
+  const profiles = await fetchProfilesById([...new Set(rows.map(row => row.user_id))]);
+  
+  return rows.map(row => ({
+    id: row.id,
+    user_id: row.user_id,
+    type: row.type,
+    media: {
+      id: row.tmdb_id,
+      media_type: row.media_type,
+      title: row.title,
+      poster_path: row.poster_path
+    },
+    rating: row.rating ?? undefined,
+    created_at: row.created_at,
+    handle: profiles[row.user_id]?.handle
+  }));
+}
+
+// Fetch the watchlists (planned titles) of a watch group, by user id. The server only returns
+// the public columns of the watchlists of people the user shares a list with or follows mutually.
+export async function fetchGroupWatchlists(userIds: string[]): Promise<Record<string, Media[]>> {
+  if (userIds.length === 0) return {};
+  
+  // Get current session to ensure we have a valid access token
+  const session = await getCurrentSession();
+  if (!session) {
+    throw new Error('No valid session found for watchlist fetch');
+  }
+  
+  // Set authorization header for the request
+  supabase.auth.setSession(session);
+  
+  const rows: WatchlistTitleRow[] = await fetchWithRetry('user_items', supabase
+    .rpc('get_group_watchlists', { p_user_ids: userIds }));
+  
+  const watchlists: Record<string, Media[]> = Object.fromEntries(userIds.map(userId => [userId, []]));
+  rows.forEach(row => {
+    const item = fromWatchlistTitleRow(row);
+    if (item && row.user_id) watchlists[row.user_id]?.push(item);
+  });
+  
+  return watchlists;
+}
+
+// Storage bucket of the published calendar feeds (schema in supabase/migrations)
+const CALENDAR_BUCKET = 'calendars';
+
+const getCalendarPath = (userId: string, token: string) => `${userId}/${token}.ics`;
+
+// Token of the user's calendar feed, null when they haven't subscribed yet
+export async function fetchCalendarFeedToken(userId: string): Promise<string | null> {
+  if (!userId) return null;
+  
+  const data = await fetchWithRetry('user_calendar_feeds', supabase
+    .from('user_calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle());
+  
+  return (data as { token: string } | null)?.token ?? null;
+}
+
+// Create or replace the token of the user's calendar feed
+export async function saveCalendarFeedToken(userId: string, token: string) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for calendar feed save');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_calendar_feeds')
+      .upsert(
+        { user_id: userId, token, created_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      );
+    
+    if (error) {
+      console.error('Failed to save calendar feed:', error);
+    }
+    return !error;
+  } catch (error) {
+    console.error('Failed to save calendar feed:', error);
+    return false;
+  }
+}
+
+// Public address of a user's calendar feed (whether or not it has been published yet)
+export function getCalendarFeedUrl(userId: string, token: string): string {
+  return supabase.storage.from(CALENDAR_BUCKET).getPublicUrl(getCalendarPath(userId, token)).data.publicUrl;
+}
+
+// Publish (or replace) a user's calendar feed and return its public address
+export async function publishCalendarFeed(userId: string, token: string, ics: string): Promise<string | null> {
+  if (!userId) return null;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for calendar publish');
+      return null;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const path = getCalendarPath(userId, token);
+    const { error } = await supabase.storage
+      .from(CALENDAR_BUCKET)
+      .upload(path, ics, { contentType: 'text/calendar; charset=utf-8', cacheControl: '3600', upsert: true });
+    
+    if (error) {
+      console.error('Failed to publish calendar feed:', error.message);
+      return null;
+    }
+    
+    return getCalendarFeedUrl(userId, token);
+  } catch (error) {
+    console.error('Failed to publish calendar feed:', error);
+    return null;
+  }
+}
+
+// Take a calendar feed down, e.g. before publishing it under a new address
+export async function removeCalendarFeed(userId: string, token: string) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for calendar removal');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase.storage
+      .from(CALENDAR_BUCKET)
+      .remove([getCalendarPath(userId, token)]);
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to remove calendar feed:', error);
+    return false;
+  }
+}
+
+// Reminder settings of a user (schema in supabase/migrations)
+export interface NotificationPreferences {
+  theatrical_releases: boolean;
+  digital_releases: boolean;
+  new_episodes: boolean;
+  reminder_hour: number; // local hour, 0-23
+  titles: string[]; // media keys of the titles with reminders, e.g. "movie_1399"
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  theatrical_releases: true,
+  digital_releases: true,
+  new_episodes: true,
+  reminder_hour: 9,
+  titles: []
+};
+
+// Fetch the reminder settings of the user, the defaults until they change any
+export async function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  if (!userId) return DEFAULT_NOTIFICATION_PREFERENCES;
+  
+  const data = await fetchWithRetry('user_notification_preferences', supabase
+    .from('user_notification_preferences')
+    .select('theatrical_releases, digital_releases, new_episodes, reminder_hour, titles')
+    .eq('user_id', userId)
+    .maybeSingle());
+  
+  return data ? { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(data as NotificationPreferences) } : DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+// Create or replace the reminder settings of the user
+export async function saveNotificationPreferences(userId: string, preferences: NotificationPreferences) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for notification preferences save');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_notification_preferences')
+      .upsert(
+        { user_id: userId, ...preferences, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      );
+    
+    return !error;
+  } catch (error) {
+    console.error('Failed to save notification preferences:', error);
+    return false;
+  }
+}
+
+// A streaming service the user subscribes to, with its TMDb name and logo
+export interface StreamingService {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+}
+
+// Streaming region and services of a user (schema in supabase/migrations)
+export interface StreamingSettings {
+  region: string;
+  services: StreamingService[];
+}
+
+export const DEFAULT_STREAMING_SETTINGS: StreamingSettings = {
+  region: 'US',
+  services: []
+};
+
+// Fetch the streaming settings of the user, the defaults when they have never changed them
+export async function fetchStreamingSettings(userId: string): Promise<StreamingSettings> {
+  if (!userId) return DEFAULT_STREAMING_SETTINGS;
+  
+  const data = await fetchWithRetry('user_streaming_settings', supabase
+    .from('user_streaming_settings')
+    .select('region, services')
+    .eq('user_id', userId)
+    .maybeSingle());
+  
+  return data ? { ...DEFAULT_STREAMING_SETTINGS, ...(data as StreamingSettings) } : DEFAULT_STREAMING_SETTINGS;
+}
+
+// Create or replace the streaming settings of the user
+export async function saveStreamingSettings(userId: string, settings: StreamingSettings) {
+  if (!userId) return false;
+  
+  try {
+    // Get current session to ensure we have a valid access token
+    const session = await getCurrentSession();
+    if (!session) {
+      console.error('No valid session found for streaming settings save');
+      return false;
+    }
+    
+    // Set authorization header for the request
+    supabase.auth.setSession(session);
+    
+    const { error } = await supabase
+      .from('user_streaming_settings')
+      .upsert(
+        { user_id: userId, ...settings, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      );
+    
+    if (error) {
+      console.error('Failed to save streaming settings:', error);
+    }
+    return !error;
+  } catch (error) {
+    console.error('Failed to save streaming settings:', error);
+    return false;
+  }
+}
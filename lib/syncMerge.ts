@@ -0,0 +1,24 @@
+import { UserItem, UserItemChanges } from './supabase';
+import { isSameMedia } from './media';
+import { sortByPosition } from './ordering';
+import { applyPendingMutations } from './outboxStore';
+
+// Merge rows pulled from the server into the library items.
+// - full: the changes are a complete snapshot and replace the local list
+// - otherwise changed rows replace their local copy and tombstones remove it
+// Changes still waiting in the outbox are applied on top: they only leave the outbox once the
+// server has acknowledged them, so newer local edits are never lost to a pull.
+export function mergeRemoteChanges<T extends UserItem>(
+  items: T[],
+  changes: UserItemChanges<T>,
+  userId: string,
+  full: boolean
+): T[] {
+  let merged: T[] = full ? [] : items.filter(item =>
+    !changes.items.some(changed => isSameMedia(changed, item)) &&
+    !changes.deleted.some(deleted => isSameMedia(deleted, item))
+  );
+  merged = [...merged, ...changes.items];
+
+  return sortByPosition(applyPendingMutations(merged, userId));
+}
@@ -1,3 +1,6 @@
+import { buildCacheKey, getCached, setCached } from './tmdbCache';
+import { scheduleRequest } from './tmdbScheduler';
+
 const TMDB_API_KEY = process.env.EXPO_PUBLIC_TMDB_API_KEY;
 const BASE_URL = 'https://api.themoviedb.org/3';
 
@@ -5,6 +8,161 @@ if (!TMDB_API_KEY) {
   throw new Error('EXPO_PUBLIC_TMDB_API_KEY is not set in environment variables');
 }
 
+// How long responses stay cached, per kind of endpoint
+const CACHE_TTL = {
+  search: 10 * 60 * 1000, // 10 minutes
+  list: 30 * 60 * 1000, // 30 minutes - trending, discover and top rated pages
+  details: 24 * 60 * 60 * 1000, // 1 day
+  genres: 7 * 24 * 60 * 60 * 1000, // 1 week
+};
+
+// Base error for every failed TMDb request
+export class TMDbError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'TMDbError';
+    this.status = status;
+  }
+}
+
+// 429 - too many requests; retryAfter is in seconds when TMDb sends the header
+export class TMDbRateLimitError extends TMDbError {
+  retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number) {
+    super(message, 429);
+    this.name = 'TMDbRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 404 - the movie, show or resource does not exist
+export class TMDbNotFoundError extends TMDbError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'TMDbNotFoundError';
+  }
+}
+
+// 401 - missing or invalid API key
+export class TMDbAuthError extends TMDbError {
+  constructor(message: string) {
+    super(message, 401);
+    this.name = 'TMDbAuthError';
+  }
+}
+
+// The request never got a response (offline, DNS, CORS...)
+export class TMDbNetworkError extends TMDbError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TMDbNetworkError';
+  }
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined | null>;
+
+interface RequestOptions {
+  // How long to cache a successful response (ms), 0 disables caching
+  ttl?: number;
+  // Used in error messages, e.g. "trending" -> "Failed to fetch trending: ..."
+  description?: string;
+}
+
+// Turn a failed response into the matching typed error
+async function toTMDbError(response: Response, description: string): Promise<TMDbError> {
+  let statusMessage = response.statusText;
+  try {
+    const body = await response.json();
+    console.error('TMDb API Error:', body);
+    statusMessage = body?.status_message || statusMessage;
+  } catch {
+    // Body was not JSON - keep the status text
+  }
+
+  const message = `Failed to fetch ${description}: ${statusMessage}`;
+
+  switch (response.status) {
+    case 401:
+      return new TMDbAuthError(message);
+    case 404:
+      return new TMDbNotFoundError(message);
+    case 429: {
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+      return new TMDbRateLimitError(message, isNaN(retryAfter) ? undefined : retryAfter);
+    }
+    default:
+      return new TMDbError(message, response.status);
+  }
+}
+
+// Wait time after a 429 when TMDb doesn't send Retry-After
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+// Retry only rate limited requests, waiting as long as TMDb asks us to
+const getRetryDelay = (error: unknown, attempt: number): number | null => {
+  if (!(error instanceof TMDbRateLimitError)) return null;
+
+  return error.retryAfter !== undefined
+    ? error.retryAfter * 1000
+    : DEFAULT_RETRY_AFTER_MS * Math.pow(2, attempt);
+};
+
+// Single request pipeline for every TMDb call: builds the URL, serves from cache,
+// goes through the scheduler and maps failures to typed errors
+async function tmdbRequest<T>(
+  path: string,
+  params: QueryParams = {},
+  { ttl = 0, description = path }: RequestOptions = {}
+): Promise<T> {
+  const cacheKey = buildCacheKey(path, params);
+
+  if (ttl > 0) {
+    const cached = getCached<T>(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+  }
+
+  const query = new URLSearchParams();
+  query.append('api_key', TMDB_API_KEY || '');
+  Object.keys(params).forEach(key => {
+    const value = params[key];
+    if (value !== undefined && value !== null) {
+      query.append(key, value.toString());
+    }
+  });
+
+  // The scheduled task resolves with the raw body so that every caller sharing a
+  // coalesced request parses its own copy (screens mutate the results they get)
+  const body = await scheduleRequest(cacheKey, async () => {
+    let response: Response;
+    try {
+      response = await fetch(`${BASE_URL}${path}?${query.toString()}`);
+    } catch (error) {
+      throw new TMDbNetworkError(
+        `Failed to fetch ${description}: ${error instanceof Error ? error.message : 'Network request failed'}`
+      );
+    }
+
+    if (!response.ok) {
+      throw await toTMDbError(response, description);
+    }
+
+    return response.text();
+  }, { getRetryDelay });
+
+  const data = JSON.parse(body) as T;
+
+  if (ttl > 0) {
+    setCached(cacheKey, data, ttl);
+  }
+
+  return data;
+}
+
 export interface TMDbSearchResult {
   id: number;
   title?: string;
@@ -23,6 +181,39 @@ export interface TMDbSearchResult {
   number_of_episodes?: number;
   genres?: { id: number, name: string }[];
   overview?: string;
+  original_language?: string;
+  episode_run_time?: number[];
+  seasons?: TMDbSeasonSummary[];
+  next_episode_to_air?: TMDbEpisode | null; // TV details, once the next episode is announced
+  // People in multi search results
+  profile_path?: string | null;
+  known_for_department?: string;
+  known_for?: TMDbSearchResult[];
+}
+
+// A season as listed in TV details (without its episodes)
+export interface TMDbSeasonSummary {
+  id: number;
+  season_number: number; // 0 holds specials
+  name: string;
+  episode_count: number;
+  air_date: string | null;
+  poster_path: string | null;
+}
+
+export interface TMDbEpisode {
+  id: number;
+  season_number: number;
+  episode_number: number;
+  name: string;
+  overview?: string;
+  air_date: string | null;
+  runtime?: number | null;
+  still_path?: string | null;
+}
+
+export interface TMDbSeason extends TMDbSeasonSummary {
+  episodes: TMDbEpisode[];
 }
 
 export interface TMDbSearchResponse {
@@ -38,21 +229,13 @@ export async function searchContent(
   mediaType?: string,
   itemId?: number
 ): Promise<TMDbSearchResponse> {
-  let url = '';
-
   // If we have an itemId and mediaType, fetch that specific item
   if (itemId && mediaType && (mediaType === 'movie' || mediaType === 'tv')) {
-    url = `${BASE_URL}/${mediaType}/${itemId}?api_key=${TMDB_API_KEY}&language=en-US`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('TMDb API Error:', error);
-      throw new Error(`Failed to fetch details: ${error.status_message || response.statusText}`);
-    }
-    
-    const item = await response.json();
+    const item = await tmdbRequest<TMDbSearchResult>(
+      `/${mediaType}/${itemId}`,
+      { language: 'en-US' },
+      { ttl: CACHE_TTL.details, description: 'details' }
+    );
     
     // Convert single item response to match search response format
     return {
@@ -67,43 +250,11 @@ export async function searchContent(
   }
   
   // Regular search
-  url = `${BASE_URL}/search/multi?api_key=${TMDB_API_KEY}&query=${encodeURIComponent(
-    query
-  )}&page=${page}&include_adult=false&language=en-US`;
-
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('TMDb API Error:', error);
-    throw new Error(`Failed to fetch search results: ${error.status_message || response.statusText}`);
-  }
-
-  return response.json();
-}
-
-export function formatSearchResult(result: TMDbSearchResult) {
-  if (result.media_type === 'person') {
-    return null;
-  }
-
-  // If media_type is missing, infer it from whether it has a title (movie) or name (tv)
-  const mediaType = result.media_type || (result.title ? 'movie' : 'tv');
-
-  return {
-    id: result.id,
-    title: result.title || result.name || '',
-    poster_path: result.poster_path || 'https://via.placeholder.com/342x513?text=No+Poster',
-    media_type: mediaType,
-    release_date: result.release_date || result.first_air_date || '',
-    vote_average: result.vote_average,
-    genre_ids: result.genre_ids || [],
-    popularity: result.popularity || 0,
-    runtime: result.runtime,
-    number_of_seasons: result.number_of_seasons,
-    number_of_episodes: result.number_of_episodes,
-    genres: result.genres
-  };
+  return tmdbRequest<TMDbSearchResponse>(
+    '/search/multi',
+    { query, page, include_adult: false, language: 'en-US' },
+    { ttl: CACHE_TTL.search, description: 'search results' }
+  );
 }
 
 // Fetch trending content
@@ -113,32 +264,21 @@ export async function getTrending(
   page: number = 1,
   language: string = 'en-US'
 ): Promise<TMDbSearchResponse> {
-  const url = `${BASE_URL}/trending/${mediaType}/${timeWindow}?api_key=${TMDB_API_KEY}&page=${page}&language=${language}`;
-  
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('TMDb API Error:', error);
-    throw new Error(`Failed to fetch trending: ${error.status_message || response.statusText}`);
-  }
-  
-  return response.json();
+  return tmdbRequest<TMDbSearchResponse>(
+    `/trending/${mediaType}/${timeWindow}`,
+    { page, language },
+    { ttl: CACHE_TTL.list, description: 'trending' }
+  );
 }
 
 // Get detailed information for a movie
 export async function getMovieDetails(movieId: number): Promise<TMDbSearchResult> {
-  const url = `${BASE_URL}/movie/${movieId}?api_key=${TMDB_API_KEY}&append_to_response=credits,keywords`;
-  
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('TMDb API Error:', error);
-    throw new Error(`Failed to fetch movie details: ${error.status_message || response.statusText}`);
-  }
+  const data = await tmdbRequest<TMDbSearchResult>(
+    `/movie/${movieId}`,
+    { append_to_response: 'credits,keywords' },
+    { ttl: CACHE_TTL.details, description: 'movie details' }
+  );
   
-  const data = await response.json();
   return {
     ...data,
     media_type: 'movie'
@@ -147,38 +287,244 @@ export async function getMovieDetails(movieId: number): Promise<TMDbSearchResult
 
 // Get detailed information for a TV show
 export async function getTVDetails(tvId: number): Promise<TMDbSearchResult> {
-  const url = `${BASE_URL}/tv/${tvId}?api_key=${TMDB_API_KEY}&append_to_response=credits,keywords`;
-  
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('TMDb API Error:', error);
-    throw new Error(`Failed to fetch TV details: ${error.status_message || response.statusText}`);
-  }
+  const data = await tmdbRequest<TMDbSearchResult>(
+    `/tv/${tvId}`,
+    { append_to_response: 'credits,keywords' },
+    { ttl: CACHE_TTL.details, description: 'TV details' }
+  );
   
-  const data = await response.json();
   return {
     ...data,
     media_type: 'tv'
   };
 }
 
+export interface TMDbCastMember {
+  id: number;
+  name: string;
+  character: string;
+  profile_path: string | null;
+  order: number;
+}
+
+export interface TMDbCrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+}
+
+export interface TMDbVideo {
+  id: string;
+  key: string; // YouTube/Vimeo video id
+  name: string;
+  site: string;
+  type: string; // "Trailer", "Teaser", "Clip", "Featurette"...
+  official: boolean;
+}
+
+export interface TMDbImage {
+  file_path: string;
+  aspect_ratio: number;
+  width: number;
+  height: number;
+  vote_average: number;
+}
+
+export interface TMDbExternalIds {
+  imdb_id?: string | null;
+  wikidata_id?: string | null;
+  facebook_id?: string | null;
+  instagram_id?: string | null;
+  twitter_id?: string | null;
+  tvdb_id?: number | null;
+}
+
+// Certification and release dates of a movie in one country
+export interface TMDbReleaseDates {
+  iso_3166_1: string;
+  release_dates: { certification: string; release_date: string; type: number }[];
+}
+
+// TMDb release types: premiere, limited theatrical, theatrical, digital, physical and TV
+export const RELEASE_TYPE = {
+  premiere: 1,
+  theatricalLimited: 2,
+  theatrical: 3,
+  digital: 4,
+  physical: 5,
+  tv: 6
+} as const;
+
+// Get the release dates of a movie in every country
+export async function getMovieReleaseDates(movieId: number): Promise<TMDbReleaseDates[]> {
+  const data = await tmdbRequest<{ results: TMDbReleaseDates[] }>(
+    `/movie/${movieId}/release_dates`,
+    {},
+    { ttl: CACHE_TTL.details, description: 'release dates' }
+  );
+
+  return data.results || [];
+}
+
+// Details with everything the details screen shows, from a single request
+export interface TMDbFullDetails extends TMDbSearchResult {
+  tagline?: string;
+  status?: string;
+  created_by?: { id: number; name: string }[]; // TV only
+  credits?: { cast: TMDbCastMember[]; crew: TMDbCrewMember[] };
+  videos?: { results: TMDbVideo[] };
+  images?: { backdrops: TMDbImage[]; posters: TMDbImage[] };
+  external_ids?: TMDbExternalIds;
+  release_dates?: { results: TMDbReleaseDates[] }; // movies only
+  content_ratings?: { results: { iso_3166_1: string; rating: string }[] }; // TV only
+}
+
+// Get the details of a title with credits, videos, images, external ids and release dates
+// (content ratings for TV, which has no release dates) appended
+export async function getFullDetails(mediaType: 'movie' | 'tv', id: number): Promise<TMDbFullDetails> {
+  const data = await tmdbRequest<TMDbFullDetails>(
+    `/${mediaType}/${id}`,
+    {
+      language: 'en-US',
+      append_to_response: `credits,videos,images,external_ids,${mediaType === 'movie' ? 'release_dates' : 'content_ratings'}`,
+      // Images are filtered by language too, keep English and textless ones
+      include_image_language: 'en,null'
+    },
+    { ttl: CACHE_TTL.details, description: 'details' }
+  );
+
+  return {
+    ...data,
+    media_type: mediaType
+  };
+}
+
+export interface TMDbWatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number;
+}
+
+// Where a title can be watched in one country (data by JustWatch)
+export interface TMDbRegionProviders {
+  link: string; // TMDb's watch page for the title in that country
+  flatrate?: TMDbWatchProvider[]; // included in a subscription
+  free?: TMDbWatchProvider[];
+  ads?: TMDbWatchProvider[];
+  rent?: TMDbWatchProvider[];
+  buy?: TMDbWatchProvider[];
+}
+
+export interface TMDbWatchRegion {
+  iso_3166_1: string;
+  english_name: string;
+}
+
+// Get where a title can be streamed, rented or bought, by country code
+export async function getWatchProviders(
+  mediaType: 'movie' | 'tv',
+  id: number
+): Promise<Record<string, TMDbRegionProviders>> {
+  const data = await tmdbRequest<{ id: number; results: Record<string, TMDbRegionProviders> }>(
+    `/${mediaType}/${id}/watch/providers`,
+    {},
+    { ttl: CACHE_TTL.details, description: 'watch providers' }
+  );
+
+  return data.results || {};
+}
+
+// Get the streaming services available in a country, for both movies and TV
+export async function getRegionProviders(region: string): Promise<TMDbWatchProvider[]> {
+  const [movies, tv] = await Promise.all((['movie', 'tv'] as const).map(mediaType =>
+    tmdbRequest<{ results: TMDbWatchProvider[] }>(
+      `/watch/providers/${mediaType}`,
+      { watch_region: region, language: 'en-US' },
+      { ttl: CACHE_TTL.genres, description: 'streaming services' }
+    )
+  ));
+
+  // Most services carry both, keep one entry each in TMDb's display order
+  const byId = new Map<number, TMDbWatchProvider>();
+  [...movies.results, ...tv.results].forEach(provider => {
+    if (!byId.has(provider.provider_id)) byId.set(provider.provider_id, provider);
+  });
+  return [...byId.values()].sort((a, b) => a.display_priority - b.display_priority);
+}
+
+// Get the countries TMDb has watch provider data for
+export async function getWatchRegions(): Promise<TMDbWatchRegion[]> {
+  const data = await tmdbRequest<{ results: TMDbWatchRegion[] }>(
+    '/watch/providers/regions',
+    { language: 'en-US' },
+    { ttl: CACHE_TTL.genres, description: 'watch regions' }
+  );
+
+  return data.results.sort((a, b) => a.english_name.localeCompare(b.english_name));
+}
+
+// A movie or TV show in a person's filmography, with their part in it
+export interface TMDbPersonCredit extends TMDbSearchResult {
+  credit_id: string;
+  character?: string; // cast credits
+  job?: string; // crew credits
+  episode_count?: number; // TV credits
+}
+
+export interface TMDbPerson {
+  id: number;
+  name: string;
+  biography: string;
+  profile_path: string | null;
+  known_for_department: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  combined_credits: { cast: TMDbPersonCredit[]; crew: TMDbPersonCredit[] };
+}
+
+// Get a person's biography and combined movie and TV credits
+export async function getPersonDetails(personId: number): Promise<TMDbPerson> {
+  return tmdbRequest<TMDbPerson>(
+    `/person/${personId}`,
+    { language: 'en-US', append_to_response: 'combined_credits' },
+    { ttl: CACHE_TTL.details, description: 'person details' }
+  );
+}
+
+// Get the episodes of one season of a TV show
+export async function getTVSeason(tvId: number, seasonNumber: number): Promise<TMDbSeason> {
+  return tmdbRequest<TMDbSeason>(
+    `/tv/${tvId}/season/${seasonNumber}`,
+    { language: 'en-US' },
+    { ttl: CACHE_TTL.details, description: 'TV season' }
+  );
+}
+
+// Get the genre list of a media type
+export async function getGenres(mediaType: 'movie' | 'tv'): Promise<{ id: number, name: string }[]> {
+  // The genre list rarely changes, so it is cached for a week
+  const data = await tmdbRequest<{ genres: { id: number, name: string }[] }>(
+    `/genre/${mediaType}/list`,
+    {},
+    { ttl: CACHE_TTL.genres, description: 'genres' }
+  );
+  return data.genres;
+}
+
 // Get genre names from ids
 export async function getGenreName(genreId: number, mediaType: 'movie' | 'tv'): Promise<string> {
-  // Cache this in a real app
-  const url = `${BASE_URL}/genre/${mediaType}/list?api_key=${TMDB_API_KEY}`;
-  
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    console.error('Failed to fetch genres');
+  try {
+    const genres = await getGenres(mediaType);
+    const genre = genres.find(g => g.id === genreId);
+    return genre ? genre.name : 'Unknown';
+  } catch (error) {
+    console.error('Failed to fetch genres:', error);
     return 'Unknown';
   }
-  
-  const data = await response.json();
-  const genre = data.genres.find((g: {id: number, name: string}) => g.id === genreId);
-  return genre ? genre.name : 'Unknown';
 }
 
 // Fetch content via the discover endpoint - better for genre-specific filtering
@@ -199,72 +545,66 @@ export async function discoverContent(
 ): Promise<TMDbSearchResponse> {
   
   // Build query params
-  const params = new URLSearchParams();
-  params.append('api_key', TMDB_API_KEY || '');
-  params.append('language', 'en-US');
-  params.append('include_adult', 'false');
-  params.append('page', options.page?.toString() || '1');
+  const params: QueryParams = {
+    language: 'en-US',
+    include_adult: false,
+    page: options.page || 1,
+  };
   
   // Add optional filters
   if (options.genreIds && options.genreIds.length > 0) {
-    params.append('with_genres', options.genreIds.join(','));
+    params.with_genres = options.genreIds.join(',');
   }
   
   if (options.sortBy) {
-    params.append('sort_by', options.sortBy);
+    params.sort_by = options.sortBy;
   }
   
   if (options.voteCountGte) {
-    params.append('vote_count.gte', options.voteCountGte.toString());
+    params['vote_count.gte'] = options.voteCountGte;
   }
   
   if (options.voteAverageGte) {
-    params.append('vote_average.gte', options.voteAverageGte.toString());
+    params['vote_average.gte'] = options.voteAverageGte;
   }
   
   if (options.withKeywords) {
-    params.append('with_keywords', options.withKeywords);
+    params.with_keywords = options.withKeywords;
   }
   
   if (options.releaseDateGte) {
     if (mediaType === 'movie') {
-      params.append('primary_release_date.gte', options.releaseDateGte);
+      params['primary_release_date.gte'] = options.releaseDateGte;
     } else {
-      params.append('first_air_date.gte', options.releaseDateGte);
+      params['first_air_date.gte'] = options.releaseDateGte;
     }
   }
   
   if (options.releaseDateLte) {
     if (mediaType === 'movie') {
-      params.append('primary_release_date.lte', options.releaseDateLte);
+      params['primary_release_date.lte'] = options.releaseDateLte;
     } else {
-      params.append('first_air_date.lte', options.releaseDateLte);
+      params['first_air_date.lte'] = options.releaseDateLte;
     }
   }
   
   if (options.withOriginalLanguage) {
-    params.append('with_original_language', options.withOriginalLanguage);
+    params.with_original_language = options.withOriginalLanguage;
   }
   
   if (options.year) {
     if (mediaType === 'movie') {
-      params.append('primary_release_year', options.year.toString());
+      params.primary_release_year = options.year;
     } else {
-      params.append('first_air_date_year', options.year.toString());
+      params.first_air_date_year = options.year;
     }
   }
   
-  const url = `${BASE_URL}/discover/${mediaType}?${params.toString()}`;
-  
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('TMDb API Error:', error);
-    throw new Error(`Failed to fetch discover content: ${error.status_message || response.statusText}`);
-  }
-  
-  const data = await response.json();
+  const data = await tmdbRequest<TMDbSearchResponse>(
+    `/discover/${mediaType}`,
+    params,
+    { ttl: CACHE_TTL.list, description: 'discover content' }
+  );
   
   // Add media_type to each result since discover doesn't include it
   const results = data.results.map((item: any) => ({
@@ -431,7 +771,7 @@ export async function getPopularAnime(): Promise<TMDbSearchResponse> {
           const firstMatch = response.results.find(item => 
             (item.media_type === 'tv' || item.media_type === 'movie') && 
             (item.genre_ids?.includes(16) || 
-             (item as any).original_language === 'ja')
+             item.original_language === 'ja')
           );
           return firstMatch ? [firstMatch] : [];
         }
@@ -520,17 +860,11 @@ export async function getTopRated(
   mediaType: 'movie' | 'tv',
   page: number = 1
 ): Promise<TMDbSearchResponse> {
-  const url = `${BASE_URL}/${mediaType}/top_rated?api_key=${TMDB_API_KEY}&language=en-US&page=${page}`;
-
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('TMDb API Error:', error);
-    throw new Error(`Failed to fetch top rated ${mediaType}: ${error.status_message || response.statusText}`);
-  }
-
-  const data = await response.json();
+  const data = await tmdbRequest<TMDbSearchResponse>(
+    `/${mediaType}/top_rated`,
+    { language: 'en-US', page },
+    { ttl: CACHE_TTL.list, description: `top rated ${mediaType}` }
+  );
 
   // Add media_type to each result since the top_rated endpoint doesn't include it
   const results = data.results.map((item: any) => ({
@@ -0,0 +1,147 @@
+import { Platform } from 'react-native';
+
+// Prefix for persisted cache entries so they can be found (and cleared) in localStorage
+const STORAGE_PREFIX = 'tmdb-cache:';
+
+// Upper bound on in-memory entries to keep long sessions from growing without limit
+const MAX_MEMORY_ENTRIES = 300;
+
+interface CacheEntry {
+  expiresAt: number;
+  // Responses are stored serialized so callers always get their own copy
+  // (several screens mutate results, e.g. setting media_type)
+  payload: string;
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+
+// Persisted storage is only available on web, where localStorage is synchronous and large enough.
+// Native keeps the in-memory cache only (SecureStore is meant for small secrets, not API payloads).
+const canPersist = () => {
+  try {
+    return Platform.OS === 'web' && typeof window !== 'undefined' && !!window.localStorage;
+  } catch {
+    return false;
+  }
+};
+
+const readPersisted = (key: string): CacheEntry | null => {
+  if (!canPersist()) return null;
+
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writePersisted = (key: string, entry: CacheEntry) => {
+  if (!canPersist()) return;
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+  } catch {
+    // Storage is full or unavailable - drop persisted entries and keep the memory copy
+    clearPersisted();
+  }
+};
+
+const removePersisted = (key: string) => {
+  if (!canPersist()) return;
+
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // Ignore errors during cleanup
+  }
+};
+
+const clearPersisted = () => {
+  if (!canPersist()) return;
+
+  try {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(STORAGE_PREFIX)) {
+        keys.push(key);
+      }
+    }
+    keys.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // Ignore errors during cleanup
+  }
+};
+
+// Build a stable cache key from an endpoint and its params (param order doesn't matter)
+export function buildCacheKey(
+  path: string,
+  params: Record<string, string | number | boolean | undefined | null> = {}
+): string {
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map(key => `${key}=${params[key]}`)
+    .join('&');
+
+  return query ? `${path}?${query}` : path;
+}
+
+// Get a cached value if present and not expired
+export function getCached<T>(key: string): T | undefined {
+  const now = Date.now();
+  let entry = memoryCache.get(key);
+
+  // Fall back to persisted storage (e.g. after a page reload)
+  if (!entry) {
+    const persisted = readPersisted(key);
+    if (persisted) {
+      entry = persisted;
+      memoryCache.set(key, persisted);
+    }
+  }
+
+  if (!entry) return undefined;
+
+  if (entry.expiresAt <= now) {
+    memoryCache.delete(key);
+    removePersisted(key);
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(entry.payload) as T;
+  } catch {
+    memoryCache.delete(key);
+    removePersisted(key);
+    return undefined;
+  }
+}
+
+// Store a value for ttl milliseconds
+export function setCached<T>(key: string, value: T, ttl: number): void {
+  if (ttl <= 0) return;
+
+  const entry: CacheEntry = {
+    expiresAt: Date.now() + ttl,
+    payload: JSON.stringify(value)
+  };
+
+  // Evict the oldest entry when the memory cache is full (Map keeps insertion order)
+  if (memoryCache.size >= MAX_MEMORY_ENTRIES && !memoryCache.has(key)) {
+    const oldestKey = memoryCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      memoryCache.delete(oldestKey);
+    }
+  }
+
+  memoryCache.set(key, entry);
+  writePersisted(key, entry);
+}
+
+// Clear every cached TMDb response (memory and persisted)
+export function clearTMDbCache(): void {
+  memoryCache.clear();
+  clearPersisted();
+}
@@ -0,0 +1,88 @@
+// Request scheduler for TMDb
+// - caps how many requests run at the same time
+// - coalesces identical in-flight requests into one network call
+// - pauses every queued request when TMDb answers 429, honouring Retry-After
+
+// TMDb allows roughly 40-50 requests per second per IP; staying well below keeps large libraries safe
+const MAX_CONCURRENT_REQUESTS = 6;
+const MAX_RETRIES = 3;
+
+interface ScheduleOptions {
+  // Return how long to wait (ms) before retrying after this error, or null to give up
+  getRetryDelay?: (error: unknown, attempt: number) => number | null;
+}
+
+let activeRequests = 0;
+const waitingQueue: (() => void)[] = [];
+const inFlightRequests = new Map<string, Promise<unknown>>();
+
+// Until this timestamp no new request starts (set when TMDb rate limits us)
+let pausedUntil = 0;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Wait for a free slot, respecting any rate limit pause
+async function acquireSlot(): Promise<void> {
+  if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>(resolve => waitingQueue.push(resolve));
+  } else {
+    activeRequests++;
+  }
+
+  const pause = pausedUntil - Date.now();
+  if (pause > 0) {
+    await sleep(pause);
+  }
+}
+
+// Hand the slot to the next waiting request, or free it
+function releaseSlot(): void {
+  const next = waitingQueue.shift();
+  if (next) {
+    // The slot is passed on directly, so activeRequests stays the same
+    next();
+  } else {
+    activeRequests--;
+  }
+}
+
+async function runWithRetries<T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot();
+    try {
+      return await task();
+    } catch (error) {
+      const delay = attempt < MAX_RETRIES && options.getRetryDelay
+        ? options.getRetryDelay(error, attempt)
+        : null;
+
+      if (delay === null) {
+        throw error;
+      }
+
+      // Pause everyone, not just this request - the limit applies to the whole client
+      pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+    } finally {
+      releaseSlot();
+    }
+  }
+}
+
+// Schedule a request; callers asking for the same key while it is in flight share the result
+export function scheduleRequest<T>(
+  key: string,
+  task: () => Promise<T>,
+  options: ScheduleOptions = {}
+): Promise<T> {
+  const existing = inFlightRequests.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const request = runWithRetries(task, options).finally(() => {
+    inFlightRequests.delete(key);
+  });
+
+  inFlightRequests.set(key, request);
+  return request;
+}
@@ -0,0 +1,84 @@
+// Every time a title was watched. Stored in the watch_events column of its user_items row,
+// oldest first; the row's rating and watched_at mirror the latest viewing.
+
+export interface WatchEvent {
+  id: string;
+  watched_at: string;
+  rating?: number; // rating given for this viewing (0.5 to 10)
+}
+
+// The user data the history is read from
+type WatchHistorySource = {
+  status?: string;
+  rating?: number;
+  watched_date?: string;
+  watch_events?: WatchEvent[];
+};
+
+export function createWatchEvent(watchedAt: string, rating?: number): WatchEvent {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    watched_at: watchedAt,
+    ...(rating !== undefined ? { rating } : {})
+  };
+}
+
+const byDate = (a: WatchEvent, b: WatchEvent) =>
+  new Date(a.watched_at).getTime() - new Date(b.watched_at).getTime();
+
+// Viewings of a title, oldest first. Titles watched before the history existed count as one viewing.
+export function getWatchEvents(item: WatchHistorySource): WatchEvent[] {
+  if (item.watch_events && item.watch_events.length > 0) {
+    return [...item.watch_events].sort(byDate);
+  }
+
+  if (item.status === 'watched') {
+    return [{
+      id: 'legacy',
+      watched_at: item.watched_date || new Date(0).toISOString(),
+      ...(item.rating !== undefined ? { rating: item.rating } : {})
+    }];
+  }
+
+  return [];
+}
+
+export function addWatchEvent(item: WatchHistorySource, event: WatchEvent): WatchEvent[] {
+  return [...getWatchEvents(item), event].sort(byDate);
+}
+
+// Change the date or rating of the latest viewing (editing the review of what was just watched)
+export function updateLatestWatchEvent(
+  item: WatchHistorySource,
+  changes: Partial<Omit<WatchEvent, 'id'>>
+): WatchEvent[] {
+  const events = getWatchEvents(item);
+  if (events.length === 0) return events;
+
+  const latest = { ...events[events.length - 1], ...changes };
+  if (latest.rating === undefined) delete latest.rating;
+
+  return [...events.slice(0, -1), latest].sort(byDate);
+}
+
+export function removeWatchEvent(item: WatchHistorySource, eventId: string): WatchEvent[] {
+  return getWatchEvents(item).filter(event => event.id !== eventId);
+}
+
+export function hasBeenWatched(item: WatchHistorySource): boolean {
+  return getWatchEvents(item).length > 0;
+}
+
+export function getWatchCount(item: WatchHistorySource): number {
+  return getWatchEvents(item).length;
+}
+
+// Viewings after the first one
+export function getRewatchCount(item: WatchHistorySource): number {
+  return Math.max(0, getWatchCount(item) - 1);
+}
+
+export function getLastWatchedAt(item: WatchHistorySource): string | undefined {
+  const events = getWatchEvents(item);
+  return events[events.length - 1]?.watched_at;
+}
@@ -0,0 +1,110 @@
+import type { RuntimeInfo } from './runtimeStore';
+import { Media, getMediaKey } from './media';
+
+// "Watch together": titles several people of a group want to watch, ranked for tonight
+
+// A title on at least two watchlists of the group
+export interface WatchCandidate {
+  media: Media;
+  key: string; // media key, e.g. "movie_1399"
+  owners: string[]; // user ids of the members whose watchlist has it
+  overlap: number; // share of the group that wants to watch it, 0 to 1
+  minutes?: number; // length of the sitting: the movie, or one episode of a show
+  runtimeFit: number; // 0 to 1, how well that fits the time the group has
+  score: number;
+}
+
+// Yes/no votes of each member, by user id and media key
+export type GroupVotes = Record<string, Record<string, boolean>>;
+
+// How much each part weighs in the ranking
+const OVERLAP_WEIGHT = 0.5;
+const RATING_WEIGHT = 0.3;
+const RUNTIME_WEIGHT = 0.2;
+
+// Titles whose length is unknown are neither favoured nor ruled out
+const UNKNOWN_RUNTIME_FIT = 0.5;
+
+// How many of the best candidates a group pick votes on
+export const GROUP_PICK_SIZE = 10;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+
+// Minutes of one sitting: a movie's runtime, or the typical episode length of a show
+export function getSittingMinutes(media: Media, info: RuntimeInfo | undefined): number | undefined {
+  if (media.media_type === 'movie') {
+    return info?.runtime ?? media.runtime;
+  }
+
+  const seasonRuntimes = Object.values(info?.seasons || {})
+    .map(season => season.episodeRuntime)
+    .filter((runtime): runtime is number => typeof runtime === 'number');
+  return info?.episodeRuntime ?? average(seasonRuntimes) ?? average(media.episode_run_time || []);
+}
+
+// 1 when it fits the time available, dropping to 0 when it runs twice as long
+export function getRuntimeFit(minutes: number | undefined, availableMinutes: number | null): number {
+  if (availableMinutes === null) return 1;
+  if (!minutes) return UNKNOWN_RUNTIME_FIT;
+  if (minutes <= availableMinutes) return 1;
+  return Math.max(0, 1 - (minutes - availableMinutes) / availableMinutes);
+}
+
+// Titles on the watchlists of at least two members, best first. Ranked by how many members
+// want to watch them, their average TMDb rating and how well they fit the time available.
+export function rankCandidates(
+  watchlists: Record<string, Media[]>,
+  runtimes: Record<string, RuntimeInfo>,
+  availableMinutes: number | null
+): WatchCandidate[] {
+  const memberCount = Object.keys(watchlists).length;
+  const byKey = new Map<string, { media: Media; owners: string[] }>();
+
+  Object.entries(watchlists).forEach(([userId, items]) => {
+    items.forEach(media => {
+      const key = getMediaKey(media);
+      const entry = byKey.get(key);
+      if (!entry) {
+        byKey.set(key, { media, owners: [userId] });
+      } else if (!entry.owners.includes(userId)) {
+        entry.owners.push(userId);
+      }
+    });
+  });
+
+  return [...byKey.entries()]
+    .filter(([, { owners }]) => owners.length >= 2)
+    .map(([key, { media, owners }]) => {
+      const overlap = owners.length / memberCount;
+      const minutes = getSittingMinutes(media, runtimes[key]);
+      const runtimeFit = getRuntimeFit(minutes, availableMinutes);
+      const score = OVERLAP_WEIGHT * overlap
+        + RATING_WEIGHT * (media.vote_average || 0) / 10
+        + RUNTIME_WEIGHT * runtimeFit;
+      return { media, key, owners, overlap, minutes, runtimeFit, score };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// Yes votes a candidate got from the group
+export function countYesVotes(candidate: WatchCandidate, votes: GroupVotes): number {
+  return Object.values(votes).filter(memberVotes => memberVotes[candidate.key]).length;
+}
+
+// The title with the most yes votes, ties going to the better ranked one. When nobody
+// said yes to anything, one of the top candidates is picked at random, like a spotlight.
+export function pickWinner(candidates: WatchCandidate[], votes: GroupVotes): WatchCandidate | null {
+  if (candidates.length === 0) return null;
+
+  const tallied = candidates
+    .map(candidate => ({ candidate, yes: countYesVotes(candidate, votes) }))
+    .sort((a, b) => b.yes - a.yes || b.candidate.score - a.candidate.score);
+
+  if (tallied[0].yes > 0) {
+    return tallied[0].candidate;
+  }
+
+  const shortlist = candidates.slice(0, 3);
+  return shortlist[Math.floor(Math.random() * shortlist.length)];
+}
@@ -0,0 +1,35 @@
+-- Move user_items rows to composite keys: "<type>_<media_type>_<tmdb id>" instead of "<type>_<tmdb id>".
+-- TMDb ids are only unique per media type, so a movie and a TV show with the same id used to overwrite each other.
+-- Safe to run more than once. The app also migrates legacy rows lazily when it fetches them.
+
+BEGIN;
+
+-- Work out the composite key for every legacy row
+CREATE TEMP TABLE legacy_user_items ON COMMIT DROP AS
+SELECT
+  id,
+  user_id,
+  type || '_' ||
+    COALESCE(
+      NULLIF(value::jsonb ->> 'media_type', ''),
+      -- Older rows may miss media_type: movies have a title, TV shows a name
+      CASE WHEN value::jsonb ? 'title' AND NOT value::jsonb ? 'name' THEN 'movie' ELSE 'tv' END
+    ) || '_' || (value::jsonb ->> 'id') AS new_key
+FROM user_items
+WHERE item_key ~ '^(watchlist|watched)_[0-9]+$';
+
+-- Drop legacy rows whose composite key already exists (saved by a newer client)
+DELETE FROM user_items u
+USING legacy_user_items l
+WHERE u.id = l.id
+  AND EXISTS (
+    SELECT 1 FROM user_items existing
+    WHERE existing.user_id = l.user_id AND existing.item_key = l.new_key
+  );
+
+UPDATE user_items u
+SET item_key = l.new_key
+FROM legacy_user_items l
+WHERE u.id = l.id;
+
+COMMIT;
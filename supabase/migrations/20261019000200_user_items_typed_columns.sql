@@ -0,0 +1,72 @@
+-- Typed columns for user_items so the server can filter, sort and aggregate without parsing JSON.
+-- The TMDb fields that don't get their own column (genres, overview, vote average...) move to metadata.
+-- value is kept (nullable) for clients that still write it; a trigger fills the typed columns from it.
+
+ALTER TABLE user_items
+  ADD COLUMN IF NOT EXISTS tmdb_id INTEGER,
+  ADD COLUMN IF NOT EXISTS media_type TEXT,
+  ADD COLUMN IF NOT EXISTS title TEXT,
+  ADD COLUMN IF NOT EXISTS poster_path TEXT,
+  ADD COLUMN IF NOT EXISTS rating NUMERIC(3, 1),
+  ADD COLUMN IF NOT EXISTS watched_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS position DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS notes TEXT,
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE user_items ALTER COLUMN value DROP NOT NULL;
+
+-- Copy the JSON value of a row into the typed columns
+CREATE OR REPLACE FUNCTION user_items_fill_from_value()
+RETURNS TRIGGER AS $$
+DECLARE
+  item JSONB;
+BEGIN
+  -- Only when the JSON value is new: rows written by current clients carry typed columns already
+  IF NEW.value IS NULL
+    OR (TG_OP = 'INSERT' AND NEW.tmdb_id IS NOT NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.tmdb_id IS NOT NULL AND NEW.value IS NOT DISTINCT FROM OLD.value) THEN
+    RETURN NEW;
+  END IF;
+
+  item := NEW.value::jsonb;
+
+  NEW.tmdb_id := (item ->> 'id')::INTEGER;
+  NEW.media_type := COALESCE(
+    NULLIF(item ->> 'media_type', ''),
+    CASE WHEN item ? 'title' AND NOT item ? 'name' THEN 'movie' ELSE 'tv' END
+  );
+  NEW.title := COALESCE(item ->> 'title', item ->> 'name', '');
+  NEW.poster_path := NULLIF(item ->> 'poster_path', '');
+  NEW.rating := (item ->> 'rating')::NUMERIC;
+  NEW.watched_at := COALESCE(
+    (item ->> 'watched_date')::TIMESTAMP WITH TIME ZONE,
+    CASE WHEN NEW.type = 'watched' THEN NEW.updated_at END
+  );
+  NEW.metadata := item - ARRAY['id', 'media_type', 'title', 'name', 'poster_path', 'rating', 'watched_date'];
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_items_fill_from_value ON user_items;
+CREATE TRIGGER user_items_fill_from_value
+  BEFORE INSERT OR UPDATE ON user_items
+  FOR EACH ROW EXECUTE FUNCTION user_items_fill_from_value();
+
+-- Backfill existing rows (the trigger does the work)
+UPDATE user_items SET value = value WHERE tmdb_id IS NULL AND value IS NOT NULL;
+
+ALTER TABLE user_items
+  ALTER COLUMN tmdb_id SET NOT NULL,
+  ALTER COLUMN media_type SET NOT NULL,
+  ALTER COLUMN title SET NOT NULL;
+
+ALTER TABLE user_items
+  ADD CONSTRAINT user_items_type_check CHECK (type IN ('watchlist', 'watched')),
+  ADD CONSTRAINT user_items_media_type_check CHECK (media_type IN ('movie', 'tv')),
+  ADD CONSTRAINT user_items_rating_check CHECK (rating IS NULL OR (rating >= 0 AND rating <= 10)),
+  ADD CONSTRAINT user_items_title_unique UNIQUE (user_id, type, media_type, tmdb_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_items_rating ON user_items(user_id, type, rating);
+CREATE INDEX IF NOT EXISTS idx_user_items_watched_at ON user_items(user_id, type, watched_at);
+CREATE INDEX IF NOT EXISTS idx_user_items_position ON user_items(user_id, type, position);
@@ -0,0 +1,24 @@
+-- Row level security: users can only read and change their own items
+
+ALTER TABLE user_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own items" ON user_items;
+CREATE POLICY "Users can read their own items"
+  ON user_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own items" ON user_items;
+CREATE POLICY "Users can insert their own items"
+  ON user_items FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own items" ON user_items;
+CREATE POLICY "Users can update their own items"
+  ON user_items FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own items" ON user_items;
+CREATE POLICY "Users can delete their own items"
+  ON user_items FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- Give existing rows a manual position matching the order they were shown in (newest first).
+-- Positions are sparse so a move only rewrites the moved row (see lib/ordering.ts).
+
+UPDATE user_items u
+SET position = ranked.row_number * 1024
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id, type ORDER BY updated_at DESC) AS row_number
+  FROM user_items
+  WHERE position IS NULL
+) ranked
+WHERE u.id = ranked.id;
@@ -0,0 +1,20 @@
+-- Incremental sync: clients pull rows changed since their last cursor (updated_at).
+-- Deletes become tombstones (deleted_at) so they reach other devices through the same query.
+
+ALTER TABLE user_items ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- The cursor is compared against server time, so updated_at is always set by the server
+CREATE OR REPLACE FUNCTION user_items_touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_items_touch_updated_at ON user_items;
+CREATE TRIGGER user_items_touch_updated_at
+  BEFORE INSERT OR UPDATE ON user_items
+  FOR EACH ROW EXECUTE FUNCTION user_items_touch_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_user_items_updated_at ON user_items(user_id, type, updated_at);
@@ -0,0 +1,14 @@
+-- Publish user_items changes to Supabase Realtime (RLS still decides who receives which row).
+-- REPLICA IDENTITY FULL makes delete events carry the whole old row, not just its id.
+
+ALTER TABLE user_items REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE user_items;
+  END IF;
+END $$;
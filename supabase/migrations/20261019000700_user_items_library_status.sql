@@ -0,0 +1,43 @@
+-- One row per title: the separate watchlist and watched rows become a single 'library' row
+-- whose status says where the title stands, so moving between lists is a single update.
+-- Clients older than this migration write 'watchlist'/'watched' rows and are rejected by the type check.
+
+ALTER TABLE user_items ADD COLUMN IF NOT EXISTS status TEXT;
+
+-- Titles in both lists keep a single row: the live one, or the watched one when both are live
+DELETE FROM user_items planned
+USING user_items watched
+WHERE planned.type = 'watchlist'
+  AND watched.type = 'watched'
+  AND planned.user_id = watched.user_id
+  AND planned.media_type = watched.media_type
+  AND planned.tmdb_id = watched.tmdb_id
+  AND (watched.deleted_at IS NULL OR planned.deleted_at IS NOT NULL);
+
+DELETE FROM user_items watched
+USING user_items planned
+WHERE watched.type = 'watched'
+  AND planned.type = 'watchlist'
+  AND watched.user_id = planned.user_id
+  AND watched.media_type = planned.media_type
+  AND watched.tmdb_id = planned.tmdb_id;
+
+ALTER TABLE user_items DROP CONSTRAINT IF EXISTS user_items_type_check;
+
+UPDATE user_items
+SET
+  status = CASE type WHEN 'watched' THEN 'watched' ELSE 'planned' END,
+  type = 'library',
+  item_key = 'library_' || media_type || '_' || tmdb_id
+WHERE type IN ('watchlist', 'watched');
+
+ALTER TABLE user_items
+  ALTER COLUMN type SET DEFAULT 'library',
+  ALTER COLUMN status SET DEFAULT 'planned',
+  ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE user_items
+  ADD CONSTRAINT user_items_type_check CHECK (type = 'library'),
+  ADD CONSTRAINT user_items_status_check CHECK (status IN ('planned', 'watching', 'watched', 'dropped', 'on_hold'));
+
+CREATE INDEX IF NOT EXISTS idx_user_items_status ON user_items(user_id, status);
@@ -0,0 +1,8 @@
+-- Per-episode progress for TV shows: watched episode numbers by season number, e.g. {"1": [1, 2, 3]}.
+-- Kept on the show's library row so it syncs (outbox, incremental sync, realtime) with the rest of it.
+
+ALTER TABLE user_items ADD COLUMN IF NOT EXISTS progress JSONB;
+
+ALTER TABLE user_items
+  ADD CONSTRAINT user_items_progress_check
+  CHECK (progress IS NULL OR (media_type = 'tv' AND jsonb_typeof(progress) = 'object'));
@@ -0,0 +1,15 @@
+-- Personal reviews: a rating from 0.5 to 10 in half steps, an optional text review and the watched date.
+-- rating and watched_at already have columns; the review text gets its own.
+
+ALTER TABLE user_items ADD COLUMN IF NOT EXISTS review TEXT;
+
+-- Ratings saved before the review flow were never set by the app, but clear anything out of range
+UPDATE user_items SET rating = NULL WHERE rating IS NOT NULL AND (rating < 0.5 OR rating * 2 <> FLOOR(rating * 2));
+
+ALTER TABLE user_items DROP CONSTRAINT IF EXISTS user_items_rating_check;
+
+ALTER TABLE user_items
+  ADD CONSTRAINT user_items_rating_check
+    CHECK (rating IS NULL OR (rating >= 0.5 AND rating <= 10 AND rating * 2 = FLOOR(rating * 2))),
+  ADD CONSTRAINT user_items_review_length_check
+    CHECK (review IS NULL OR char_length(review) <= 5000);
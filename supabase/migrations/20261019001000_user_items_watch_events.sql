@@ -0,0 +1,17 @@
+-- Rewatch history: every viewing of a title as {id, watched_at, rating?}, oldest first.
+-- rating and watched_at keep mirroring the latest viewing.
+
+ALTER TABLE user_items ADD COLUMN IF NOT EXISTS watch_events JSONB;
+
+-- Titles already watched count as one viewing
+UPDATE user_items
+SET watch_events = jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+  'id', gen_random_uuid()::text,
+  'watched_at', watched_at,
+  'rating', rating
+)))
+WHERE status = 'watched' AND watched_at IS NOT NULL AND watch_events IS NULL AND deleted_at IS NULL;
+
+ALTER TABLE user_items
+  ADD CONSTRAINT user_items_watch_events_check
+    CHECK (watch_events IS NULL OR jsonb_typeof(watch_events) = 'array');
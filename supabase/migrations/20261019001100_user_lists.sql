@@ -0,0 +1,58 @@
+-- Custom lists ("Halloween marathon", "Date night"...): any number per user, each with its own
+-- titles in a manual order. Titles are copied into the list like library rows are, so a list
+-- can be shown without any TMDb request.
+
+CREATE TABLE IF NOT EXISTS user_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- TMDb image path of the cover (a poster or backdrop of one of its titles); NULL uses the first title
+  cover_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_lists_name_check CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  CONSTRAINT user_lists_description_check CHECK (description IS NULL OR char_length(description) <= 1000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_lists_user_id ON user_lists(user_id);
+
+CREATE TABLE IF NOT EXISTS user_list_items (
+  id SERIAL PRIMARY KEY,
+  list_id UUID NOT NULL REFERENCES user_lists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  tmdb_id INTEGER NOT NULL,
+  media_type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  poster_path TEXT,
+  -- Remaining TMDb fields (genres, overview, vote average...)
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Sparse manual position, see lib/ordering.ts
+  position DOUBLE PRECISION,
+  added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_list_items_media_type_check CHECK (media_type IN ('movie', 'tv')),
+  CONSTRAINT user_list_items_title_unique UNIQUE (list_id, media_type, tmdb_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_list_items_list_id ON user_list_items(list_id, position);
+
+-- Row level security: users can only read and change their own lists and list items
+
+ALTER TABLE user_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_list_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own lists" ON user_lists;
+CREATE POLICY "Users can manage their own lists"
+  ON user_lists FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage items of their own lists" ON user_list_items;
+CREATE POLICY "Users can manage items of their own lists"
+  ON user_list_items FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM user_lists l WHERE l.id = list_id AND l.user_id = auth.uid())
+  );
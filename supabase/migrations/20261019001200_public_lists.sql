@@ -0,0 +1,80 @@
+-- Public sharing: a user picks a handle, then a custom list (or their watchlist) can be published
+-- at APP_URL/u/<handle>/lists/<slug> and read by anyone, signed in or not.
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  handle TEXT NOT NULL,
+  display_name TEXT,
+  -- The watchlist is shared under the reserved slug "watchlist"
+  watchlist_public BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_profiles_handle_check CHECK (handle ~ '^[a-z0-9_]{3,30}$'),
+  CONSTRAINT user_profiles_display_name_check CHECK (display_name IS NULL OR char_length(display_name) <= 100)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_profiles_handle ON user_profiles(handle);
+
+-- A list keeps its slug once published, so renaming it doesn't break links already shared
+ALTER TABLE user_lists ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE user_lists ADD COLUMN IF NOT EXISTS slug TEXT;
+
+ALTER TABLE user_lists DROP CONSTRAINT IF EXISTS user_lists_slug_check;
+ALTER TABLE user_lists ADD CONSTRAINT user_lists_slug_check
+  CHECK (slug IS NULL OR (slug ~ '^[a-z0-9-]{1,60}$' AND slug <> 'watchlist'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_lists_slug ON user_lists(user_id, slug);
+
+-- Row level security: handles are public, everything else about a profile is its owner's
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read profiles" ON user_profiles;
+CREATE POLICY "Anyone can read profiles"
+  ON user_profiles FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can manage their own profile" ON user_profiles;
+CREATE POLICY "Users can manage their own profile"
+  ON user_profiles FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Shared lists and their titles can be read by anyone, including signed out visitors
+
+DROP POLICY IF EXISTS "Anyone can read shared lists" ON user_lists;
+CREATE POLICY "Anyone can read shared lists"
+  ON user_lists FOR SELECT
+  USING (is_public);
+
+DROP POLICY IF EXISTS "Anyone can read items of shared lists" ON user_list_items;
+CREATE POLICY "Anyone can read items of shared lists"
+  ON user_list_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM user_lists l WHERE l.id = list_id AND l.is_public));
+
+-- A shared watchlist only exposes the titles still planned, never the rest of the library.
+-- Rows also hold the owner's reviews, notes and viewings (a rewatched title keeps them), so
+-- visitors get the public columns through this function instead of reading user_items.
+DROP POLICY IF EXISTS "Anyone can read shared watchlists" ON user_items;
+
+CREATE OR REPLACE FUNCTION get_public_watchlist(p_user_id UUID)
+RETURNS TABLE (
+  tmdb_id INTEGER,
+  media_type TEXT,
+  title TEXT,
+  poster_path TEXT,
+  metadata JSONB,
+  position DOUBLE PRECISION
+) AS $$
+  SELECT i.tmdb_id, i.media_type, i.title, i.poster_path, i.metadata, i.position
+  FROM user_items i
+  JOIN user_profiles p ON p.user_id = i.user_id AND p.watchlist_public
+  WHERE i.user_id = p_user_id
+    AND i.type = 'library'
+    AND i.status = 'planned'
+    AND i.deleted_at IS NULL
+    AND i.tmdb_id IS NOT NULL
+  ORDER BY i.position ASC NULLS LAST, i.updated_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_public_watchlist(UUID) TO anon, authenticated;
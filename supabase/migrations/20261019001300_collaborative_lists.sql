@@ -0,0 +1,237 @@
+-- Collaborative lists: a custom list can have several members. Its creator is the owner, who
+-- invites other users by the email of their account; people who accept become editors, who can
+-- add, remove and reorder titles. The user_id of a list item is the member who added it.
+
+CREATE TABLE IF NOT EXISTS user_list_members (
+  list_id UUID NOT NULL REFERENCES user_lists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'editor',
+  -- Copied from auth.users so members can see who else is in the list
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (list_id, user_id),
+  CONSTRAINT user_list_members_role_check CHECK (role IN ('owner', 'editor'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_list_members_user_id ON user_list_members(user_id);
+
+-- Every existing list gets its creator as owner
+INSERT INTO user_list_members (list_id, user_id, role, email)
+SELECT l.id, l.user_id, 'owner', u.email
+FROM user_lists l
+JOIN auth.users u ON u.id = l.user_id
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION user_lists_add_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO user_list_members (list_id, user_id, role, email)
+  SELECT NEW.id, NEW.user_id, 'owner', u.email FROM auth.users u WHERE u.id = NEW.user_id
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_lists_add_owner ON user_lists;
+CREATE TRIGGER user_lists_add_owner
+  AFTER INSERT ON user_lists
+  FOR EACH ROW EXECUTE FUNCTION user_lists_add_owner();
+
+-- Membership checks for policies. SECURITY DEFINER so the policies on user_list_members
+-- can use them without recursing into themselves.
+CREATE OR REPLACE FUNCTION is_list_member(p_list_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM user_list_members WHERE list_id = p_list_id AND user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_list_owner(p_list_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_list_members WHERE list_id = p_list_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Updates (reorders, or a member adding a title someone else just added) keep who added it
+CREATE OR REPLACE FUNCTION user_list_items_keep_added_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  NEW.added_at := OLD.added_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_list_items_keep_added_by ON user_list_items;
+CREATE TRIGGER user_list_items_keep_added_by
+  BEFORE UPDATE ON user_list_items
+  FOR EACH ROW EXECUTE FUNCTION user_list_items_keep_added_by();
+
+-- Pending invitations, addressed to the email of an existing account
+CREATE TABLE IF NOT EXISTS user_list_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES user_lists(id) ON DELETE CASCADE,
+  -- Copied so the invitee can see what they are invited to before they can read the list
+  list_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'editor',
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_list_invitations_role_check CHECK (role IN ('editor')),
+  CONSTRAINT user_list_invitations_email_check CHECK (email = lower(email)),
+  CONSTRAINT user_list_invitations_unique UNIQUE (list_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_list_invitations_email ON user_list_invitations(email);
+
+-- Invite the account with this email to a list (owners only)
+CREATE OR REPLACE FUNCTION invite_to_list(p_list_id UUID, p_email TEXT)
+RETURNS user_list_invitations AS $$
+DECLARE
+  v_email TEXT := lower(btrim(p_email));
+  v_user_id UUID;
+  v_invitation user_list_invitations;
+BEGIN
+  IF NOT is_list_owner(p_list_id) THEN
+    RAISE EXCEPTION 'Only the owner of a list can invite people' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = v_email;
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No VibeWatch account uses that email' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM user_list_members WHERE list_id = p_list_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Already a member of this list' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO user_list_invitations (list_id, list_name, email, invited_by, invited_by_email)
+  SELECT l.id, l.name, v_email, auth.uid(), lower(auth.jwt() ->> 'email')
+  FROM user_lists l WHERE l.id = p_list_id
+  ON CONFLICT (list_id, email) DO UPDATE SET created_at = NOW(), list_name = EXCLUDED.list_name
+  RETURNING * INTO v_invitation;
+
+  RETURN v_invitation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept an invitation sent to the signed-in user's email, returning the list id
+CREATE OR REPLACE FUNCTION accept_list_invitation(p_invitation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invitation user_list_invitations;
+BEGIN
+  SELECT * INTO v_invitation FROM user_list_invitations
+  WHERE id = p_invitation_id AND email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO user_list_members (list_id, user_id, role, email)
+  VALUES (v_invitation.list_id, auth.uid(), v_invitation.role, v_invitation.email)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM user_list_invitations WHERE id = v_invitation.id;
+
+  RETURN v_invitation.list_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Row level security: members can read a list and manage its titles; only the owner can
+-- rename, share or delete it (the existing "own lists" policy) and manage its members
+
+ALTER TABLE user_list_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_list_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read their lists" ON user_lists;
+CREATE POLICY "Members can read their lists"
+  ON user_lists FOR SELECT
+  USING (is_list_member(id));
+
+-- Members add titles as themselves, and whoever added a title stays its user_id
+-- (see user_list_items_keep_added_by), so "Added by" can't be forged
+DROP POLICY IF EXISTS "Members can manage items of their lists" ON user_list_items;
+
+DROP POLICY IF EXISTS "Members can read items of their lists" ON user_list_items;
+CREATE POLICY "Members can read items of their lists"
+  ON user_list_items FOR SELECT
+  USING (is_list_member(list_id));
+
+DROP POLICY IF EXISTS "Members can add items to their lists" ON user_list_items;
+CREATE POLICY "Members can add items to their lists"
+  ON user_list_items FOR INSERT
+  WITH CHECK (is_list_member(list_id) AND auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Members can update items of their lists" ON user_list_items;
+CREATE POLICY "Members can update items of their lists"
+  ON user_list_items FOR UPDATE
+  USING (is_list_member(list_id))
+  WITH CHECK (is_list_member(list_id));
+
+DROP POLICY IF EXISTS "Members can remove items from their lists" ON user_list_items;
+CREATE POLICY "Members can remove items from their lists"
+  ON user_list_items FOR DELETE
+  USING (is_list_member(list_id));
+
+DROP POLICY IF EXISTS "Members can read the members of their lists" ON user_list_members;
+CREATE POLICY "Members can read the members of their lists"
+  ON user_list_members FOR SELECT
+  USING (is_list_member(list_id));
+
+-- Owners remove editors, editors can leave; the owner stays until the list is deleted.
+-- Members are only ever added by the functions above.
+DROP POLICY IF EXISTS "Owners and members themselves can remove editors" ON user_list_members;
+CREATE POLICY "Owners and members themselves can remove editors"
+  ON user_list_members FOR DELETE
+  USING (role = 'editor' AND (is_list_owner(list_id) OR auth.uid() = user_id));
+
+DROP POLICY IF EXISTS "Owners and invitees can read invitations" ON user_list_invitations;
+CREATE POLICY "Owners and invitees can read invitations"
+  ON user_list_invitations FOR SELECT
+  USING (is_list_owner(list_id) OR email = lower(auth.jwt() ->> 'email'));
+
+-- Owners cancel invitations, invitees decline them
+DROP POLICY IF EXISTS "Owners and invitees can delete invitations" ON user_list_invitations;
+CREATE POLICY "Owners and invitees can delete invitations"
+  ON user_list_invitations FOR DELETE
+  USING (is_list_owner(list_id) OR email = lower(auth.jwt() ->> 'email'));
+
+-- Publish list changes to Supabase Realtime so members see each other's edits live
+
+-- Realtime can't filter deletes by list, so removing a title or an invitation also touches
+-- its list; members listening to their lists get that as a user_lists update
+CREATE OR REPLACE FUNCTION user_lists_touch_on_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE user_lists SET updated_at = NOW() WHERE id = OLD.list_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_list_items_touch_list ON user_list_items;
+CREATE TRIGGER user_list_items_touch_list
+  AFTER DELETE ON user_list_items
+  FOR EACH ROW EXECUTE FUNCTION user_lists_touch_on_delete();
+
+DROP TRIGGER IF EXISTS user_list_invitations_touch_list ON user_list_invitations;
+CREATE TRIGGER user_list_invitations_touch_list
+  AFTER DELETE ON user_list_invitations
+  FOR EACH ROW EXECUTE FUNCTION user_lists_touch_on_delete();
+
+ALTER TABLE user_list_items REPLICA IDENTITY FULL;
+ALTER TABLE user_list_members REPLICA IDENTITY FULL;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['user_lists', 'user_list_items', 'user_list_members', 'user_list_invitations'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+    END IF;
+  END LOOP;
+END $$;
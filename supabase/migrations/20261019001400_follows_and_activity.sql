@@ -0,0 +1,139 @@
+-- Social graph and activity feed: users follow each other by handle (user_profiles), and what
+-- they add, watch and rate is logged to user_activity for their followers' feeds.
+-- Who sees that activity, and whether follows need approval, is up to each user.
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS activity_visibility TEXT NOT NULL DEFAULT 'followers';
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS requires_follow_approval BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_activity_visibility_check;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_activity_visibility_check
+  CHECK (activity_visibility IN ('everyone', 'followers', 'nobody'));
+
+CREATE TABLE IF NOT EXISTS user_follows (
+  follower_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  followee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 'pending' until the followee approves, when their profile requires it
+  status TEXT NOT NULL DEFAULT 'accepted',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (follower_id, followee_id),
+  CONSTRAINT user_follows_status_check CHECK (status IN ('pending', 'accepted')),
+  CONSTRAINT user_follows_self_check CHECK (follower_id <> followee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_follows_followee_id ON user_follows(followee_id);
+
+-- The status of a new follow is decided by the followee's settings, never by the follower
+CREATE OR REPLACE FUNCTION user_follows_set_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM user_profiles WHERE user_id = NEW.followee_id AND requires_follow_approval
+    ) THEN 'pending'
+    ELSE 'accepted'
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_follows_set_status ON user_follows;
+CREATE TRIGGER user_follows_set_status
+  BEFORE INSERT ON user_follows
+  FOR EACH ROW EXECUTE FUNCTION user_follows_set_status();
+
+-- Accepting a request only changes its status. Without this a followee could rewrite
+-- follower_id and make anyone "follow" them, which unlocks that user's activity.
+CREATE OR REPLACE FUNCTION user_follows_keep_users()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.follower_id <> OLD.follower_id OR NEW.followee_id <> OLD.followee_id THEN
+    RAISE EXCEPTION 'The users of a follow cannot be changed';
+  END IF;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_follows_keep_users ON user_follows;
+CREATE TRIGGER user_follows_keep_users
+  BEFORE UPDATE ON user_follows
+  FOR EACH ROW EXECUTE FUNCTION user_follows_keep_users();
+
+CREATE TABLE IF NOT EXISTS user_activity (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  tmdb_id INTEGER NOT NULL,
+  media_type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  poster_path TEXT,
+  -- Set for 'watched' (when rated) and 'rated'
+  rating NUMERIC(3, 1),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_activity_type_check CHECK (type IN ('added', 'watched', 'rated')),
+  CONSTRAINT user_activity_media_type_check CHECK (media_type IN ('movie', 'tv'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_activity_user_id ON user_activity(user_id, created_at DESC);
+
+-- Whether the signed-in user may see another user's activity
+CREATE OR REPLACE FUNCTION can_see_activity(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_user_id = auth.uid() OR EXISTS (
+    SELECT 1 FROM user_profiles p
+    WHERE p.user_id = p_user_id
+      AND (
+        p.activity_visibility = 'everyone'
+        OR (
+          p.activity_visibility = 'followers'
+          AND EXISTS (
+            SELECT 1 FROM user_follows f
+            WHERE f.follower_id = auth.uid() AND f.followee_id = p_user_id AND f.status = 'accepted'
+          )
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Row level security
+
+ALTER TABLE user_follows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own follows" ON user_follows;
+CREATE POLICY "Users can read their own follows"
+  ON user_follows FOR SELECT
+  USING (auth.uid() = follower_id OR auth.uid() = followee_id);
+
+DROP POLICY IF EXISTS "Users can follow others" ON user_follows;
+CREATE POLICY "Users can follow others"
+  ON user_follows FOR INSERT
+  WITH CHECK (auth.uid() = follower_id);
+
+-- Followees approve pending requests
+DROP POLICY IF EXISTS "Users can accept follow requests" ON user_follows;
+CREATE POLICY "Users can accept follow requests"
+  ON user_follows FOR UPDATE
+  USING (auth.uid() = followee_id)
+  WITH CHECK (auth.uid() = followee_id AND status = 'accepted');
+
+-- Followers unfollow, followees decline requests or remove followers
+DROP POLICY IF EXISTS "Users can end their own follows" ON user_follows;
+CREATE POLICY "Users can end their own follows"
+  ON user_follows FOR DELETE
+  USING (auth.uid() = follower_id OR auth.uid() = followee_id);
+
+DROP POLICY IF EXISTS "Users can log their own activity" ON user_activity;
+CREATE POLICY "Users can log their own activity"
+  ON user_activity FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own activity" ON user_activity;
+CREATE POLICY "Users can delete their own activity"
+  ON user_activity FOR DELETE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can read activity they are allowed to see" ON user_activity;
+CREATE POLICY "Users can read activity they are allowed to see"
+  ON user_activity FOR SELECT
+  USING (can_see_activity(user_id));
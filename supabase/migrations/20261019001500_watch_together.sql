@@ -0,0 +1,49 @@
+-- Watch together: people who plan a movie night together can read each other's watchlists.
+-- That is anyone the user shares a list with, or follows and is followed back by.
+-- Like shared watchlists, only the titles still planned are exposed, never the rest of the library.
+
+-- Whether the signed-in user is in a watch group with another user
+CREATE OR REPLACE FUNCTION shares_watch_group(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_list_members mine
+    JOIN user_list_members theirs ON theirs.list_id = mine.list_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  ) OR (
+    EXISTS (
+      SELECT 1 FROM user_follows
+      WHERE follower_id = auth.uid() AND followee_id = p_user_id AND status = 'accepted'
+    )
+    AND EXISTS (
+      SELECT 1 FROM user_follows
+      WHERE follower_id = p_user_id AND followee_id = auth.uid() AND status = 'accepted'
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Rows also hold reviews, notes and viewings (a rewatched title keeps them), so the group
+-- reads only the public columns through this function instead of reading user_items
+DROP POLICY IF EXISTS "Watch groups can read each other's watchlists" ON user_items;
+
+CREATE OR REPLACE FUNCTION get_group_watchlists(p_user_ids UUID[])
+RETURNS TABLE (
+  user_id UUID,
+  tmdb_id INTEGER,
+  media_type TEXT,
+  title TEXT,
+  poster_path TEXT,
+  metadata JSONB,
+  position DOUBLE PRECISION
+) AS $$
+  SELECT i.user_id, i.tmdb_id, i.media_type, i.title, i.poster_path, i.metadata, i.position
+  FROM user_items i
+  WHERE i.user_id = ANY(p_user_ids)
+    AND (i.user_id = auth.uid() OR shares_watch_group(i.user_id))
+    AND i.type = 'library'
+    AND i.status = 'planned'
+    AND i.deleted_at IS NULL
+    AND i.tmdb_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_group_watchlists(UUID[]) TO authenticated;
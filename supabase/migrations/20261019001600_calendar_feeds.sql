@@ -0,0 +1,46 @@
+-- Calendar feeds: the upcoming releases and episodes of a user's titles as an iCalendar file
+-- calendar apps can subscribe to. The app publishes the file to <user id>/<token>.ics; the
+-- bucket is public so calendar apps can fetch it without signing in, and the random token
+-- keeps the address unguessable.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('calendars', 'calendars', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Users only write feeds into their own folder
+DROP POLICY IF EXISTS "Users can publish their own calendar feeds" ON storage.objects;
+CREATE POLICY "Users can publish their own calendar feeds"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'calendars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Upserts need to read the existing file before replacing it
+DROP POLICY IF EXISTS "Users can read their own calendar feeds" ON storage.objects;
+CREATE POLICY "Users can read their own calendar feeds"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'calendars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can update their own calendar feeds" ON storage.objects;
+CREATE POLICY "Users can update their own calendar feeds"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'calendars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own calendar feeds" ON storage.objects;
+CREATE POLICY "Users can delete their own calendar feeds"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'calendars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- The token of each user's feed, so every device of the user republishes the same feed and
+-- it can still be moved or removed after the app's local data is cleared
+CREATE TABLE IF NOT EXISTS user_calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE user_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own calendar feed" ON user_calendar_feeds;
+CREATE POLICY "Users can manage their own calendar feed"
+  ON user_calendar_feeds FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- Notification preferences: which kinds of reminders a user wants, at what time of day, and
+-- the titles they asked to be reminded about. Reminders are scheduled on each device as local
+-- notifications; this row keeps the choices the same across the user's devices.
+
+CREATE TABLE IF NOT EXISTS user_notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  theatrical_releases BOOLEAN NOT NULL DEFAULT TRUE,
+  digital_releases BOOLEAN NOT NULL DEFAULT TRUE,
+  new_episodes BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Local hour the reminders go off on the day of the release
+  reminder_hour SMALLINT NOT NULL DEFAULT 9,
+  -- Media keys of the titles with reminders, e.g. 'movie_1399'
+  titles TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_notification_preferences_hour_check CHECK (reminder_hour BETWEEN 0 AND 23)
+);
+
+ALTER TABLE user_notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own notification preferences" ON user_notification_preferences;
+CREATE POLICY "Users can manage their own notification preferences"
+  ON user_notification_preferences FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
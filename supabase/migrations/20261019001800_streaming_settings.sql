@@ -0,0 +1,21 @@
+-- Streaming settings: the region a user looks up where-to-watch data in and the services they
+-- subscribe to. Kept per user so they follow the account to other devices and don't carry
+-- over to the next account signed in on a shared device.
+
+CREATE TABLE IF NOT EXISTS user_streaming_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- ISO 3166-1 country code, as TMDb lists watch providers by it
+  region TEXT NOT NULL DEFAULT 'US',
+  -- The services with the name and logo TMDb gives them: [{ provider_id, provider_name, logo_path }]
+  services JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_streaming_settings_region_check CHECK (region ~ '^[A-Z]{2}$')
+);
+
+ALTER TABLE user_streaming_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own streaming settings" ON user_streaming_settings;
+CREATE POLICY "Users can manage their own streaming settings"
+  ON user_streaming_settings FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);